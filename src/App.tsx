@@ -4,8 +4,16 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/hooks/useAuth";
+import { ProfileProvider } from "@/hooks/useProfile";
+import { CuisinesProvider } from "@/hooks/useCuisines";
+import { SavedSearchesProvider } from "@/hooks/useSavedSearches";
+import { CollectionsProvider } from "@/hooks/useCollections";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
+import RecipeDetail from "./pages/RecipeDetail";
+import CollectionDetail from "./pages/CollectionDetail";
+import Trash from "./pages/Trash";
+import BulkImport from "./pages/BulkImport";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -13,18 +21,30 @@ const queryClient = new QueryClient();
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <AuthProvider>
-      <TooltipProvider>
-        <Toaster />
-        <Sonner />
-        <BrowserRouter>
-          <Routes>
-            <Route path="/" element={<Index />} />
-            <Route path="/auth" element={<Auth />} />
-            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-            <Route path="*" element={<NotFound />} />
-          </Routes>
-        </BrowserRouter>
-      </TooltipProvider>
+      <ProfileProvider>
+        <CuisinesProvider>
+          <SavedSearchesProvider>
+            <CollectionsProvider>
+              <TooltipProvider>
+                <Toaster />
+                <Sonner />
+                <BrowserRouter>
+                  <Routes>
+                    <Route path="/" element={<Index />} />
+                    <Route path="/auth" element={<Auth />} />
+                    <Route path="/recipes/:id" element={<RecipeDetail />} />
+                    <Route path="/collections/:id" element={<CollectionDetail />} />
+                    <Route path="/trash" element={<Trash />} />
+                    <Route path="/import" element={<BulkImport />} />
+                    {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+                    <Route path="*" element={<NotFound />} />
+                  </Routes>
+                </BrowserRouter>
+              </TooltipProvider>
+            </CollectionsProvider>
+          </SavedSearchesProvider>
+        </CuisinesProvider>
+      </ProfileProvider>
     </AuthProvider>
   </QueryClientProvider>
 );
@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { CollectionDialog } from '@/components/CollectionDialog';
+import { useCollections } from '@/hooks/useCollections';
+import { useToast } from '@/hooks/use-toast';
+import { FolderPlus, Plus } from 'lucide-react';
+import {
+  Collection,
+  addRecipeToCollection,
+  fetchRecipeCollectionIds,
+  removeRecipeFromCollection
+} from '@/lib/collections';
+import type { Recipe } from '@/lib/recipes';
+
+interface AddToCollectionMenuProps {
+  recipe: Recipe;
+  className?: string;
+}
+
+// Toggles a recipe's membership in each of the user's collections
+export const AddToCollectionMenu = ({ recipe, className }: AddToCollectionMenuProps) => {
+  const { collections, refresh } = useCollections();
+  const { toast } = useToast();
+  const [memberOf, setMemberOf] = useState<Set<string> | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  // Membership is only looked up when the menu opens, not for every card on the page
+  const handleOpenChange = async (open: boolean) => {
+    if (!open) return;
+    setMemberOf(null);
+    try {
+      setMemberOf(new Set(await fetchRecipeCollectionIds(recipe.id)));
+    } catch {
+      setMemberOf(new Set());
+    }
+  };
+
+  const toggle = async (collection: Collection, add: boolean) => {
+    setMemberOf(prev => {
+      const next = new Set(prev);
+      if (add) next.add(collection.id);
+      else next.delete(collection.id);
+      return next;
+    });
+
+    try {
+      if (add) await addRecipeToCollection(collection.id, recipe.id);
+      else await removeRecipeFromCollection(collection.id, recipe.id);
+      refresh();
+    } catch (error) {
+      setMemberOf(prev => {
+        const next = new Set(prev);
+        if (add) next.delete(collection.id);
+        else next.add(collection.id);
+        return next;
+      });
+      toast({
+        title: add ? 'Error adding to collection' : 'Error removing from collection',
+        description: (error as Error).message,
+        variant: 'destructive'
+      });
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu onOpenChange={handleOpenChange}>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className={className} aria-label={`Add ${recipe.title} to a collection`}>
+            <FolderPlus className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-56">
+          <DropdownMenuLabel>Collections</DropdownMenuLabel>
+          {collections.map(collection => (
+            <DropdownMenuCheckboxItem
+              key={collection.id}
+              checked={memberOf?.has(collection.id) ?? false}
+              disabled={memberOf === null}
+              onCheckedChange={(checked) => toggle(collection, checked)}
+              onSelect={(e) => e.preventDefault()}
+            >
+              <span className="truncate">{collection.name}</span>
+            </DropdownMenuCheckboxItem>
+          ))}
+          {collections.length > 0 && <DropdownMenuSeparator />}
+          <DropdownMenuItem onSelect={() => setDialogOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New collection...
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <CollectionDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        onSaved={(collection) => toggle(collection, true)}
+      />
+    </>
+  );
+};
@@ -0,0 +1,171 @@
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { AspectRatio } from '@/components/ui/aspect-ratio';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useAuth } from '@/hooks/useAuth';
+import { useCollections } from '@/hooks/useCollections';
+import { usePhotoUrls } from '@/hooks/usePhotoUrls';
+import { useToast } from '@/hooks/use-toast';
+import { ImagePlus, Loader2, X } from 'lucide-react';
+import type { Collection } from '@/lib/collections';
+import { RecipePhoto, uploadPhoto } from '@/lib/photos';
+
+interface CollectionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Set when editing an existing collection
+  collection?: Collection;
+  onSaved?: (collection: Collection) => void;
+}
+
+// Creates a collection, or edits the name, description and cover of an existing one
+export const CollectionDialog = ({ open, onOpenChange, collection, onSaved }: CollectionDialogProps) => {
+  const { user } = useAuth();
+  const { saveCollection } = useCollections();
+  const { toast } = useToast();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [cover, setCover] = useState<RecipePhoto | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const coverUrl = usePhotoUrls(cover ? [cover.thumbnail_path] : [])[cover?.thumbnail_path];
+
+  useEffect(() => {
+    if (!open) return;
+    setName(collection?.name ?? '');
+    setDescription(collection?.description ?? '');
+    setCover(collection?.cover_photo ?? null);
+  }, [open, collection]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file || !user) return;
+
+    setUploading(true);
+    try {
+      setCover(await uploadPhoto(file, user.id));
+    } catch (error) {
+      toast({
+        title: `Could not upload ${file.name}`,
+        description: (error as Error).message,
+        variant: 'destructive'
+      });
+    } finally {
+      setUploading(false);
+      if (inputRef.current) inputRef.current.value = '';
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const saved = await saveCollection({ name, description, cover_photo: cover }, collection);
+      onOpenChange(false);
+      onSaved?.(saved);
+    } catch (error) {
+      toast({
+        title: collection ? 'Error updating collection' : 'Error creating collection',
+        description: (error as Error).message,
+        variant: 'destructive'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{collection ? 'Edit collection' : 'New collection'}</DialogTitle>
+            {!collection && (
+              <DialogDescription>Group recipes into a cookbook and arrange them in your own order.</DialogDescription>
+            )}
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="collection-name">Name *</Label>
+            <Input
+              id="collection-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Sunday roasts"
+              autoFocus
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="collection-description">Description</Label>
+            <Textarea
+              id="collection-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={3}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Cover</Label>
+            {cover ? (
+              <div className="relative w-40 overflow-hidden rounded-md border">
+                <AspectRatio ratio={4 / 3} className="bg-muted">
+                  {coverUrl && <img src={coverUrl} alt="Cover" className="h-full w-full object-cover" />}
+                </AspectRatio>
+                <Button
+                  type="button"
+                  size="icon"
+                  variant="destructive"
+                  className="absolute right-1 top-1 h-6 w-6"
+                  onClick={() => setCover(null)}
+                  aria-label="Remove cover"
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">Without a cover, the first recipe's photo is used.</p>
+            )}
+            <input
+              ref={inputRef}
+              type="file"
+              accept="image/jpeg,image/png,image/webp"
+              className="hidden"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              onClick={() => inputRef.current?.click()}
+              disabled={uploading}
+            >
+              {uploading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <ImagePlus className="h-4 w-4 mr-2" />}
+              {cover ? 'Replace Cover' : 'Add Cover'}
+            </Button>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving || uploading || !name.trim()}>
+              {collection ? 'Save' : 'Create'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,211 @@
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useAuth } from '@/hooks/useAuth';
+import { usePhotoUrls } from '@/hooks/usePhotoUrls';
+import { useToast } from '@/hooks/use-toast';
+import { ImagePlus, Loader2, Star, X } from 'lucide-react';
+import { CookLog, addCookLog, today } from '@/lib/cook-logs';
+import { RecipePhoto, uploadPhoto } from '@/lib/photos';
+import type { Recipe } from '@/lib/recipes';
+import { cn } from '@/lib/utils';
+
+interface CookLogDialogProps {
+  recipe: Recipe;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onLogged: (log: CookLog) => void;
+}
+
+// "I cooked this": records a dated entry with optional notes, rating, photo and servings
+export const CookLogDialog = ({ recipe, open, onOpenChange, onLogged }: CookLogDialogProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [cookedOn, setCookedOn] = useState(today());
+  const [servings, setServings] = useState('');
+  const [rating, setRating] = useState<number | null>(null);
+  const [notes, setNotes] = useState('');
+  const [photo, setPhoto] = useState<RecipePhoto | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const photoUrl = usePhotoUrls(photo ? [photo.thumbnail_path] : [])[photo?.thumbnail_path];
+
+  useEffect(() => {
+    if (!open) return;
+    setCookedOn(today());
+    setServings(recipe.servings ? String(recipe.servings) : '');
+    setRating(null);
+    setNotes('');
+    setPhoto(null);
+  }, [open, recipe.servings]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file || !user) return;
+
+    setUploading(true);
+    try {
+      setPhoto(await uploadPhoto(file, user.id));
+    } catch (error) {
+      toast({
+        title: `Could not upload ${file.name}`,
+        description: (error as Error).message,
+        variant: 'destructive'
+      });
+    } finally {
+      setUploading(false);
+      if (inputRef.current) inputRef.current.value = '';
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    setSaving(true);
+    try {
+      const log = await addCookLog({
+        cooked_on: cookedOn,
+        servings: parseInt(servings, 10) > 0 ? parseInt(servings, 10) : null,
+        rating,
+        notes,
+        photo
+      }, recipe.id, user.id);
+      onLogged(log);
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'Error logging cook',
+        description: (error as Error).message,
+        variant: 'destructive'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>I cooked this</DialogTitle>
+            <DialogDescription>Add an entry to the cooking log for {recipe.title}.</DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="cooked-on">Date</Label>
+              <Input
+                id="cooked-on"
+                type="date"
+                value={cookedOn}
+                max={today()}
+                onChange={(e) => setCookedOn(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="cooked-servings">Servings made</Label>
+              <Input
+                id="cooked-servings"
+                type="number"
+                min={1}
+                value={servings}
+                onChange={(e) => setServings(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>How did it turn out?</Label>
+            <div className="flex">
+              {[1, 2, 3, 4, 5].map(stars => (
+                <button
+                  key={stars}
+                  type="button"
+                  onClick={() => setRating(stars === rating ? null : stars)}
+                  aria-label={stars === rating ? 'Clear rating' : `${stars} out of 5`}
+                  className="p-0.5"
+                >
+                  <Star
+                    className={cn(
+                      'h-5 w-5',
+                      stars <= (rating ?? 0) ? 'fill-yellow-400 text-yellow-400' : 'text-muted-foreground'
+                    )}
+                  />
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="cooked-notes">Notes</Label>
+            <Textarea
+              id="cooked-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="e.g. Used less chilli, needed 5 more minutes"
+              rows={3}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Photo</Label>
+            {photo && (
+              <div className="relative h-24 w-32 overflow-hidden rounded-md border bg-muted">
+                {photoUrl && <img src={photoUrl} alt="" className="h-full w-full object-cover" />}
+                <Button
+                  type="button"
+                  size="icon"
+                  variant="destructive"
+                  className="absolute right-1 top-1 h-6 w-6"
+                  onClick={() => setPhoto(null)}
+                  aria-label="Remove photo"
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            )}
+            <input
+              ref={inputRef}
+              type="file"
+              accept="image/jpeg,image/png,image/webp"
+              className="hidden"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              onClick={() => inputRef.current?.click()}
+              disabled={uploading}
+            >
+              {uploading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <ImagePlus className="h-4 w-4 mr-2" />}
+              {photo ? 'Replace Photo' : 'Add Photo'}
+            </Button>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving || uploading || !cookedOn}>
+              Save Entry
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,131 @@
+import { useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { CookLogDialog } from '@/components/CookLogDialog';
+import { usePhotoUrls } from '@/hooks/usePhotoUrls';
+import { useToast } from '@/hooks/use-toast';
+import { CookingPot, Star, Trash2, Users } from 'lucide-react';
+import { CookLog, deleteCookLog, fetchCookLogs } from '@/lib/cook-logs';
+import type { Recipe, RecipeCookStats } from '@/lib/recipes';
+
+interface CookLogTimelineProps {
+  recipe: Recipe;
+  // Called after entries are added or removed so the recipe's "last cooked" stays current
+  onStatsChange?: (stats: RecipeCookStats) => void;
+}
+
+const toStats = (logs: CookLog[]): RecipeCookStats => ({
+  last_cooked: logs.reduce<string | null>((latest, log) => (!latest || log.cooked_on > latest ? log.cooked_on : latest), null),
+  times_cooked: logs.length
+});
+
+const sortLogs = (logs: CookLog[]) =>
+  [...logs].sort((a, b) => b.cooked_on.localeCompare(a.cooked_on) || b.created_at.localeCompare(a.created_at));
+
+export const CookLogTimeline = ({ recipe, onStatsChange }: CookLogTimelineProps) => {
+  const { toast } = useToast();
+  const [logs, setLogs] = useState<CookLog[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const urls = usePhotoUrls(logs.flatMap(log => (log.photo ? [log.photo.thumbnail_path] : [])));
+
+  useEffect(() => {
+    setLoading(true);
+    fetchCookLogs(recipe.id)
+      .then(setLogs)
+      .catch(() => setLogs([]))
+      .finally(() => setLoading(false));
+  }, [recipe.id]);
+
+  const updateLogs = (next: CookLog[]) => {
+    setLogs(next);
+    onStatsChange?.(toStats(next));
+  };
+
+  const handleDelete = async (log: CookLog) => {
+    try {
+      await deleteCookLog(log);
+      updateLogs(logs.filter(l => l.id !== log.id));
+    } catch (error) {
+      toast({
+        title: 'Error deleting entry',
+        description: (error as Error).message,
+        variant: 'destructive'
+      });
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-3xl mx-auto">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-lg">Cooking log</CardTitle>
+        <Button size="sm" onClick={() => setDialogOpen(true)}>
+          <CookingPot className="h-4 w-4 mr-2" />
+          I cooked this
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : logs.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            You haven't logged this recipe yet. Record it each time you make it to see your history here.
+          </p>
+        ) : (
+          <ol className="relative space-y-6 border-l pl-6">
+            {logs.map(log => {
+              const photoUrl = log.photo && urls[log.photo.thumbnail_path];
+
+              return (
+                <li key={log.id} className="relative">
+                  <span className="absolute -left-[29px] top-1.5 h-2.5 w-2.5 rounded-full bg-primary" />
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="space-y-1">
+                      <p className="font-medium">{format(parseISO(log.cooked_on), 'EEEE d MMMM yyyy')}</p>
+                      <div className="flex items-center gap-3 text-sm text-muted-foreground">
+                        {log.rating && (
+                          <span className="flex items-center gap-0.5" aria-label={`${log.rating} out of 5`}>
+                            {Array.from({ length: log.rating }).map((_, i) => (
+                              <Star key={i} className="h-3.5 w-3.5 fill-yellow-400 text-yellow-400" />
+                            ))}
+                          </span>
+                        )}
+                        {log.servings && (
+                          <span className="flex items-center gap-1">
+                            <Users className="h-3.5 w-3.5" />
+                            {log.servings} servings
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-destructive"
+                      onClick={() => handleDelete(log)}
+                      aria-label="Delete entry"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  {log.notes && <p className="mt-2 text-sm whitespace-pre-line">{log.notes}</p>}
+                  {photoUrl && (
+                    <img src={photoUrl} alt="" className="mt-2 h-32 w-44 rounded-md border object-cover" loading="lazy" />
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </CardContent>
+
+      <CookLogDialog
+        recipe={recipe}
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        onLogged={(log) => updateLogs(sortLogs([...logs, log]))}
+      />
+    </Card>
+  );
+};
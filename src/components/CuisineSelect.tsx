@@ -0,0 +1,117 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectSeparator, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useCuisines } from '@/hooks/useCuisines';
+import { useToast } from '@/hooks/use-toast';
+
+interface CuisineSelectProps {
+  value: string;
+  onValueChange: (slug: string) => void;
+  // Adds an "All Cuisines" entry with the value 'all', for filters
+  includeAll?: boolean;
+  // Adds an entry that lets the user create their own cuisine
+  allowCreate?: boolean;
+  className?: string;
+}
+
+const NEW_CUISINE = '__new__';
+
+export const CuisineSelect = ({ value, onValueChange, includeAll, allowCreate, className }: CuisineSelectProps) => {
+  const { cuisines, addCuisine } = useCuisines();
+  const { toast } = useToast();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const handleValueChange = (slug: string) => {
+    if (slug === NEW_CUISINE) {
+      setName('');
+      setDialogOpen(true);
+      return;
+    }
+    onValueChange(slug);
+  };
+
+  // No <form> here: the dialog is rendered inside RecipeForm's form and a submit would bubble up to it
+  const handleAdd = async () => {
+    setSaving(true);
+    try {
+      const cuisine = await addCuisine(name);
+      onValueChange(cuisine.slug);
+      setDialogOpen(false);
+    } catch (error) {
+      toast({
+        title: 'Error adding cuisine',
+        description: (error as Error).message,
+        variant: 'destructive'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <Select value={value} onValueChange={handleValueChange}>
+        <SelectTrigger className={className}>
+          <SelectValue placeholder={includeAll ? 'All Cuisines' : undefined} />
+        </SelectTrigger>
+        <SelectContent>
+          {includeAll && <SelectItem value="all">All Cuisines</SelectItem>}
+          {cuisines.map(cuisine => (
+            <SelectItem key={cuisine.id} value={cuisine.slug}>
+              {cuisine.name}
+            </SelectItem>
+          ))}
+          {allowCreate && (
+            <>
+              <SelectSeparator />
+              <SelectItem value={NEW_CUISINE}>Add a cuisine...</SelectItem>
+            </>
+          )}
+        </SelectContent>
+      </Select>
+
+      {allowCreate && (
+        <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+          <DialogContent className="sm:max-w-sm">
+            <DialogHeader>
+              <DialogTitle>Add a cuisine</DialogTitle>
+              <DialogDescription>It will be available for all of your recipes.</DialogDescription>
+            </DialogHeader>
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  handleAdd();
+                }
+              }}
+              placeholder="e.g. Georgian"
+              aria-label="Cuisine name"
+              autoFocus
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="button" onClick={handleAdd} disabled={saving || !name.trim()}>
+                Add Cuisine
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      )}
+    </>
+  );
+};
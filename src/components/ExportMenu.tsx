@@ -0,0 +1,86 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useAuth } from '@/hooks/useAuth';
+import { useCuisines } from '@/hooks/useCuisines';
+import { useToast } from '@/hooks/use-toast';
+import { Download, Loader2 } from 'lucide-react';
+import { ExportFormat, downloadBlob, exportFormatLabels, exportRecipes, fetchLibrary } from '@/lib/recipe-export';
+import type { Recipe } from '@/lib/recipes';
+
+interface ExportMenuProps {
+  // Exports just this recipe; without it the whole library is exported
+  recipe?: Recipe;
+  className?: string;
+}
+
+const formats: ExportFormat[] = ['json', 'markdown', 'jsonld'];
+
+export const ExportMenu = ({ recipe, className }: ExportMenuProps) => {
+  const { user } = useAuth();
+  const { cuisineName } = useCuisines();
+  const { toast } = useToast();
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async (format: ExportFormat) => {
+    if (!user) return;
+
+    setExporting(true);
+    try {
+      const recipes = recipe ? [recipe] : await fetchLibrary(user.id);
+      if (recipes.length === 0) {
+        toast({ title: 'Nothing to export', description: 'Add a recipe first.' });
+        return;
+      }
+
+      const { blob, filename } = exportRecipes(recipes, format, cuisineName);
+      downloadBlob(blob, filename);
+      if (!recipe) {
+        toast({
+          title: 'Recipes exported',
+          description: `${recipes.length} ${recipes.length === 1 ? 'recipe' : 'recipes'} saved to ${filename}.`
+        });
+      }
+    } catch (error) {
+      toast({
+        title: 'Error exporting recipes',
+        description: (error as Error).message,
+        variant: 'destructive'
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        {recipe ? (
+          <Button variant="outline" size="sm" className={className} aria-label={`Export ${recipe.title}`} disabled={exporting}>
+            <Download className="h-4 w-4" />
+          </Button>
+        ) : (
+          <Button variant="outline" className={className} disabled={exporting}>
+            {exporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+            Export
+          </Button>
+        )}
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>{recipe ? 'Export recipe' : 'Export all recipes'}</DropdownMenuLabel>
+        {formats.map(format => (
+          <DropdownMenuItem key={format} onSelect={() => handleExport(format)}>
+            {exportFormatLabels[format]}
+            {format === 'markdown' && !recipe && ' (.zip)'}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
@@ -0,0 +1,20 @@
+import { splitHighlights } from '@/lib/recipes';
+
+interface HighlightedTextProps {
+  text: string;
+}
+
+// Renders search matches marked up by Postgres' ts_headline
+export const HighlightedText = ({ text }: HighlightedTextProps) => (
+  <>
+    {splitHighlights(text).map((part, index) =>
+      part.match ? (
+        <mark key={index} className="rounded-sm bg-primary/20 px-0.5 text-foreground">
+          {part.text}
+        </mark>
+      ) : (
+        part.text
+      )
+    )}
+  </>
+);
@@ -0,0 +1,51 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ColumnMapping, ImportField, REQUIRED_IMPORT_FIELDS, importFieldLabels } from '@/lib/bulk-import';
+
+interface ImportColumnMappingProps {
+  headers: string[];
+  // First data row, shown next to each field so the user can tell columns apart
+  sample: string[] | undefined;
+  mapping: ColumnMapping;
+  onChange: (mapping: ColumnMapping) => void;
+}
+
+const NOT_IMPORTED = 'none';
+
+// Picks the spreadsheet column each recipe field is read from
+export const ImportColumnMapping = ({ headers, sample, mapping, onChange }: ImportColumnMappingProps) => (
+  <div className="divide-y rounded-md border bg-card">
+    {(Object.keys(importFieldLabels) as ImportField[]).map(field => {
+      const column = mapping[field];
+      const required = REQUIRED_IMPORT_FIELDS.includes(field);
+
+      return (
+        <div key={field} className="grid gap-2 p-3 sm:grid-cols-[140px_220px_1fr] sm:items-center">
+          <span className="text-sm font-medium">
+            {importFieldLabels[field]}
+            {required && <span className="text-destructive"> *</span>}
+          </span>
+          <Select
+            value={column === null ? NOT_IMPORTED : String(column)}
+            onValueChange={(value) => onChange({ ...mapping, [field]: value === NOT_IMPORTED ? null : Number(value) })}
+          >
+            <SelectTrigger aria-label={`Column for ${importFieldLabels[field]}`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {!required && <SelectItem value={NOT_IMPORTED}>Don't import</SelectItem>}
+              {required && column === null && <SelectItem value={NOT_IMPORTED}>Choose a column</SelectItem>}
+              {headers.map((header, index) => (
+                <SelectItem key={index} value={String(index)}>
+                  {header.trim() || `Column ${index + 1}`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <span className="text-sm text-muted-foreground truncate">
+            {column !== null && sample?.[column] ? sample[column].replace(/\s+/g, ' ') : ''}
+          </span>
+        </div>
+      );
+    })}
+  </div>
+);
@@ -0,0 +1,98 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useAuth } from '@/hooks/useAuth';
+import { useCuisines } from '@/hooks/useCuisines';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2 } from 'lucide-react';
+import { importRecipeFromUrl, importRecipePhoto, toRecipeInput } from '@/lib/recipe-import';
+import type { RecipeInput } from '@/lib/recipes';
+
+interface ImportRecipeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: (draft: RecipeInput) => void;
+}
+
+// "Import from URL": reads the recipe a web page publishes for search engines and
+// hands it over as a draft for the user to check before saving
+export const ImportRecipeDialog = ({ open, onOpenChange, onImported }: ImportRecipeDialogProps) => {
+  const { user } = useAuth();
+  const { cuisines } = useCuisines();
+  const { toast } = useToast();
+  const [url, setUrl] = useState('');
+  const [importing, setImporting] = useState(false);
+
+  useEffect(() => {
+    if (open) setUrl('');
+  }, [open]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    setImporting(true);
+    try {
+      const recipe = await importRecipeFromUrl(url);
+      const draft = toRecipeInput(recipe, cuisines);
+
+      // The recipe is still worth having without its picture
+      if (recipe.image_url) {
+        const photo = await importRecipePhoto(recipe.image_url, user.id).catch(() => null);
+        if (photo) draft.photos = [photo];
+      }
+
+      onImported(draft);
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'Could not import recipe',
+        description: (error as Error).message,
+        variant: 'destructive'
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !importing && onOpenChange(next)}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Import from URL</DialogTitle>
+            <DialogDescription>
+              Paste the address of a recipe page. You can review everything before it's saved.
+            </DialogDescription>
+          </DialogHeader>
+          <Input
+            type="url"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            placeholder="https://"
+            aria-label="Recipe page address"
+            autoFocus
+            required
+          />
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={importing}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={importing || !url.trim()}>
+              {importing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {importing ? 'Importing...' : 'Import'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,68 @@
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { ImportRow } from '@/lib/bulk-import';
+import { cn } from '@/lib/utils';
+
+interface ImportReportProps {
+  rows: ImportRow[];
+  skipDuplicates: boolean;
+}
+
+// The dry-run result: what each row of the file will become, or why it can't be imported
+export const ImportReport = ({ rows, skipDuplicates }: ImportReportProps) => (
+  <div className="rounded-md border bg-card max-h-[28rem] overflow-auto">
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="w-16">Row</TableHead>
+          <TableHead>Recipe</TableHead>
+          <TableHead className="w-32">Status</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map(row => {
+          const skipped = row.recipe !== null && row.duplicate !== null && skipDuplicates;
+
+          return (
+            <TableRow key={row.row} className={cn(skipped && 'text-muted-foreground')}>
+              <TableCell className="align-top tabular-nums">{row.row}</TableCell>
+              <TableCell className="align-top">
+                <span className="font-medium">{row.title || <em className="text-muted-foreground">Untitled</em>}</span>
+                {row.errors.length > 0 && (
+                  <ul className="mt-1 text-sm text-destructive list-disc pl-5">
+                    {row.errors.map((error, index) => <li key={index}>{error}</li>)}
+                  </ul>
+                )}
+                {row.unmapped.length > 0 && (
+                  <p className="mt-1 text-sm text-muted-foreground">
+                    Not imported: {row.unmapped.join(', ')}
+                  </p>
+                )}
+                {row.duplicate && (
+                  <p className="mt-1 text-sm text-muted-foreground">
+                    {row.duplicate === 'library'
+                      ? 'You already have a recipe with this title.'
+                      : 'An earlier row has the same title.'}
+                  </p>
+                )}
+              </TableCell>
+              <TableCell className="align-top">
+                {row.errors.length > 0 ? (
+                  <Badge variant="destructive">
+                    {row.errors.length} {row.errors.length === 1 ? 'error' : 'errors'}
+                  </Badge>
+                ) : skipped ? (
+                  <Badge variant="outline">Skipped</Badge>
+                ) : row.duplicate ? (
+                  <Badge variant="secondary">Duplicate</Badge>
+                ) : (
+                  <Badge variant="secondary">Ready</Badge>
+                )}
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  </div>
+);
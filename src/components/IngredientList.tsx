@@ -0,0 +1,42 @@
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { AlertCircle } from 'lucide-react';
+import { useProfile } from '@/hooks/useProfile';
+import { convertIngredient } from '@/lib/conversion';
+import { Ingredient, formatIngredient } from '@/lib/ingredients';
+import { scaleIngredients } from '@/lib/scaling';
+
+interface IngredientListProps {
+  ingredients: Ingredient[];
+  factor?: number;
+}
+
+export const IngredientList = ({ ingredients, factor = 1 }: IngredientListProps) => {
+  const { measurementSystem } = useProfile();
+  const rows = scaleIngredients(ingredients, factor);
+
+  return (
+    <ul className="space-y-2">
+      {rows.map(({ ingredient, scaled }, index) => (
+        <li key={index} className="flex items-start gap-2 text-sm">
+          <span className="mt-2 h-1.5 w-1.5 shrink-0 rounded-full bg-primary" />
+          <span className={ingredient.optional ? 'text-muted-foreground' : undefined}>
+            {formatIngredient(convertIngredient(ingredient, measurementSystem))}
+          </span>
+          {!scaled && factor !== 1 && (
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <AlertCircle
+                  className="mt-0.5 h-4 w-4 shrink-0 text-amber-500"
+                  aria-label="Amount not scaled"
+                />
+              </TooltipTrigger>
+              <TooltipContent>
+                This amount could not be read, so it is shown as written.
+              </TooltipContent>
+            </Tooltip>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
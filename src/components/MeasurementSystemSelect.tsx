@@ -0,0 +1,27 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useProfile } from '@/hooks/useProfile';
+import { MeasurementSystem, measurementSystemLabels } from '@/lib/conversion';
+import { Ruler } from 'lucide-react';
+
+export const MeasurementSystemSelect = () => {
+  const { measurementSystem, updateProfile } = useProfile();
+
+  return (
+    <Select
+      value={measurementSystem}
+      onValueChange={(value: MeasurementSystem) => updateProfile({ measurement_system: value })}
+    >
+      <SelectTrigger className="h-9 w-40" aria-label="Units">
+        <Ruler className="h-4 w-4 mr-2 text-muted-foreground" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {(Object.keys(measurementSystemLabels) as MeasurementSystem[]).map(system => (
+          <SelectItem key={system} value={system}>
+            {measurementSystemLabels[system]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
@@ -0,0 +1,182 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useCuisines } from '@/hooks/useCuisines';
+import { Clock, Users } from 'lucide-react';
+import { toRecipeInput } from '@/lib/recipe-import';
+import { TextLine, TextLineRole, classifyRecipeText, recipeFromLines, textLineRoleLabels } from '@/lib/recipe-text';
+import type { RecipeInput } from '@/lib/recipes';
+import { cn } from '@/lib/utils';
+
+interface PasteRecipeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: (draft: RecipeInput) => void;
+}
+
+const roleStyles: Record<TextLineRole, string> = {
+  title: 'font-semibold',
+  details: 'text-blue-700 dark:text-blue-300',
+  ingredient: '',
+  step: '',
+  section: 'italic',
+  skip: 'text-muted-foreground line-through'
+};
+
+// "Paste recipe": splits a recipe from an email or note into its parts, shows
+// the guess next to the original lines so it can be corrected, then fills the form
+export const PasteRecipeDialog = ({ open, onOpenChange, onImported }: PasteRecipeDialogProps) => {
+  const { cuisines } = useCuisines();
+  const [text, setText] = useState('');
+  const [lines, setLines] = useState<TextLine[] | null>(null);
+  const preview = useMemo(() => (lines ? recipeFromLines(lines) : null), [lines]);
+
+  useEffect(() => {
+    if (!open) return;
+    setText('');
+    setLines(null);
+  }, [open]);
+
+  const setRole = (index: number, role: TextLineRole) => {
+    setLines(prev => prev && prev.map((line, i) => (i === index ? { ...line, role } : line)));
+  };
+
+  const handleContinue = () => {
+    if (!preview) return;
+    onImported(toRecipeInput(preview, cuisines));
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className={cn(lines ? 'sm:max-w-5xl' : 'sm:max-w-xl')}>
+        <DialogHeader>
+          <DialogTitle>Paste recipe</DialogTitle>
+          <DialogDescription>
+            {lines
+              ? 'Check what each line was taken to be and change any that are wrong.'
+              : 'Paste a recipe from an email or note. The title, servings, times, ingredients and steps are picked out for you.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!lines || !preview ? (
+          <Textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder={'Banana bread\nServes 8\n\nIngredients\n3 ripe bananas\n...\n\nMethod\n1. Preheat the oven...'}
+            rows={14}
+            aria-label="Recipe text"
+            autoFocus
+          />
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2">
+            <ScrollArea className="h-[60vh] rounded-md border">
+              <ul className="divide-y">
+                {lines.map((line, index) => (
+                  <li key={index} className="flex items-start gap-2 p-2">
+                    <Select value={line.role} onValueChange={(role) => setRole(index, role as TextLineRole)}>
+                      <SelectTrigger className="h-7 w-[130px] shrink-0 text-xs" aria-label={`Part of recipe for line ${index + 1}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(textLineRoleLabels) as TextLineRole[]).map(role => (
+                          <SelectItem key={role} value={role} className="text-xs">
+                            {textLineRoleLabels[role]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <span className={cn('pt-1 text-sm break-words min-w-0', roleStyles[line.role])}>{line.text}</span>
+                  </li>
+                ))}
+              </ul>
+            </ScrollArea>
+
+            <ScrollArea className="h-[60vh] rounded-md border bg-muted/30">
+              <div className="space-y-4 p-4">
+                <h3 className="text-lg font-semibold">
+                  {preview.title || <span className="text-muted-foreground">No title</span>}
+                </h3>
+                {(preview.servings || preview.prep_time || preview.cook_time) && (
+                  <div className="flex flex-wrap gap-4 text-sm text-muted-foreground">
+                    {preview.servings && (
+                      <span className="flex items-center gap-1">
+                        <Users className="h-4 w-4" />
+                        {preview.servings} servings
+                      </span>
+                    )}
+                    {preview.prep_time && (
+                      <span className="flex items-center gap-1">
+                        <Clock className="h-4 w-4" />
+                        Prep {preview.prep_time} min
+                      </span>
+                    )}
+                    {preview.cook_time && (
+                      <span className="flex items-center gap-1">
+                        <Clock className="h-4 w-4" />
+                        Cook {preview.cook_time} min
+                      </span>
+                    )}
+                  </div>
+                )}
+                <div>
+                  <h4 className="text-sm font-medium mb-1">Ingredients ({preview.ingredients.length})</h4>
+                  <ul className="list-disc pl-5 text-sm space-y-0.5">
+                    {preview.ingredients.map((ingredient, index) => (
+                      <li key={index}>{ingredient}</li>
+                    ))}
+                  </ul>
+                </div>
+                <div>
+                  <h4 className="text-sm font-medium mb-1">Steps ({preview.instructions.length})</h4>
+                  <ol className="list-decimal pl-5 text-sm space-y-1">
+                    {preview.instructions.map((step, index) => (
+                      <li key={index}>
+                        {step.section && step.section !== preview.instructions[index - 1]?.section && (
+                          <span className="block font-medium italic">{step.section}</span>
+                        )}
+                        {step.text}
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              </div>
+            </ScrollArea>
+          </div>
+        )}
+
+        <DialogFooter>
+          {lines ? (
+            <>
+              <Button type="button" variant="outline" onClick={() => setLines(null)}>
+                Back
+              </Button>
+              <Button type="button" onClick={handleContinue} disabled={!preview?.title}>
+                Continue to Form
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="button" onClick={() => setLines(classifyRecipeText(text))} disabled={!text.trim()}>
+                Split Recipe
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,132 @@
+import { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { usePhotoUrls } from '@/hooks/usePhotoUrls';
+import { ImagePlus, Loader2, Star, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { RecipePhoto, uploadPhoto } from '@/lib/photos';
+
+interface PhotoUploaderProps {
+  photos: RecipePhoto[];
+  // Takes an update rather than a list, so uploads finishing after other changes don't undo them
+  onChange: (update: (photos: RecipePhoto[]) => RecipePhoto[]) => void;
+  onUploadingChange?: (uploading: boolean) => void;
+  onUploaded?: (photos: RecipePhoto[]) => void;
+}
+
+export const PhotoUploader = ({ photos, onChange, onUploadingChange, onUploaded }: PhotoUploaderProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [uploading, setUploading] = useState(0);
+  const urls = usePhotoUrls(photos.map(photo => photo.thumbnail_path));
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0 || !user) return;
+
+    const selected = Array.from(files);
+    setUploading(selected.length);
+    onUploadingChange?.(true);
+
+    const uploaded: RecipePhoto[] = [];
+    for (const file of selected) {
+      try {
+        uploaded.push(await uploadPhoto(file, user.id));
+      } catch (error) {
+        toast({
+          title: `Could not upload ${file.name}`,
+          description: (error as Error).message,
+          variant: 'destructive'
+        });
+      }
+      setUploading(prev => prev - 1);
+    }
+
+    onChange(prev => [...prev, ...uploaded]);
+    onUploaded?.(uploaded);
+    onUploadingChange?.(false);
+    if (inputRef.current) inputRef.current.value = '';
+  };
+
+  const makeCover = (path: string) => {
+    onChange(prev => [...prev.filter(photo => photo.path === path), ...prev.filter(photo => photo.path !== path)]);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-3 sm:grid-cols-5 gap-2">
+        {photos.map((photo, index) => (
+          <div
+            key={photo.path}
+            className={cn(
+              'group relative aspect-square overflow-hidden rounded-md border bg-muted',
+              index === 0 && 'ring-2 ring-primary'
+            )}
+          >
+            {urls[photo.thumbnail_path] && (
+              <img
+                src={urls[photo.thumbnail_path]!}
+                alt={index === 0 ? 'Cover photo' : `Photo ${index + 1}`}
+                className="h-full w-full object-cover"
+              />
+            )}
+            {index === 0 && (
+              <span className="absolute left-1 top-1 rounded bg-primary px-1.5 py-0.5 text-[10px] font-medium text-primary-foreground">
+                Cover
+              </span>
+            )}
+            <div className="absolute right-1 top-1 flex gap-1 opacity-0 transition-opacity group-hover:opacity-100 group-focus-within:opacity-100">
+              {index > 0 && (
+                <Button
+                  type="button"
+                  size="icon"
+                  variant="secondary"
+                  className="h-6 w-6"
+                  onClick={() => makeCover(photo.path)}
+                  aria-label="Use as cover photo"
+                >
+                  <Star className="h-3 w-3" />
+                </Button>
+              )}
+              <Button
+                type="button"
+                size="icon"
+                variant="destructive"
+                className="h-6 w-6"
+                onClick={() => onChange(prev => prev.filter(other => other.path !== photo.path))}
+                aria-label="Remove photo"
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          </div>
+        ))}
+        {Array.from({ length: uploading }).map((_, index) => (
+          <div key={`uploading-${index}`} className="flex aspect-square items-center justify-center rounded-md border bg-muted">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ))}
+      </div>
+
+      <input
+        ref={inputRef}
+        type="file"
+        accept="image/jpeg,image/png,image/webp"
+        multiple
+        className="hidden"
+        onChange={(e) => handleFiles(e.target.files)}
+      />
+      <Button
+        type="button"
+        size="sm"
+        variant="outline"
+        onClick={() => inputRef.current?.click()}
+        disabled={uploading > 0}
+      >
+        <ImagePlus className="h-4 w-4 mr-2" />
+        {photos.length === 0 ? 'Add Photos' : 'Add More Photos'}
+      </Button>
+    </div>
+  );
+};
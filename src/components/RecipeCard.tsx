@@ -1,25 +1,32 @@
+import { AddToCollectionMenu } from '@/components/AddToCollectionMenu';
+import { ExportMenu } from '@/components/ExportMenu';
+import { HighlightedText } from '@/components/HighlightedText';
+import { RecipeRating } from '@/components/RecipeRating';
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { Clock, Users, Edit, Trash2 } from 'lucide-react';
-
-interface Recipe {
-  id: string;
-  title: string;
-  ingredients: string[];
-  instructions: string;
-  difficulty: 'easy' | 'medium' | 'hard';
-  cuisine: 'italian' | 'mexican' | 'asian' | 'american' | 'french' | 'indian' | 'mediterranean' | 'other';
-  prep_time?: number;
-  cook_time?: number;
-  servings?: number;
-  created_at: string;
-}
+import { AspectRatio } from '@/components/ui/aspect-ratio';
+import { Link } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { Clock, Users, Edit, Trash2, Eye, CookingPot } from 'lucide-react';
+import { useCuisines } from '@/hooks/useCuisines';
+import { useProfile } from '@/hooks/useProfile';
+import { usePhotoUrls } from '@/hooks/usePhotoUrls';
+import { convertIngredient, convertTemperatures } from '@/lib/conversion';
+import { formatIngredient } from '@/lib/ingredients';
+import { stepsToText } from '@/lib/instructions';
+import type { Recipe, RecipeRating as Rating, SearchHighlight } from '@/lib/recipes';
+import { cn } from '@/lib/utils';
 
 interface RecipeCardProps {
   recipe: Recipe;
   onEdit: (recipe: Recipe) => void;
   onDelete: (id: string) => void;
+  onTagClick?: (tag: string) => void;
+  onRatingChange?: (id: string, rating: Rating) => void;
+  highlight?: SearchHighlight;
+  // 'list' puts the cover photo beside the details on wider screens
+  layout?: 'grid' | 'list';
 }
 
 const difficultyColors = {
@@ -28,77 +35,143 @@ const difficultyColors = {
   hard: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300'
 };
 
-export const RecipeCard = ({ recipe, onEdit, onDelete }: RecipeCardProps) => {
+export const RecipeCard = ({
+  recipe,
+  onEdit,
+  onDelete,
+  onTagClick,
+  onRatingChange,
+  highlight,
+  layout = 'grid'
+}: RecipeCardProps) => {
+  const { measurementSystem } = useProfile();
+  const { cuisineName } = useCuisines();
+  const cover = recipe.photos[0];
+  const coverUrl = usePhotoUrls(cover ? [cover.thumbnail_path] : [])[cover?.thumbnail_path];
   const totalTime = (recipe.prep_time || 0) + (recipe.cook_time || 0);
+  const isList = layout === 'list';
 
   return (
-    <Card className="h-full flex flex-col hover:shadow-lg transition-shadow">
-      <CardHeader>
-        <div className="flex justify-between items-start">
-          <CardTitle className="text-lg line-clamp-2">{recipe.title}</CardTitle>
-          <div className="flex gap-2 ml-2">
-            <Badge variant="outline" className="capitalize">
-              {recipe.cuisine}
-            </Badge>
-            <Badge className={difficultyColors[recipe.difficulty]}>
-              {recipe.difficulty}
-            </Badge>
-          </div>
-        </div>
-      </CardHeader>
-      
-      <CardContent className="flex-1">
-        <div className="space-y-3">
-          <div>
-            <h4 className="font-medium text-sm text-muted-foreground mb-2">Ingredients:</h4>
-            <p className="text-sm line-clamp-3">
-              {recipe.ingredients.slice(0, 3).join(', ')}
-              {recipe.ingredients.length > 3 && '...'}
-            </p>
-          </div>
-          
-          <div>
-            <h4 className="font-medium text-sm text-muted-foreground mb-2">Instructions:</h4>
-            <p className="text-sm line-clamp-3">{recipe.instructions}</p>
+    <Card className={cn('h-full flex flex-col overflow-hidden hover:shadow-lg transition-shadow', isList && 'sm:flex-row')}>
+      {cover && (
+        <Link to={`/recipes/${recipe.id}`} className={cn(isList && 'sm:w-64 shrink-0')}>
+          <AspectRatio ratio={isList ? 4 / 3 : 16 / 9} className="bg-muted">
+            {coverUrl && (
+              <img src={coverUrl} alt={recipe.title} className="h-full w-full object-cover" loading="lazy" />
+            )}
+          </AspectRatio>
+        </Link>
+      )}
+      <div className="flex flex-1 flex-col">
+        <CardHeader>
+          <div className="flex justify-between items-start">
+            <CardTitle className="text-lg line-clamp-2">
+              <Link to={`/recipes/${recipe.id}`} className="hover:underline">
+                {highlight ? <HighlightedText text={highlight.title} /> : recipe.title}
+              </Link>
+            </CardTitle>
+            <div className="flex gap-2 ml-2">
+              <Badge variant="outline">
+                {cuisineName(recipe.cuisine)}
+              </Badge>
+              <Badge className={difficultyColors[recipe.difficulty]}>
+                {recipe.difficulty}
+              </Badge>
+            </div>
           </div>
-          
-          <div className="flex gap-4 text-sm text-muted-foreground">
-            {totalTime > 0 && (
-              <div className="flex items-center gap-1">
-                <Clock className="h-4 w-4" />
-                <span>{totalTime} min</span>
-              </div>
+          <RecipeRating recipe={recipe} onChange={(rating) => onRatingChange?.(recipe.id, rating)} />
+        </CardHeader>
+        
+        <CardContent className="flex-1">
+          <div className="space-y-3">
+            {highlight?.snippet && (
+              <p className="text-sm text-muted-foreground line-clamp-3 border-l-2 border-primary/40 pl-2">
+                <HighlightedText text={highlight.snippet} />
+              </p>
             )}
-            {recipe.servings && (
-              <div className="flex items-center gap-1">
-                <Users className="h-4 w-4" />
-                <span>{recipe.servings} servings</span>
+
+            <div>
+              <h4 className="font-medium text-sm text-muted-foreground mb-2">Ingredients:</h4>
+              <p className="text-sm line-clamp-3">
+                {recipe.ingredients
+                  .slice(0, 3)
+                  .map(ingredient => formatIngredient(convertIngredient(ingredient, measurementSystem)))
+                  .join(', ')}
+                {recipe.ingredients.length > 3 && '...'}
+              </p>
+            </div>
+            
+            <div>
+              <h4 className="font-medium text-sm text-muted-foreground mb-2">Instructions:</h4>
+              <p className="text-sm line-clamp-3">{convertTemperatures(stepsToText(recipe.instructions), measurementSystem)}</p>
+            </div>
+            
+            <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-muted-foreground">
+              {totalTime > 0 && (
+                <div className="flex items-center gap-1">
+                  <Clock className="h-4 w-4" />
+                  <span>{totalTime} min</span>
+                </div>
+              )}
+              {recipe.servings && (
+                <div className="flex items-center gap-1">
+                  <Users className="h-4 w-4" />
+                  <span>{recipe.servings} servings</span>
+                </div>
+              )}
+              {recipe.last_cooked && (
+                <div className="flex items-center gap-1" title={`Cooked ${recipe.times_cooked} ${recipe.times_cooked === 1 ? 'time' : 'times'}`}>
+                  <CookingPot className="h-4 w-4" />
+                  <span>{recipe.times_cooked}× · last {format(parseISO(recipe.last_cooked), 'd MMM yyyy')}</span>
+                </div>
+              )}
+            </div>
+
+            {recipe.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {recipe.tags.map(tag => (
+                  onTagClick ? (
+                    <button key={tag} type="button" onClick={() => onTagClick(tag)}>
+                      <Badge variant="secondary" className="font-normal hover:bg-secondary/60">{tag}</Badge>
+                    </button>
+                  ) : (
+                    <Badge key={tag} variant="secondary" className="font-normal">{tag}</Badge>
+                  )
+                ))}
               </div>
             )}
           </div>
-        </div>
-      </CardContent>
-      
-      <CardFooter className="flex gap-2">
-        <Button
-          variant="outline"
-          size="sm"
-          onClick={() => onEdit(recipe)}
-          className="flex-1"
-        >
-          <Edit className="h-4 w-4 mr-2" />
-          Edit
-        </Button>
-        <Button
-          variant="destructive"
-          size="sm"
-          onClick={() => onDelete(recipe.id)}
-          className="flex-1"
-        >
-          <Trash2 className="h-4 w-4 mr-2" />
-          Delete
-        </Button>
-      </CardFooter>
+        </CardContent>
+        
+        <CardFooter className="flex gap-2">
+          <Button variant="secondary" size="sm" className="flex-1" asChild>
+            <Link to={`/recipes/${recipe.id}`}>
+              <Eye className="h-4 w-4 mr-2" />
+              View
+            </Link>
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onEdit(recipe)}
+            className="flex-1"
+          >
+            <Edit className="h-4 w-4 mr-2" />
+            Edit
+          </Button>
+          <Button
+            variant="destructive"
+            size="sm"
+            onClick={() => onDelete(recipe.id)}
+            className="flex-1"
+          >
+            <Trash2 className="h-4 w-4 mr-2" />
+            Delete
+          </Button>
+          <AddToCollectionMenu recipe={recipe} />
+          <ExportMenu recipe={recipe} />
+        </CardFooter>
+      </div>
     </Card>
   );
 };
\ No newline at end of file
@@ -1,76 +1,155 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { CuisineSelect } from '@/components/CuisineSelect';
+import { PhotoUploader } from '@/components/PhotoUploader';
+import { StepsEditor } from '@/components/StepsEditor';
+import { TagInput } from '@/components/TagInput';
+import { useToast } from '@/hooks/use-toast';
+import { useTags } from '@/hooks/useTags';
 import { X, Plus } from 'lucide-react';
-
-interface Recipe {
-  id?: string;
-  title: string;
-  ingredients: string[];
-  instructions: string;
-  difficulty: 'easy' | 'medium' | 'hard';
-  cuisine: 'italian' | 'mexican' | 'asian' | 'american' | 'french' | 'indian' | 'mediterranean' | 'other';
-  prep_time?: number;
-  cook_time?: number;
-  servings?: number;
-}
+import { Ingredient, emptyIngredient, formatQuantityRange, isBlankIngredient } from '@/lib/ingredients';
+import { MIN_CONFIDENCE, parseIngredientLines, parseQuantity } from '@/lib/ingredient-parser';
+import { emptyStep, isBlankStep } from '@/lib/instructions';
+import { RecipePhoto, removePhotos } from '@/lib/photos';
+import type { Recipe, RecipeInput } from '@/lib/recipes';
+import { findUnit } from '@/lib/units';
 
 interface RecipeFormProps {
   recipe?: Recipe;
-  onSubmit: (recipe: Omit<Recipe, 'id'>) => void;
+  // Prefills a new recipe, e.g. one imported from a web page
+  draft?: RecipeInput;
+  onSubmit: (recipe: RecipeInput) => void;
   onCancel: () => void;
   loading?: boolean;
 }
 
-const cuisineOptions: Array<'italian' | 'mexican' | 'asian' | 'american' | 'french' | 'indian' | 'mediterranean' | 'other'> = [
-  'italian', 'mexican', 'asian', 'american', 'french', 'indian', 'mediterranean', 'other'
-];
+interface QuantityInputProps {
+  ingredient: Ingredient;
+  label: string;
+  onChange: (changes: Pick<Ingredient, 'quantity' | 'quantity_max'>) => void;
+}
+
+// Free-text amount field so "1 1/2", "½" or "2-3" can be typed; parsed when the field loses focus
+const QuantityInput = ({ ingredient, label, onChange }: QuantityInputProps) => {
+  const formatted = formatQuantityRange(ingredient.quantity, ingredient.quantity_max);
+  const [text, setText] = useState(formatted);
+
+  useEffect(() => {
+    setText(formatted);
+  }, [formatted]);
+
+  const handleBlur = () => {
+    if (text.trim() === '') {
+      onChange({ quantity: null, quantity_max: null });
+      return;
+    }
+    const parsed = parseQuantity(text);
+    if (parsed && parsed.rest === '') {
+      onChange({ quantity: parsed.quantity, quantity_max: parsed.quantity_max });
+    } else {
+      setText(formatted);
+    }
+  };
+
+  return (
+    <Input
+      value={text}
+      onChange={(e) => setText(e.target.value)}
+      onBlur={handleBlur}
+      placeholder="Qty"
+      aria-label={label}
+      inputMode="decimal"
+      className="w-20"
+    />
+  );
+};
 
-export const RecipeForm = ({ recipe, onSubmit, onCancel, loading }: RecipeFormProps) => {
-  const [formData, setFormData] = useState<Omit<Recipe, 'id'>>({
+export const RecipeForm = ({ recipe, draft, onSubmit, onCancel, loading }: RecipeFormProps) => {
+  const { toast } = useToast();
+  const { tags: userTags } = useTags();
+  const [formData, setFormData] = useState<RecipeInput>(() => ({
     title: '',
-    ingredients: [''],
-    instructions: '',
     difficulty: 'medium',
     cuisine: 'other',
     prep_time: undefined,
     cook_time: undefined,
-    servings: 4
-  });
+    servings: 4,
+    photos: [],
+    tags: [],
+    ...draft,
+    ingredients: draft?.ingredients.length ? draft.ingredients : [emptyIngredient()],
+    instructions: draft?.instructions.length ? draft.instructions : [emptyStep()]
+  }));
+  const [uploadingPhotos, setUploadingPhotos] = useState(false);
+  // Photos uploaded for this form (or with its imported draft) that no saved recipe uses yet
+  const newPhotos = useRef<RecipePhoto[]>(draft?.photos ?? []);
+
+  const removeUnusedPhotos = (kept: RecipePhoto[]) => {
+    const keptPaths = new Set(kept.map(photo => photo.path));
+    const unused = newPhotos.current.filter(photo => !keptPaths.has(photo.path));
+    newPhotos.current = newPhotos.current.filter(photo => keptPaths.has(photo.path));
+    removePhotos(unused).catch(() => undefined);
+  };
+
+  const handleCancel = () => {
+    removeUnusedPhotos([]);
+    onCancel();
+  };
 
   useEffect(() => {
     if (recipe) {
       setFormData({
         title: recipe.title,
-        ingredients: recipe.ingredients.length > 0 ? recipe.ingredients : [''],
-        instructions: recipe.instructions,
+        ingredients: recipe.ingredients.length > 0 ? recipe.ingredients : [emptyIngredient()],
+        instructions: recipe.instructions.length > 0 ? recipe.instructions : [emptyStep()],
         difficulty: recipe.difficulty,
         cuisine: recipe.cuisine,
         prep_time: recipe.prep_time,
         cook_time: recipe.cook_time,
-        servings: recipe.servings
+        servings: recipe.servings,
+        photos: recipe.photos,
+        tags: recipe.tags
       });
     }
   }, [recipe]);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    const filteredIngredients = formData.ingredients.filter(ingredient => ingredient.trim() !== '');
+    const filteredIngredients = formData.ingredients
+      .filter(ingredient => !isBlankIngredient(ingredient))
+      .map(ingredient => ({
+        ...ingredient,
+        item: ingredient.item.trim(),
+        // Typed units are stored by id ("cups" as "cup") so scaling and conversion recognise them
+        unit: ingredient.unit?.trim() ? findUnit(ingredient.unit)?.id ?? ingredient.unit.trim() : null,
+        note: ingredient.note?.trim() || null
+      }));
+    const filteredSteps = formData.instructions
+      .filter(step => !isBlankStep(step))
+      .map(step => ({
+        ...step,
+        text: step.text.trim(),
+        section: step.section?.trim() || null,
+        note: step.note?.trim() || null
+      }));
+    removeUnusedPhotos(formData.photos);
     onSubmit({
       ...formData,
-      ingredients: filteredIngredients
+      ingredients: filteredIngredients,
+      instructions: filteredSteps
     });
   };
 
   const addIngredient = () => {
     setFormData(prev => ({
       ...prev,
-      ingredients: [...prev.ingredients, '']
+      ingredients: [...prev.ingredients, emptyIngredient()]
     }));
   };
 
@@ -81,17 +160,42 @@ export const RecipeForm = ({ recipe, onSubmit, onCancel, loading }: RecipeFormPr
     }));
   };
 
-  const updateIngredient = (index: number, value: string) => {
+  const updateIngredient = (index: number, changes: Partial<Ingredient>) => {
     setFormData(prev => ({
       ...prev,
       ingredients: prev.ingredients.map((ingredient, i) => 
-        i === index ? value : ingredient
+        i === index ? { ...ingredient, ...changes } : ingredient
       )
     }));
   };
 
+  // Pasting several lines into an ingredient splits them into parsed rows
+  const handleIngredientPaste = (index: number, e: React.ClipboardEvent<HTMLInputElement>) => {
+    const text = e.clipboardData.getData('text');
+    if (!/\r?\n/.test(text.trim())) return;
+
+    e.preventDefault();
+    const parsed = parseIngredientLines(text);
+    if (parsed.length === 0) return;
+
+    setFormData(prev => {
+      const ingredients = [...prev.ingredients];
+      const replaceCurrent = isBlankIngredient(ingredients[index]);
+      ingredients.splice(replaceCurrent ? index : index + 1, replaceCurrent ? 1 : 0, ...parsed.map(p => p.ingredient));
+      return { ...prev, ingredients };
+    });
+
+    const unparsed = parsed.filter(p => p.confidence < MIN_CONFIDENCE).length;
+    toast({
+      title: `Added ${parsed.length} ingredient${parsed.length === 1 ? '' : 's'}`,
+      description: unparsed > 0
+        ? `${unparsed} line${unparsed === 1 ? ' was' : 's were'} kept as plain text. Please review them.`
+        : undefined
+    });
+  };
+
   return (
-    <Card className="w-full max-w-2xl mx-auto">
+    <Card className="w-full max-w-3xl mx-auto">
       <CardHeader>
         <CardTitle>{recipe ? 'Edit Recipe' : 'Add New Recipe'}</CardTitle>
       </CardHeader>
@@ -110,7 +214,10 @@ export const RecipeForm = ({ recipe, onSubmit, onCancel, loading }: RecipeFormPr
 
           <div className="space-y-3">
             <div className="flex items-center justify-between">
-              <Label>Ingredients *</Label>
+              <div>
+                <Label>Ingredients *</Label>
+                <p className="text-xs text-muted-foreground">Tip: paste a whole ingredient list into a row to split it automatically.</p>
+              </div>
               <Button type="button" onClick={addIngredient} size="sm" variant="outline">
                 <Plus className="h-4 w-4 mr-2" />
                 Add Ingredient
@@ -118,13 +225,43 @@ export const RecipeForm = ({ recipe, onSubmit, onCancel, loading }: RecipeFormPr
             </div>
             <div className="space-y-2">
               {formData.ingredients.map((ingredient, index) => (
-                <div key={index} className="flex gap-2">
+                <div key={index} className="flex flex-wrap items-center gap-2 rounded-md border p-2 sm:flex-nowrap sm:border-0 sm:p-0">
+                  <QuantityInput
+                    ingredient={ingredient}
+                    label={`Ingredient ${index + 1} quantity`}
+                    onChange={(changes) => updateIngredient(index, changes)}
+                  />
                   <Input
-                    value={ingredient}
-                    onChange={(e) => updateIngredient(index, e.target.value)}
+                    value={ingredient.unit ?? ''}
+                    onChange={(e) => updateIngredient(index, { unit: e.target.value })}
+                    placeholder="Unit"
+                    aria-label={`Ingredient ${index + 1} unit`}
+                    className="w-24"
+                  />
+                  <Input
+                    value={ingredient.item}
+                    onChange={(e) => updateIngredient(index, { item: e.target.value })}
+                    onPaste={(e) => handleIngredientPaste(index, e)}
                     placeholder={`Ingredient ${index + 1}`}
-                    className="flex-1"
+                    className="min-w-[8rem] flex-1"
+                  />
+                  <Input
+                    value={ingredient.note ?? ''}
+                    onChange={(e) => updateIngredient(index, { note: e.target.value })}
+                    placeholder="Note (e.g. chopped)"
+                    aria-label={`Ingredient ${index + 1} note`}
+                    className="min-w-[8rem] flex-1"
                   />
+                  <div className="flex items-center gap-1.5">
+                    <Checkbox
+                      id={`ingredient-${index}-optional`}
+                      checked={ingredient.optional}
+                      onCheckedChange={(checked) => updateIngredient(index, { optional: checked === true })}
+                    />
+                    <Label htmlFor={`ingredient-${index}-optional`} className="text-xs font-normal text-muted-foreground">
+                      Optional
+                    </Label>
+                  </div>
                   {formData.ingredients.length > 1 && (
                     <Button
                       type="button"
@@ -140,15 +277,14 @@ export const RecipeForm = ({ recipe, onSubmit, onCancel, loading }: RecipeFormPr
             </div>
           </div>
 
-          <div className="space-y-2">
-            <Label htmlFor="instructions">Instructions *</Label>
-            <Textarea
-              id="instructions"
-              value={formData.instructions}
-              onChange={(e) => setFormData(prev => ({ ...prev, instructions: e.target.value }))}
-              placeholder="Enter cooking instructions"
-              rows={4}
-              required
+          <div className="space-y-3">
+            <div>
+              <Label>Instructions *</Label>
+              <p className="text-xs text-muted-foreground">Drag steps by the handle to reorder them.</p>
+            </div>
+            <StepsEditor
+              steps={formData.instructions}
+              onChange={(instructions) => setFormData(prev => ({ ...prev, instructions }))}
             />
           </div>
 
@@ -174,21 +310,11 @@ export const RecipeForm = ({ recipe, onSubmit, onCancel, loading }: RecipeFormPr
 
             <div className="space-y-2">
               <Label>Cuisine</Label>
-              <Select
+              <CuisineSelect
                 value={formData.cuisine}
-                onValueChange={(value: 'italian' | 'mexican' | 'asian' | 'american' | 'french' | 'indian' | 'mediterranean' | 'other') => setFormData(prev => ({ ...prev, cuisine: value }))}
-              >
-                <SelectTrigger>
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  {cuisineOptions.map(cuisine => (
-                    <SelectItem key={cuisine} value={cuisine} className="capitalize">
-                      {cuisine}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+                onValueChange={(cuisine) => setFormData(prev => ({ ...prev, cuisine }))}
+                allowCreate
+              />
             </div>
 
             <div className="space-y-2">
@@ -239,11 +365,30 @@ export const RecipeForm = ({ recipe, onSubmit, onCancel, loading }: RecipeFormPr
             </div>
           </div>
 
+          <div className="space-y-2">
+            <Label>Tags</Label>
+            <TagInput
+              tags={formData.tags}
+              suggestions={userTags.map(tag => tag.name)}
+              onChange={(tags) => setFormData(prev => ({ ...prev, tags }))}
+            />
+          </div>
+
+          <div className="space-y-3">
+            <Label>Photos</Label>
+            <PhotoUploader
+              photos={formData.photos}
+              onChange={(update) => setFormData(prev => ({ ...prev, photos: update(prev.photos) }))}
+              onUploadingChange={setUploadingPhotos}
+              onUploaded={(photos) => { newPhotos.current = [...newPhotos.current, ...photos]; }}
+            />
+          </div>
+
           <div className="flex gap-4 pt-4">
-            <Button type="submit" disabled={loading} className="flex-1">
+            <Button type="submit" disabled={loading || uploadingPhotos} className="flex-1">
               {loading ? 'Saving...' : recipe ? 'Update Recipe' : 'Save Recipe'}
             </Button>
-            <Button type="button" variant="outline" onClick={onCancel} className="flex-1">
+            <Button type="button" variant="outline" onClick={handleCancel} className="flex-1">
               Cancel
             </Button>
           </div>
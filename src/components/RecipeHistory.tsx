@@ -0,0 +1,234 @@
+import { useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useCuisines } from '@/hooks/useCuisines';
+import { useToast } from '@/hooks/use-toast';
+import { RotateCcw } from 'lucide-react';
+import type { Recipe } from '@/lib/recipes';
+import {
+  FieldChange,
+  LineChange,
+  RecipeDiff,
+  RecipeRevision,
+  diffSnapshots,
+  fetchRevisions,
+  isEmptyDiff,
+  restoreRevision,
+  toRecipeSnapshot
+} from '@/lib/revisions';
+import { cn } from '@/lib/utils';
+
+interface RecipeHistoryProps {
+  recipe: Recipe;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRestored: (recipe: Recipe) => void;
+}
+
+const fieldLabels: Record<FieldChange['field'], string> = {
+  title: 'Title',
+  difficulty: 'Difficulty',
+  cuisine: 'Cuisine',
+  prep_time: 'Prep time',
+  cook_time: 'Cook time',
+  servings: 'Servings'
+};
+
+const LineChanges = ({ title, lines }: { title: string; lines: LineChange[] }) => {
+  if (lines.every(line => line.type === 'unchanged')) return null;
+
+  return (
+    <div>
+      <h4 className="text-xs font-medium text-muted-foreground mb-1">{title}</h4>
+      <ul className="rounded border text-sm font-mono">
+        {lines.map((line, index) => (
+          <li
+            key={index}
+            className={cn(
+              'px-2 py-0.5 whitespace-pre-wrap',
+              line.type === 'added' && 'bg-green-50 text-green-800 dark:bg-green-950 dark:text-green-300',
+              line.type === 'removed' && 'bg-red-50 text-red-800 line-through dark:bg-red-950 dark:text-red-300',
+              line.type === 'unchanged' && 'text-muted-foreground'
+            )}
+          >
+            {line.type === 'added' ? '+ ' : line.type === 'removed' ? '− ' : '  '}
+            {line.text}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+const DiffView = ({ diff }: { diff: RecipeDiff }) => {
+  const { cuisineName } = useCuisines();
+
+  const formatValue = (change: FieldChange, value: FieldChange['before']) => {
+    if (value === null || value === '') return '—';
+    if (change.field === 'cuisine') return cuisineName(String(value));
+    if (change.field === 'prep_time' || change.field === 'cook_time') return `${value} min`;
+    return String(value);
+  };
+
+  if (isEmptyDiff(diff)) {
+    return <p className="text-sm text-muted-foreground">Only details such as step notes or section headings changed.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {diff.fields.length > 0 && (
+        <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-sm">
+          {diff.fields.map(change => (
+            <div key={change.field} className="contents">
+              <dt className="text-muted-foreground">{fieldLabels[change.field]}</dt>
+              <dd>
+                <span className="line-through text-muted-foreground">{formatValue(change, change.before)}</span>
+                {' → '}
+                <span>{formatValue(change, change.after)}</span>
+              </dd>
+            </div>
+          ))}
+        </dl>
+      )}
+      <LineChanges title="Ingredients" lines={diff.ingredients} />
+      <LineChanges title="Instructions" lines={diff.instructions} />
+      {(diff.tags.added.length > 0 || diff.tags.removed.length > 0) && (
+        <div className="flex flex-wrap gap-1">
+          {diff.tags.added.map(tag => (
+            <Badge key={`+${tag}`} variant="secondary" className="font-normal">+ {tag}</Badge>
+          ))}
+          {diff.tags.removed.map(tag => (
+            <Badge key={`-${tag}`} variant="outline" className="font-normal line-through">{tag}</Badge>
+          ))}
+        </div>
+      )}
+      {(diff.photos.added > 0 || diff.photos.removed > 0) && (
+        <p className="text-sm text-muted-foreground">
+          {[
+            diff.photos.added > 0 && `${diff.photos.added} photo${diff.photos.added === 1 ? '' : 's'} added`,
+            diff.photos.removed > 0 && `${diff.photos.removed} photo${diff.photos.removed === 1 ? '' : 's'} removed`
+          ].filter(Boolean).join(', ')}
+        </p>
+      )}
+    </div>
+  );
+};
+
+// Lists every edit to a recipe with what it changed, newest first, and restores
+// the version from before any of them
+export const RecipeHistory = ({ recipe, open, onOpenChange, onRestored }: RecipeHistoryProps) => {
+  const { toast } = useToast();
+  const [revisions, setRevisions] = useState<RecipeRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [restoring, setRestoring] = useState<RecipeRevision | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setLoading(true);
+    fetchRevisions(recipe.id)
+      .then(setRevisions)
+      .catch(() => setRevisions([]))
+      .finally(() => setLoading(false));
+  }, [open, recipe.id, recipe.updated_at]);
+
+  const handleRestore = async () => {
+    if (!restoring) return;
+
+    try {
+      onRestored(await restoreRevision(restoring.id));
+      toast({
+        title: 'Earlier version restored',
+        description: 'The version you replaced is in the history if you change your mind.'
+      });
+    } catch (error) {
+      toast({
+        title: 'Error restoring version',
+        description: (error as Error).message,
+        variant: 'destructive'
+      });
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  const current = toRecipeSnapshot(recipe);
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-lg flex flex-col">
+        <SheetHeader>
+          <SheetTitle>History</SheetTitle>
+          <SheetDescription>Every saved edit to this recipe and what it changed.</SheetDescription>
+        </SheetHeader>
+
+        <ScrollArea className="flex-1 -mx-6 px-6">
+          {loading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : revisions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">This recipe hasn't been edited since it was created.</p>
+          ) : (
+            <ol className="space-y-6 pb-6">
+              {revisions.map((revision, index) => {
+                // Each revision holds the recipe as it was before the edit, so the
+                // edit's changes run from it to the next newer version
+                const after = index === 0 ? current : revisions[index - 1].snapshot;
+
+                return (
+                  <li key={revision.id} className="space-y-3 border-b pb-6 last:border-b-0">
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="text-sm font-medium">
+                        Edited {format(parseISO(revision.created_at), 'd MMM yyyy, HH:mm')}
+                      </p>
+                      <Button variant="outline" size="sm" onClick={() => setRestoring(revision)}>
+                        <RotateCcw className="h-4 w-4 mr-2" />
+                        Restore previous
+                      </Button>
+                    </div>
+                    <DiffView diff={diffSnapshots(revision.snapshot, after)} />
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+        </ScrollArea>
+      </SheetContent>
+
+      <AlertDialog open={restoring !== null} onOpenChange={(open) => !open && setRestoring(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore this version?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The recipe will go back to how it was before this edit
+              {restoring && ` on ${format(parseISO(restoring.created_at), 'd MMM yyyy')}`}.
+              The current version is kept in the history.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRestore}>Restore</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Sheet>
+  );
+};
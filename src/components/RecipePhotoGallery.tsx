@@ -0,0 +1,47 @@
+import { AspectRatio } from '@/components/ui/aspect-ratio';
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+} from '@/components/ui/carousel';
+import { usePhotoUrls } from '@/hooks/usePhotoUrls';
+import type { RecipePhoto } from '@/lib/photos';
+
+interface RecipePhotoGalleryProps {
+  photos: RecipePhoto[];
+  title: string;
+}
+
+export const RecipePhotoGallery = ({ photos, title }: RecipePhotoGalleryProps) => {
+  const urls = usePhotoUrls(photos.map(photo => photo.path));
+
+  if (photos.length === 0) return null;
+
+  return (
+    <Carousel className="mx-auto w-full" opts={{ loop: photos.length > 1 }}>
+      <CarouselContent>
+        {photos.map((photo, index) => (
+          <CarouselItem key={photo.path}>
+            <AspectRatio ratio={16 / 9} className="overflow-hidden rounded-md bg-muted">
+              {urls[photo.path] && (
+                <img
+                  src={urls[photo.path]!}
+                  alt={`${title} photo ${index + 1}`}
+                  className="h-full w-full object-cover"
+                />
+              )}
+            </AspectRatio>
+          </CarouselItem>
+        ))}
+      </CarouselContent>
+      {photos.length > 1 && (
+        <>
+          <CarouselPrevious className="left-2" />
+          <CarouselNext className="right-2" />
+        </>
+      )}
+    </Carousel>
+  );
+};
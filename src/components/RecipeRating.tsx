@@ -0,0 +1,80 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { Heart, Star } from 'lucide-react';
+import { Recipe, RecipeRating as Rating, rateRecipe } from '@/lib/recipes';
+import { cn } from '@/lib/utils';
+
+interface RecipeRatingProps {
+  recipe: Recipe;
+  onChange?: (rating: Rating) => void;
+  className?: string;
+}
+
+// Inline favorite toggle and 1-5 stars; choosing the current star count clears the rating
+export const RecipeRating = ({ recipe, onChange, className }: RecipeRatingProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [value, setValue] = useState<Rating>({ favorite: recipe.favorite, rating: recipe.rating });
+  const [hovered, setHovered] = useState<number | null>(null);
+
+  useEffect(() => {
+    setValue({ favorite: recipe.favorite, rating: recipe.rating });
+  }, [recipe.favorite, recipe.rating]);
+
+  const update = async (changes: Partial<Rating>) => {
+    if (!user) return;
+
+    // Applied optimistically so rating a whole list feels instant
+    const previous = value;
+    const next = { ...value, ...changes };
+    setValue(next);
+
+    try {
+      await rateRecipe(recipe.id, user.id, next);
+      onChange?.(next);
+    } catch (error) {
+      setValue(previous);
+      toast({
+        title: 'Error saving rating',
+        description: (error as Error).message,
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const shown = hovered ?? value.rating ?? 0;
+
+  return (
+    <div className={cn('flex items-center gap-2', className)}>
+      <button
+        type="button"
+        onClick={() => update({ favorite: !value.favorite })}
+        aria-pressed={value.favorite}
+        aria-label={value.favorite ? 'Remove from favorites' : 'Add to favorites'}
+        className="text-muted-foreground hover:text-red-500"
+      >
+        <Heart className={cn('h-4 w-4', value.favorite && 'fill-red-500 text-red-500')} />
+      </button>
+      <div className="flex" onMouseLeave={() => setHovered(null)}>
+        {[1, 2, 3, 4, 5].map(stars => (
+          <button
+            key={stars}
+            type="button"
+            onClick={() => update({ rating: stars === value.rating ? null : stars })}
+            onMouseEnter={() => setHovered(stars)}
+            aria-label={stars === value.rating ? 'Clear rating' : `Rate ${stars} out of 5`}
+            className="p-0.5"
+          >
+            <Star
+              className={cn(
+                'h-4 w-4',
+                stars <= shown ? 'fill-yellow-400 text-yellow-400' : 'text-muted-foreground'
+              )}
+            />
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,188 @@
+import { useState } from 'react';
+import { Link, useLocation, useNavigate, useSearchParams } from 'react-router-dom';
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupAction,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuBadge,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from '@/components/ui/sidebar';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { CollectionDialog } from '@/components/CollectionDialog';
+import { SavedSearchDialog } from '@/components/SavedSearchDialog';
+import { useCollections } from '@/hooks/useCollections';
+import { useSavedSearches } from '@/hooks/useSavedSearches';
+import { useToast } from '@/hooks/use-toast';
+import { BookOpen, FileUp, Folder, MoreHorizontal, Pencil, Plus, SearchCheck, Trash2 } from 'lucide-react';
+import { SavedSearch, savedSearchParams } from '@/lib/saved-searches';
+
+// The dashboard's URL state without pagination, for telling which entry is open
+const withoutPage = (params: URLSearchParams) => {
+  const next = new URLSearchParams(params);
+  next.delete('page');
+  return next.toString();
+};
+
+export const RecipeSidebar = () => {
+  const { pathname } = useLocation();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const { collections } = useCollections();
+  const { savedSearches, counts, renameSearch, deleteSearch } = useSavedSearches();
+  const { toast } = useToast();
+  const [renaming, setRenaming] = useState<SavedSearch | null>(null);
+  const [creatingCollection, setCreatingCollection] = useState(false);
+
+  // Saved searches only apply to the dashboard, so they are never active elsewhere
+  const current = pathname === '/' ? withoutPage(searchParams) : null;
+
+  const handleDelete = async (savedSearch: SavedSearch) => {
+    try {
+      await deleteSearch(savedSearch.id);
+      toast({ title: `Deleted "${savedSearch.name}"` });
+    } catch (error) {
+      toast({
+        title: 'Error deleting search',
+        description: (error as Error).message,
+        variant: 'destructive'
+      });
+    }
+  };
+
+  return (
+    <Sidebar>
+      <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              <SidebarMenuItem>
+                <SidebarMenuButton asChild isActive={current === ''}>
+                  <Link to="/">
+                    <BookOpen />
+                    <span>All recipes</span>
+                  </Link>
+                </SidebarMenuButton>
+              </SidebarMenuItem>
+              <SidebarMenuItem>
+                <SidebarMenuButton asChild isActive={pathname === '/import'}>
+                  <Link to="/import">
+                    <FileUp />
+                    <span>Import</span>
+                  </Link>
+                </SidebarMenuButton>
+              </SidebarMenuItem>
+              <SidebarMenuItem>
+                <SidebarMenuButton asChild isActive={pathname === '/trash'}>
+                  <Link to="/trash">
+                    <Trash2 />
+                    <span>Trash</span>
+                  </Link>
+                </SidebarMenuButton>
+              </SidebarMenuItem>
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+
+        <SidebarGroup>
+          <SidebarGroupLabel>Saved searches</SidebarGroupLabel>
+          <SidebarGroupContent>
+            {savedSearches.length === 0 ? (
+              <p className="px-2 text-xs text-muted-foreground">
+                Filter your recipes and choose "Save search" to keep them here.
+              </p>
+            ) : (
+              <SidebarMenu>
+                {savedSearches.map(savedSearch => {
+                  const params = savedSearchParams(savedSearch.query).toString();
+
+                  return (
+                    <SidebarMenuItem key={savedSearch.id}>
+                      <SidebarMenuButton asChild isActive={current === params} className="pr-14">
+                        <Link to={`/?${params}`}>
+                          <SearchCheck />
+                          <span>{savedSearch.name}</span>
+                        </Link>
+                      </SidebarMenuButton>
+                      {counts[savedSearch.id] !== undefined && (
+                        <SidebarMenuBadge className="right-7">{counts[savedSearch.id]}</SidebarMenuBadge>
+                      )}
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <SidebarMenuAction showOnHover aria-label={`Options for ${savedSearch.name}`}>
+                            <MoreHorizontal />
+                          </SidebarMenuAction>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent side="right" align="start">
+                          <DropdownMenuItem onSelect={() => setRenaming(savedSearch)}>
+                            <Pencil className="h-4 w-4 mr-2" />
+                            Rename
+                          </DropdownMenuItem>
+                          <DropdownMenuItem onSelect={() => handleDelete(savedSearch)} className="text-destructive">
+                            <Trash2 className="h-4 w-4 mr-2" />
+                            Delete
+                          </DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </SidebarMenuItem>
+                  );
+                })}
+              </SidebarMenu>
+            )}
+          </SidebarGroupContent>
+        </SidebarGroup>
+
+        <SidebarGroup>
+          <SidebarGroupLabel>Collections</SidebarGroupLabel>
+          <SidebarGroupAction onClick={() => setCreatingCollection(true)} title="New collection">
+            <Plus />
+            <span className="sr-only">New collection</span>
+          </SidebarGroupAction>
+          <SidebarGroupContent>
+            {collections.length === 0 ? (
+              <p className="px-2 text-xs text-muted-foreground">
+                Create a collection to group recipes into your own cookbooks.
+              </p>
+            ) : (
+              <SidebarMenu>
+                {collections.map(collection => (
+                  <SidebarMenuItem key={collection.id}>
+                    <SidebarMenuButton asChild isActive={pathname === `/collections/${collection.id}`}>
+                      <Link to={`/collections/${collection.id}`}>
+                        <Folder />
+                        <span>{collection.name}</span>
+                      </Link>
+                    </SidebarMenuButton>
+                    <SidebarMenuBadge>{collection.recipe_count}</SidebarMenuBadge>
+                  </SidebarMenuItem>
+                ))}
+              </SidebarMenu>
+            )}
+          </SidebarGroupContent>
+        </SidebarGroup>
+      </SidebarContent>
+
+      <SavedSearchDialog
+        open={renaming !== null}
+        onOpenChange={(open) => !open && setRenaming(null)}
+        initialName={renaming?.name}
+        onSubmit={(name) => renameSearch(renaming!.id, name)}
+      />
+      <CollectionDialog
+        open={creatingCollection}
+        onOpenChange={setCreatingCollection}
+        onSaved={(collection) => navigate(`/collections/${collection.id}`)}
+      />
+    </Sidebar>
+  );
+};
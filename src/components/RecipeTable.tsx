@@ -0,0 +1,84 @@
+import { Link } from 'react-router-dom';
+import { HighlightedText } from '@/components/HighlightedText';
+import { RecipeRating } from '@/components/RecipeRating';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useCuisines } from '@/hooks/useCuisines';
+import { Edit, Trash2 } from 'lucide-react';
+import type { Recipe, RecipeRating as Rating, SearchHighlight } from '@/lib/recipes';
+
+interface RecipeTableProps {
+  recipes: Recipe[];
+  highlights: Record<string, SearchHighlight>;
+  onEdit: (recipe: Recipe) => void;
+  onDelete: (id: string) => void;
+  onTagClick?: (tag: string) => void;
+  onRatingChange?: (id: string, rating: Rating) => void;
+}
+
+// Dense one-row-per-recipe listing for the dashboard's compact view
+export const RecipeTable = ({ recipes, highlights, onEdit, onDelete, onTagClick, onRatingChange }: RecipeTableProps) => {
+  const { cuisineName } = useCuisines();
+
+  return (
+    <div className="rounded-md border bg-card">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Title</TableHead>
+            <TableHead className="hidden md:table-cell">Cuisine</TableHead>
+            <TableHead className="hidden sm:table-cell">Difficulty</TableHead>
+            <TableHead className="hidden sm:table-cell">Time</TableHead>
+            <TableHead className="hidden lg:table-cell">Tags</TableHead>
+            <TableHead className="hidden md:table-cell">Rating</TableHead>
+            <TableHead className="w-24"><span className="sr-only">Actions</span></TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {recipes.map(recipe => {
+            const totalTime = (recipe.prep_time || 0) + (recipe.cook_time || 0);
+            const highlight = highlights[recipe.id];
+
+            return (
+              <TableRow key={recipe.id}>
+                <TableCell className="font-medium">
+                  <Link to={`/recipes/${recipe.id}`} className="hover:underline">
+                    {highlight ? <HighlightedText text={highlight.title} /> : recipe.title}
+                  </Link>
+                </TableCell>
+                <TableCell className="hidden md:table-cell">{cuisineName(recipe.cuisine)}</TableCell>
+                <TableCell className="hidden sm:table-cell capitalize">{recipe.difficulty}</TableCell>
+                <TableCell className="hidden sm:table-cell text-muted-foreground">
+                  {totalTime > 0 ? `${totalTime} min` : '—'}
+                </TableCell>
+                <TableCell className="hidden lg:table-cell">
+                  <div className="flex flex-wrap gap-1">
+                    {recipe.tags.map(tag => (
+                      <button key={tag} type="button" onClick={() => onTagClick?.(tag)} disabled={!onTagClick}>
+                        <Badge variant="secondary" className="font-normal">{tag}</Badge>
+                      </button>
+                    ))}
+                  </div>
+                </TableCell>
+                <TableCell className="hidden md:table-cell">
+                  <RecipeRating recipe={recipe} onChange={(rating) => onRatingChange?.(recipe.id, rating)} />
+                </TableCell>
+                <TableCell>
+                  <div className="flex justify-end gap-1">
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onEdit(recipe)} aria-label={`Edit ${recipe.title}`}>
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-8 w-8 text-destructive" onClick={() => onDelete(recipe.id)} aria-label={`Delete ${recipe.title}`}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
@@ -0,0 +1,157 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ExportMenu } from '@/components/ExportMenu';
+import { IngredientList } from '@/components/IngredientList';
+import { MeasurementSystemSelect } from '@/components/MeasurementSystemSelect';
+import { RecipePhotoGallery } from '@/components/RecipePhotoGallery';
+import { RecipeRating } from '@/components/RecipeRating';
+import { ServingsScaler } from '@/components/ServingsScaler';
+import { StepTimer } from '@/components/StepTimer';
+import { ArrowLeft, Edit, History, Trash2, Users } from 'lucide-react';
+import { useCuisines } from '@/hooks/useCuisines';
+import { useProfile } from '@/hooks/useProfile';
+import { convertTemperatures } from '@/lib/conversion';
+import type { Recipe, RecipeRating as Rating } from '@/lib/recipes';
+
+interface RecipeViewProps {
+  recipe: Recipe;
+  onBack: () => void;
+  onEdit: (recipe: Recipe) => void;
+  onDelete: (id: string) => void;
+  onRatingChange?: (rating: Rating) => void;
+  onShowHistory?: () => void;
+}
+
+const formatMinutes = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest} min`;
+  return rest === 0 ? `${hours} h` : `${hours} h ${rest} min`;
+};
+
+export const RecipeView = ({
+  recipe,
+  onBack,
+  onEdit,
+  onDelete,
+  onRatingChange,
+  onShowHistory
+}: RecipeViewProps) => {
+  const { measurementSystem } = useProfile();
+  const { cuisineName } = useCuisines();
+  const [factor, setFactor] = useState(1);
+  const totalTime = (recipe.prep_time || 0) + (recipe.cook_time || 0);
+
+  const timings = [
+    { label: 'Prep', minutes: recipe.prep_time },
+    { label: 'Cook', minutes: recipe.cook_time },
+    { label: 'Total', minutes: totalTime }
+  ].filter(timing => timing.minutes);
+
+  return (
+    <Card className="w-full max-w-3xl mx-auto">
+      <CardHeader className="space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <Button variant="ghost" size="sm" onClick={onBack}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back
+          </Button>
+          <div className="flex items-center gap-2">
+            <MeasurementSystemSelect />
+            {onShowHistory && (
+              <Button variant="outline" size="sm" onClick={onShowHistory}>
+                <History className="h-4 w-4 mr-2" />
+                History
+              </Button>
+            )}
+            <ExportMenu recipe={recipe} />
+            <Button variant="outline" size="sm" onClick={() => onEdit(recipe)}>
+              <Edit className="h-4 w-4 mr-2" />
+              Edit
+            </Button>
+            <Button variant="destructive" size="sm" onClick={() => onDelete(recipe.id)}>
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete
+            </Button>
+          </div>
+        </div>
+        <div className="flex flex-wrap items-start justify-between gap-2">
+          <CardTitle className="text-2xl">{recipe.title}</CardTitle>
+          <div className="flex gap-2">
+            <Badge variant="outline">
+              {cuisineName(recipe.cuisine)}
+            </Badge>
+            <Badge variant="secondary" className="capitalize">
+              {recipe.difficulty}
+            </Badge>
+          </div>
+        </div>
+        <RecipeRating recipe={recipe} onChange={onRatingChange} />
+        {(timings.length > 0 || recipe.servings) && (
+          <dl className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            {timings.map(timing => (
+              <div key={timing.label} className="rounded-md border p-3">
+                <dt className="text-xs text-muted-foreground">{timing.label}</dt>
+                <dd className="font-medium">{formatMinutes(timing.minutes!)}</dd>
+              </div>
+            ))}
+            {recipe.servings && (
+              <div className="rounded-md border p-3">
+                <dt className="text-xs text-muted-foreground">Serves</dt>
+                <dd className="flex items-center gap-1 font-medium">
+                  <Users className="h-4 w-4" />
+                  {recipe.servings}
+                </dd>
+              </div>
+            )}
+          </dl>
+        )}
+      </CardHeader>
+
+      <CardContent className="space-y-6">
+        <RecipePhotoGallery photos={recipe.photos} title={recipe.title} />
+
+        <section className="space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <h3 className="font-semibold">Ingredients</h3>
+            <ServingsScaler
+              baseServings={recipe.servings}
+              factor={factor}
+              onFactorChange={setFactor}
+            />
+          </div>
+          <IngredientList ingredients={recipe.ingredients} factor={factor} />
+        </section>
+
+        <section className="space-y-3">
+          <h3 className="font-semibold">Instructions</h3>
+          <ol className="space-y-4">
+            {recipe.instructions.map((step, index) => (
+              <li key={index} className="space-y-2">
+                {step.section && (
+                  <h4 className="pt-2 text-sm font-semibold text-muted-foreground">{step.section}</h4>
+                )}
+                <div className="flex gap-3 text-sm">
+                  <span className="flex h-6 w-6 shrink-0 items-center justify-center rounded-full bg-primary text-xs font-medium text-primary-foreground">
+                    {index + 1}
+                  </span>
+                  <div className="space-y-2 pt-0.5">
+                    <p>{convertTemperatures(step.text, measurementSystem)}</p>
+                    {step.note && (
+                      <p className="text-xs italic text-muted-foreground">{step.note}</p>
+                    )}
+                    {step.timer_minutes && (
+                      <StepTimer minutes={step.timer_minutes} label={`Step ${index + 1}`} />
+                    )}
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ol>
+        </section>
+      </CardContent>
+    </Card>
+  );
+};
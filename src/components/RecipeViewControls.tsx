@@ -0,0 +1,78 @@
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { ArrowDownWideNarrow, ArrowUpNarrowWide, LayoutGrid, List, Rows3 } from 'lucide-react';
+import { RecipeSort, RecipeView, recipeSortLabels } from '@/lib/recipes';
+
+const RELEVANCE = 'relevance';
+
+interface RecipeViewControlsProps {
+  // null is "Best match", only offered while searching
+  sort: RecipeSort | null;
+  ascending: boolean;
+  view: RecipeView;
+  searching: boolean;
+  onSortChange: (sort: RecipeSort | null) => void;
+  onAscendingChange: (ascending: boolean) => void;
+  onViewChange: (view: RecipeView) => void;
+}
+
+export const RecipeViewControls = ({
+  sort,
+  ascending,
+  view,
+  searching,
+  onSortChange,
+  onAscendingChange,
+  onViewChange
+}: RecipeViewControlsProps) => (
+  <div className="flex items-center gap-2">
+    <Select
+      value={sort ?? RELEVANCE}
+      onValueChange={(value) => onSortChange(value === RELEVANCE ? null : value as RecipeSort)}
+    >
+      <SelectTrigger className="h-9 w-40" aria-label="Sort by">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {searching && <SelectItem value={RELEVANCE}>Best match</SelectItem>}
+        {(Object.keys(recipeSortLabels) as RecipeSort[]).map(key => (
+          <SelectItem key={key} value={key}>
+            {recipeSortLabels[key]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+
+    <Button
+      variant="outline"
+      size="icon"
+      className="h-9 w-9"
+      onClick={() => onAscendingChange(!ascending)}
+      disabled={sort === null}
+      aria-label={ascending ? 'Sort descending' : 'Sort ascending'}
+      title={ascending ? 'Ascending' : 'Descending'}
+    >
+      {ascending ? <ArrowUpNarrowWide className="h-4 w-4" /> : <ArrowDownWideNarrow className="h-4 w-4" />}
+    </Button>
+
+    <ToggleGroup
+      type="single"
+      variant="outline"
+      size="sm"
+      value={view}
+      onValueChange={(value: RecipeView) => value && onViewChange(value)}
+      aria-label="View"
+    >
+      <ToggleGroupItem value="grid" aria-label="Grid view">
+        <LayoutGrid className="h-4 w-4" />
+      </ToggleGroupItem>
+      <ToggleGroupItem value="list" aria-label="List view">
+        <List className="h-4 w-4" />
+      </ToggleGroupItem>
+      <ToggleGroupItem value="compact" aria-label="Compact view">
+        <Rows3 className="h-4 w-4" />
+      </ToggleGroupItem>
+    </ToggleGroup>
+  </div>
+);
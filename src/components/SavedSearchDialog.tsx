@@ -0,0 +1,81 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+
+interface SavedSearchDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Set when renaming an existing saved search
+  initialName?: string;
+  onSubmit: (name: string) => Promise<void>;
+}
+
+// Asks for the name of a new saved search, or a new name for an existing one
+export const SavedSearchDialog = ({ open, onOpenChange, initialName = '', onSubmit }: SavedSearchDialogProps) => {
+  const { toast } = useToast();
+  const [name, setName] = useState(initialName);
+  const [saving, setSaving] = useState(false);
+  const renaming = initialName !== '';
+
+  useEffect(() => {
+    if (open) setName(initialName);
+  }, [open, initialName]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      await onSubmit(name);
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: renaming ? 'Error renaming search' : 'Error saving search',
+        description: (error as Error).message,
+        variant: 'destructive'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-sm">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{renaming ? 'Rename search' : 'Save search'}</DialogTitle>
+            {!renaming && (
+              <DialogDescription>
+                Keep these filters and sort order in the sidebar. Its recipes update as your collection changes.
+              </DialogDescription>
+            )}
+          </DialogHeader>
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. Quick weeknight dinners"
+            aria-label="Search name"
+            autoFocus
+          />
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving || !name.trim()}>
+              {renaming ? 'Rename' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,89 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Minus, Plus, RotateCcw } from 'lucide-react';
+
+interface ServingsScalerProps {
+  baseServings: number | null;
+  factor: number;
+  onFactorChange: (factor: number) => void;
+}
+
+const multipliers = [0.5, 1, 2, 3];
+
+export const ServingsScaler = ({ baseServings, factor, onFactorChange }: ServingsScalerProps) => {
+  const targetServings = baseServings ? Math.round(baseServings * factor * 100) / 100 : null;
+
+  const setServings = (servings: number) => {
+    if (!baseServings || !Number.isFinite(servings) || servings <= 0) return;
+    onFactorChange(servings / baseServings);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      {baseServings ? (
+        <div className="flex items-center gap-2">
+          <Label htmlFor="target-servings" className="text-sm text-muted-foreground">
+            Servings
+          </Label>
+          <Button
+            type="button"
+            size="icon"
+            variant="outline"
+            className="h-8 w-8"
+            onClick={() => setServings(Math.max(1, Math.ceil(targetServings!) - 1))}
+            disabled={targetServings! <= 1}
+            aria-label="Fewer servings"
+          >
+            <Minus className="h-4 w-4" />
+          </Button>
+          <Input
+            id="target-servings"
+            type="number"
+            min="1"
+            value={targetServings ?? ''}
+            onChange={(e) => setServings(parseFloat(e.target.value))}
+            className="h-8 w-16 text-center"
+          />
+          <Button
+            type="button"
+            size="icon"
+            variant="outline"
+            className="h-8 w-8"
+            onClick={() => setServings(Math.floor(targetServings!) + 1)}
+            aria-label="More servings"
+          >
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+      ) : null}
+
+      <div className="flex items-center gap-1">
+        {multipliers.map(multiplier => (
+          <Button
+            key={multiplier}
+            type="button"
+            size="sm"
+            variant={factor === multiplier ? 'default' : 'outline'}
+            className="h-8 px-2"
+            onClick={() => onFactorChange(multiplier)}
+          >
+            ×{multiplier === 0.5 ? '½' : multiplier}
+          </Button>
+        ))}
+        {factor !== 1 && (
+          <Button
+            type="button"
+            size="icon"
+            variant="ghost"
+            className="h-8 w-8"
+            onClick={() => onFactorChange(1)}
+            aria-label="Reset to original amounts"
+          >
+            <RotateCcw className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,73 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { Pause, Play, RotateCcw, Timer } from 'lucide-react';
+
+interface StepTimerProps {
+  minutes: number;
+  label: string;
+}
+
+const formatRemaining = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+export const StepTimer = ({ minutes, label }: StepTimerProps) => {
+  const { toast } = useToast();
+  const [remaining, setRemaining] = useState(minutes * 60);
+  const [running, setRunning] = useState(false);
+
+  useEffect(() => {
+    setRemaining(minutes * 60);
+    setRunning(false);
+  }, [minutes]);
+
+  useEffect(() => {
+    if (!running) return;
+
+    const interval = window.setInterval(() => {
+      setRemaining(prev => Math.max(0, prev - 1));
+    }, 1000);
+    return () => window.clearInterval(interval);
+  }, [running]);
+
+  useEffect(() => {
+    if (running && remaining === 0) {
+      setRunning(false);
+      toast({
+        title: 'Timer finished',
+        description: label
+      });
+    }
+  }, [running, remaining, label, toast]);
+
+  const started = remaining !== minutes * 60;
+
+  return (
+    <div className="inline-flex items-center gap-1">
+      <Button
+        type="button"
+        variant={running ? 'default' : 'outline'}
+        size="sm"
+        className="h-7 px-2 font-mono text-xs"
+        onClick={() => setRunning(prev => remaining > 0 && !prev)}
+      >
+        {running ? <Pause className="h-3 w-3 mr-1" /> : started ? <Play className="h-3 w-3 mr-1" /> : <Timer className="h-3 w-3 mr-1" />}
+        {started ? formatRemaining(remaining) : `${minutes} min`}
+      </Button>
+      {started && !running && (
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          onClick={() => setRemaining(minutes * 60)}
+          aria-label="Reset timer"
+        >
+          <RotateCcw className="h-3 w-3" />
+        </Button>
+      )}
+    </div>
+  );
+};
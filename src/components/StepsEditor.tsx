@@ -0,0 +1,155 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { ArrowDown, ArrowUp, GripVertical, Plus, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { InstructionStep, emptyStep, moveStep } from '@/lib/instructions';
+
+interface StepsEditorProps {
+  steps: InstructionStep[];
+  onChange: (steps: InstructionStep[]) => void;
+}
+
+export const StepsEditor = ({ steps, onChange }: StepsEditorProps) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const updateStep = (index: number, changes: Partial<InstructionStep>) => {
+    onChange(steps.map((step, i) => (i === index ? { ...step, ...changes } : step)));
+  };
+
+  const removeStep = (index: number) => {
+    onChange(steps.filter((_, i) => i !== index));
+  };
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null) onChange(moveStep(steps, dragIndex, index));
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <ol className="space-y-3">
+        {steps.map((step, index) => (
+          <li
+            key={index}
+            onDragOver={(e) => {
+              if (dragIndex === null) return;
+              e.preventDefault();
+              setDropIndex(index);
+            }}
+            onDrop={(e) => {
+              e.preventDefault();
+              handleDrop(index);
+            }}
+            className={cn(
+              'rounded-md border p-3 space-y-2 transition-colors',
+              dragIndex === index && 'opacity-50',
+              dropIndex === index && dragIndex !== index && 'border-primary bg-primary/5'
+            )}
+          >
+            <div className="flex items-start gap-2">
+              <div
+                draggable
+                onDragStart={(e) => {
+                  e.dataTransfer.effectAllowed = 'move';
+                  setDragIndex(index);
+                }}
+                onDragEnd={() => {
+                  setDragIndex(null);
+                  setDropIndex(null);
+                }}
+                className="mt-2 cursor-grab text-muted-foreground active:cursor-grabbing"
+                aria-hidden
+              >
+                <GripVertical className="h-4 w-4" />
+              </div>
+              <span className="mt-2 w-6 shrink-0 text-sm font-medium text-muted-foreground">
+                {index + 1}.
+              </span>
+              <Textarea
+                value={step.text}
+                onChange={(e) => updateStep(index, { text: e.target.value })}
+                placeholder={`Describe step ${index + 1}`}
+                aria-label={`Step ${index + 1}`}
+                rows={2}
+                required={index === 0}
+                className="flex-1"
+              />
+              <div className="flex flex-col gap-1">
+                <Button
+                  type="button"
+                  size="icon"
+                  variant="ghost"
+                  className="h-7 w-7"
+                  onClick={() => onChange(moveStep(steps, index, index - 1))}
+                  disabled={index === 0}
+                  aria-label={`Move step ${index + 1} up`}
+                >
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  size="icon"
+                  variant="ghost"
+                  className="h-7 w-7"
+                  onClick={() => onChange(moveStep(steps, index, index + 1))}
+                  disabled={index === steps.length - 1}
+                  aria-label={`Move step ${index + 1} down`}
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+              </div>
+              {steps.length > 1 && (
+                <Button
+                  type="button"
+                  onClick={() => removeStep(index)}
+                  size="sm"
+                  variant="outline"
+                  aria-label={`Remove step ${index + 1}`}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+            <div className="grid grid-cols-1 gap-2 pl-14 sm:grid-cols-[1fr_7rem_1fr]">
+              <Input
+                value={step.section ?? ''}
+                onChange={(e) => updateStep(index, { section: e.target.value || null })}
+                placeholder="Section heading (optional)"
+                aria-label={`Step ${index + 1} section heading`}
+              />
+              <Input
+                type="number"
+                min="1"
+                value={step.timer_minutes ?? ''}
+                onChange={(e) => updateStep(index, {
+                  timer_minutes: e.target.value ? parseInt(e.target.value) : null
+                })}
+                placeholder="Timer (min)"
+                aria-label={`Step ${index + 1} timer in minutes`}
+              />
+              <Input
+                value={step.note ?? ''}
+                onChange={(e) => updateStep(index, { note: e.target.value || null })}
+                placeholder="Note (optional)"
+                aria-label={`Step ${index + 1} note`}
+              />
+            </div>
+          </li>
+        ))}
+      </ol>
+      <Button
+        type="button"
+        onClick={() => onChange([...steps, emptyStep()])}
+        size="sm"
+        variant="outline"
+      >
+        <Plus className="h-4 w-4 mr-2" />
+        Add Step
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,84 @@
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Check, Tags } from 'lucide-react';
+import type { TagMatchMode } from '@/lib/recipes';
+import { cn } from '@/lib/utils';
+
+interface TagFilterProps {
+  tags: string[];
+  selected: string[];
+  mode: TagMatchMode;
+  onSelectedChange: (selected: string[]) => void;
+  onModeChange: (mode: TagMatchMode) => void;
+}
+
+export const TagFilter = ({ tags, selected, mode, onSelectedChange, onModeChange }: TagFilterProps) => {
+  const toggleTag = (tag: string) => {
+    onSelectedChange(selected.includes(tag) ? selected.filter(t => t !== tag) : [...selected, tag]);
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className="w-40 justify-start font-normal">
+          <Tags className="h-4 w-4 mr-2 text-muted-foreground" />
+          Tags
+          {selected.length > 0 && (
+            <Badge variant="secondary" className="ml-auto rounded-sm px-1.5">
+              {selected.length}
+            </Badge>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 p-0" align="end">
+        <div className="flex items-center justify-between gap-2 border-b p-2">
+          <ToggleGroup
+            type="single"
+            size="sm"
+            value={mode}
+            onValueChange={(value: TagMatchMode) => value && onModeChange(value)}
+          >
+            <ToggleGroupItem value="all" className="h-7 px-2 text-xs">Match all</ToggleGroupItem>
+            <ToggleGroupItem value="any" className="h-7 px-2 text-xs">Match any</ToggleGroupItem>
+          </ToggleGroup>
+          {selected.length > 0 && (
+            <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => onSelectedChange([])}>
+              Clear
+            </Button>
+          )}
+        </div>
+        <Command>
+          <CommandInput placeholder="Search tags..." />
+          <CommandList>
+            <CommandEmpty>No tags found.</CommandEmpty>
+            <CommandGroup>
+              {tags.map(tag => (
+                <CommandItem key={tag} value={tag} onSelect={() => toggleTag(tag)}>
+                  <div
+                    className={cn(
+                      'mr-2 flex h-4 w-4 items-center justify-center rounded-sm border border-primary',
+                      selected.includes(tag) ? 'bg-primary text-primary-foreground' : 'opacity-50'
+                    )}
+                  >
+                    {selected.includes(tag) && <Check className="h-3 w-3" />}
+                  </div>
+                  {tag}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,97 @@
+import { useState } from 'react';
+import { Command as CommandPrimitive } from 'cmdk';
+import { Badge } from '@/components/ui/badge';
+import { Command, CommandGroup, CommandItem, CommandList } from '@/components/ui/command';
+import { Plus, X } from 'lucide-react';
+import { normalizeTags } from '@/lib/recipes';
+
+interface TagInputProps {
+  tags: string[];
+  suggestions: string[];
+  onChange: (tags: string[]) => void;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+export const TagInput = ({ tags, suggestions, onChange }: TagInputProps) => {
+  const [query, setQuery] = useState('');
+  const [open, setOpen] = useState(false);
+
+  const name = query.trim().toLowerCase();
+  const matches = suggestions
+    .filter(suggestion => !tags.includes(suggestion) && suggestion.includes(name))
+    .slice(0, MAX_SUGGESTIONS);
+  const canCreate = name !== '' && !tags.includes(name) && !suggestions.includes(name);
+
+  const addTag = (tag: string) => {
+    onChange(normalizeTags([...tags, tag]));
+    setQuery('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === ',' && name) {
+      e.preventDefault();
+      addTag(name);
+    } else if (e.key === 'Backspace' && query === '' && tags.length > 0) {
+      onChange(tags.slice(0, -1));
+    }
+  };
+
+  return (
+    <Command shouldFilter={false} className="overflow-visible bg-transparent">
+      <div className="flex flex-wrap items-center gap-1 rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-within:ring-2 focus-within:ring-ring focus-within:ring-offset-2">
+        {tags.map(tag => (
+          <Badge key={tag} variant="secondary" className="gap-1">
+            {tag}
+            <button
+              type="button"
+              onClick={() => onChange(tags.filter(t => t !== tag))}
+              aria-label={`Remove tag ${tag}`}
+              className="rounded-full outline-none focus-visible:ring-2 focus-visible:ring-ring"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </Badge>
+        ))}
+        <CommandPrimitive.Input
+          value={query}
+          onValueChange={setQuery}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setOpen(true)}
+          onBlur={() => setOpen(false)}
+          placeholder={tags.length === 0 ? 'Add tags, e.g. weeknight, vegan' : 'Add tag...'}
+          aria-label="Add tag"
+          className="min-w-[8rem] flex-1 bg-transparent outline-none placeholder:text-muted-foreground"
+        />
+      </div>
+      <div className="relative">
+        {open && (matches.length > 0 || canCreate) && (
+          <CommandList className="absolute top-1 z-10 w-full rounded-md border bg-popover text-popover-foreground shadow-md">
+            <CommandGroup>
+              {matches.map(match => (
+                <CommandItem
+                  key={match}
+                  value={match}
+                  onMouseDown={(e) => e.preventDefault()}
+                  onSelect={addTag}
+                >
+                  {match}
+                </CommandItem>
+              ))}
+              {canCreate && (
+                <CommandItem
+                  value={`create:${name}`}
+                  onMouseDown={(e) => e.preventDefault()}
+                  onSelect={() => addTag(name)}
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Create "{name}"
+                </CommandItem>
+              )}
+            </CommandGroup>
+          </CommandList>
+        )}
+      </div>
+    </Command>
+  );
+};
@@ -0,0 +1,71 @@
+import { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { useAuth } from './useAuth';
+import {
+  Collection,
+  CollectionInput,
+  deleteCollection as removeCollection,
+  fetchCollections,
+  saveCollection as storeCollection
+} from '@/lib/collections';
+
+interface CollectionsContextType {
+  collections: Collection[];
+  // Reloads the list, e.g. after recipes were added to or removed from a collection
+  refresh: () => Promise<void>;
+  saveCollection: (input: CollectionInput, existing?: Collection) => Promise<Collection>;
+  deleteCollection: (collection: Collection) => Promise<void>;
+  loading: boolean;
+}
+
+const CollectionsContext = createContext<CollectionsContextType | undefined>(undefined);
+
+const sortByName = (collections: Collection[]) =>
+  [...collections].sort((a, b) => a.name.localeCompare(b.name));
+
+export const CollectionsProvider = ({ children }: { children: React.ReactNode }) => {
+  const { user } = useAuth();
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    setCollections(await fetchCollections().catch(() => []));
+  }, []);
+
+  useEffect(() => {
+    if (!user) {
+      setCollections([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    refresh().finally(() => setLoading(false));
+  }, [user, refresh]);
+
+  const saveCollection = async (input: CollectionInput, existing?: Collection) => {
+    if (!input.name.trim()) throw new Error('Please enter a name for this collection');
+
+    const saved = await storeCollection(input, user!.id, existing);
+    setCollections(prev => sortByName([...prev.filter(c => c.id !== saved.id), saved]));
+    return saved;
+  };
+
+  const deleteCollection = async (collection: Collection) => {
+    await removeCollection(collection);
+    setCollections(prev => prev.filter(c => c.id !== collection.id));
+  };
+
+  return (
+    <CollectionsContext.Provider value={{ collections, refresh, saveCollection, deleteCollection, loading }}>
+      {children}
+    </CollectionsContext.Provider>
+  );
+};
+
+export const useCollections = () => {
+  const context = useContext(CollectionsContext);
+  if (context === undefined) {
+    throw new Error('useCollections must be used within a CollectionsProvider');
+  }
+  return context;
+};
@@ -0,0 +1,88 @@
+import { createContext, useContext, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { useAuth } from './useAuth';
+
+export type Cuisine = Tables<'cuisines'>;
+
+interface CuisinesContextType {
+  cuisines: Cuisine[];
+  cuisineName: (slug: string) => string;
+  addCuisine: (name: string) => Promise<Cuisine>;
+  loading: boolean;
+}
+
+const CuisinesContext = createContext<CuisinesContextType | undefined>(undefined);
+
+const toSlug = (name: string) =>
+  name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+// Alphabetical, with the "other" catch-all last
+const sortCuisines = (cuisines: Cuisine[]) =>
+  [...cuisines].sort((a, b) =>
+    Number(a.slug === 'other') - Number(b.slug === 'other') || a.name.localeCompare(b.name)
+  );
+
+export const CuisinesProvider = ({ children }: { children: React.ReactNode }) => {
+  const { user } = useAuth();
+  const [cuisines, setCuisines] = useState<Cuisine[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user) {
+      setCuisines([]);
+      setLoading(false);
+      return;
+    }
+
+    // RLS returns the built-in cuisines plus the user's own
+    setLoading(true);
+    supabase
+      .from('cuisines')
+      .select('*')
+      .then(({ data }) => {
+        setCuisines(sortCuisines(data ?? []));
+        setLoading(false);
+      });
+  }, [user]);
+
+  const cuisineName = (slug: string) =>
+    cuisines.find(cuisine => cuisine.slug === slug)?.name ?? slug;
+
+  const addCuisine = async (name: string) => {
+    const slug = toSlug(name);
+    if (!slug) throw new Error('Please enter a cuisine name');
+
+    const existing = cuisines.find(cuisine => cuisine.slug === slug);
+    if (existing) return existing;
+
+    const { data, error } = await supabase
+      .from('cuisines')
+      .insert({ user_id: user!.id, slug, name: name.trim() })
+      .select()
+      .single();
+
+    if (error) throw error;
+    setCuisines(prev => sortCuisines([...prev, data]));
+    return data;
+  };
+
+  return (
+    <CuisinesContext.Provider value={{ cuisines, cuisineName, addCuisine, loading }}>
+      {children}
+    </CuisinesContext.Provider>
+  );
+};
+
+export const useCuisines = () => {
+  const context = useContext(CuisinesContext);
+  if (context === undefined) {
+    throw new Error('useCuisines must be used within a CuisinesProvider');
+  }
+  return context;
+};
@@ -0,0 +1,30 @@
+import { useEffect, useState } from 'react';
+import { getPhotoUrls } from '@/lib/photos';
+
+// Resolves storage paths to signed URLs, keyed by path
+export const usePhotoUrls = (paths: string[]) => {
+  const [urls, setUrls] = useState<Record<string, string | null>>({});
+  const key = paths.join('\n');
+
+  useEffect(() => {
+    if (!key) {
+      setUrls({});
+      return;
+    }
+
+    let cancelled = false;
+    getPhotoUrls(key.split('\n'))
+      .then(result => {
+        if (!cancelled) setUrls(result);
+      })
+      .catch(() => {
+        if (!cancelled) setUrls({});
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [key]);
+
+  return urls;
+};
@@ -0,0 +1,88 @@
+import { createContext, useContext, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables, TablesUpdate } from '@/integrations/supabase/types';
+import { useAuth } from './useAuth';
+import { useToast } from './use-toast';
+import type { MeasurementSystem } from '@/lib/conversion';
+
+type Profile = Tables<'profiles'>;
+
+interface ProfileContextType {
+  profile: Profile | null;
+  measurementSystem: MeasurementSystem;
+  updateProfile: (changes: Omit<TablesUpdate<'profiles'>, 'id'>) => Promise<void>;
+  loading: boolean;
+}
+
+const ProfileContext = createContext<ProfileContextType | undefined>(undefined);
+
+export const ProfileProvider = ({ children }: { children: React.ReactNode }) => {
+  const { user } = useAuth();
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!user) {
+      setProfile(null);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    supabase
+      .from('profiles')
+      .select('*')
+      .eq('id', user.id)
+      .maybeSingle()
+      .then(({ data }) => {
+        setProfile(data);
+        setLoading(false);
+      });
+  }, [user]);
+
+  const updateProfile = async (changes: Omit<TablesUpdate<'profiles'>, 'id'>) => {
+    if (!user) return;
+
+    // Apply optimistically so preference toggles feel instant
+    const previous = profile;
+    setProfile(prev => (prev ? { ...prev, ...changes } : prev));
+
+    const { data, error } = await supabase
+      .from('profiles')
+      .upsert({ id: user.id, ...changes })
+      .select()
+      .single();
+
+    if (error) {
+      setProfile(previous);
+      toast({
+        title: 'Error saving preferences',
+        description: error.message,
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    setProfile(data);
+  };
+
+  return (
+    <ProfileContext.Provider value={{
+      profile,
+      measurementSystem: profile?.measurement_system ?? 'original',
+      updateProfile,
+      loading
+    }}>
+      {children}
+    </ProfileContext.Provider>
+  );
+};
+
+export const useProfile = () => {
+  const context = useContext(ProfileContext);
+  if (context === undefined) {
+    throw new Error('useProfile must be used within a ProfileProvider');
+  }
+  return context;
+};
@@ -0,0 +1,99 @@
+import { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { useAuth } from './useAuth';
+import type { RecipeFilters } from '@/lib/recipes';
+import {
+  SavedSearch,
+  createSavedSearch,
+  deleteSavedSearch,
+  fetchSavedSearchCounts,
+  fetchSavedSearches,
+  renameSavedSearch
+} from '@/lib/saved-searches';
+
+interface SavedSearchesContextType {
+  savedSearches: SavedSearch[];
+  // Matching recipe count per saved search id
+  counts: Record<string, number>;
+  // Re-counts after recipes are added, edited or removed
+  refreshCounts: () => Promise<void>;
+  saveSearch: (name: string, filters: RecipeFilters) => Promise<SavedSearch>;
+  renameSearch: (id: string, name: string) => Promise<void>;
+  deleteSearch: (id: string) => Promise<void>;
+  loading: boolean;
+}
+
+const SavedSearchesContext = createContext<SavedSearchesContextType | undefined>(undefined);
+
+const sortByName = (searches: SavedSearch[]) =>
+  [...searches].sort((a, b) => a.name.localeCompare(b.name));
+
+export const SavedSearchesProvider = ({ children }: { children: React.ReactNode }) => {
+  const { user } = useAuth();
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [counts, setCounts] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(true);
+
+  const refreshCounts = useCallback(async () => {
+    // Counts are a nicety; the sidebar simply shows none if they fail to load
+    setCounts(await fetchSavedSearchCounts().catch(() => ({})));
+  }, []);
+
+  useEffect(() => {
+    if (!user) {
+      setSavedSearches([]);
+      setCounts({});
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    fetchSavedSearches()
+      .then(setSavedSearches)
+      .catch(() => setSavedSearches([]))
+      .finally(() => setLoading(false));
+    refreshCounts();
+  }, [user, refreshCounts]);
+
+  const saveSearch = async (name: string, filters: RecipeFilters) => {
+    if (!name.trim()) throw new Error('Please enter a name for this search');
+
+    const savedSearch = await createSavedSearch(name, filters, user!.id);
+    setSavedSearches(prev => sortByName([...prev, savedSearch]));
+    refreshCounts();
+    return savedSearch;
+  };
+
+  const renameSearch = async (id: string, name: string) => {
+    if (!name.trim()) throw new Error('Please enter a name for this search');
+
+    const savedSearch = await renameSavedSearch(id, name);
+    setSavedSearches(prev => sortByName(prev.map(s => (s.id === id ? savedSearch : s))));
+  };
+
+  const deleteSearch = async (id: string) => {
+    await deleteSavedSearch(id);
+    setSavedSearches(prev => prev.filter(s => s.id !== id));
+  };
+
+  return (
+    <SavedSearchesContext.Provider value={{
+      savedSearches,
+      counts,
+      refreshCounts,
+      saveSearch,
+      renameSearch,
+      deleteSearch,
+      loading
+    }}>
+      {children}
+    </SavedSearchesContext.Provider>
+  );
+};
+
+export const useSavedSearches = () => {
+  const context = useContext(SavedSearchesContext);
+  if (context === undefined) {
+    throw new Error('useSavedSearches must be used within a SavedSearchesProvider');
+  }
+  return context;
+};
@@ -0,0 +1,32 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/hooks/useAuth';
+
+export type Tag = Tables<'tags'>;
+
+// All of the current user's tags, for autocomplete and filtering
+export const useTags = () => {
+  const { user } = useAuth();
+  const [tags, setTags] = useState<Tag[]>([]);
+
+  const refresh = useCallback(async () => {
+    if (!user) {
+      setTags([]);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('tags')
+      .select('*')
+      .order('name');
+
+    if (!error) setTags(data);
+  }, [user]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { tags, refresh };
+};
@@ -0,0 +1,49 @@
+import { useCallback } from 'react';
+import { ToastAction } from '@/components/ui/toast';
+import { useCollections } from './useCollections';
+import { useToast } from './use-toast';
+import { Recipe, restoreRecipe, trashRecipe } from '@/lib/recipes';
+
+// Moves a recipe to the trash and offers to undo it from the toast.
+// `onChange` runs after the recipe is trashed and again if it is restored.
+// Collection counts leave out trashed recipes, so they are reloaded either way.
+export const useTrashRecipe = (onChange: (restored: boolean) => void) => {
+  const { toast } = useToast();
+  const { refresh: refreshCollections } = useCollections();
+
+  return useCallback(async (recipe: Pick<Recipe, 'id' | 'title'>) => {
+    const handleUndo = async () => {
+      try {
+        await restoreRecipe(recipe.id);
+        onChange(true);
+        refreshCollections();
+        toast({
+          title: `Restored "${recipe.title}"`
+        });
+      } catch (error) {
+        toast({
+          title: 'Error restoring recipe',
+          description: (error as Error).message,
+          variant: 'destructive'
+        });
+      }
+    };
+
+    try {
+      await trashRecipe(recipe.id);
+      onChange(false);
+      refreshCollections();
+      toast({
+        title: 'Recipe moved to trash',
+        description: `"${recipe.title}" can be restored from the trash.`,
+        action: <ToastAction altText="Undo delete" onClick={handleUndo}>Undo</ToastAction>
+      });
+    } catch (error) {
+      toast({
+        title: 'Error deleting recipe',
+        description: (error as Error).message,
+        variant: 'destructive'
+      });
+    }
+  }, [onChange, toast, refreshCollections]);
+};
@@ -14,12 +14,196 @@ export type Database = {
   }
   public: {
     Tables: {
+      collection_recipes: {
+        Row: {
+          added_at: string
+          collection_id: string
+          position: number
+          recipe_id: string
+        }
+        Insert: {
+          added_at?: string
+          collection_id: string
+          position: number
+          recipe_id: string
+        }
+        Update: {
+          added_at?: string
+          collection_id?: string
+          position?: number
+          recipe_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "collection_recipes_collection_id_fkey"
+            columns: ["collection_id"]
+            isOneToOne: false
+            referencedRelation: "collections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "collection_recipes_recipe_id_fkey"
+            columns: ["recipe_id"]
+            isOneToOne: false
+            referencedRelation: "recipes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      collections: {
+        Row: {
+          cover_photo: Json | null
+          created_at: string
+          description: string | null
+          id: string
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          cover_photo?: Json | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          cover_photo?: Json | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      cook_logs: {
+        Row: {
+          cooked_on: string
+          created_at: string
+          id: string
+          notes: string | null
+          photo: Json | null
+          rating: number | null
+          recipe_id: string
+          servings: number | null
+          user_id: string
+        }
+        Insert: {
+          cooked_on?: string
+          created_at?: string
+          id?: string
+          notes?: string | null
+          photo?: Json | null
+          rating?: number | null
+          recipe_id: string
+          servings?: number | null
+          user_id: string
+        }
+        Update: {
+          cooked_on?: string
+          created_at?: string
+          id?: string
+          notes?: string | null
+          photo?: Json | null
+          rating?: number | null
+          recipe_id?: string
+          servings?: number | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cook_logs_recipe_id_fkey"
+            columns: ["recipe_id"]
+            isOneToOne: false
+            referencedRelation: "recipes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cuisines: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          slug: string
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          slug: string
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          slug?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      import_batches: {
+        Row: {
+          completed_at: string | null
+          created_at: string
+          file_name: string | null
+          id: string
+          recipe_count: number
+          source: string
+          user_id: string
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string
+          file_name?: string | null
+          id?: string
+          recipe_count?: number
+          source: string
+          user_id: string
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string
+          file_name?: string | null
+          id?: string
+          recipe_count?: number
+          source?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      photo_cleanup: {
+        Row: {
+          path: string
+          queued_at: string
+        }
+        Insert: {
+          path: string
+          queued_at?: string
+        }
+        Update: {
+          path?: string
+          queued_at?: string
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           created_at: string
           email: string | null
           full_name: string | null
           id: string
+          measurement_system: Database["public"]["Enums"]["measurement_system"]
+          recipe_sort: Database["public"]["Enums"]["recipe_sort_key"]
+          recipe_sort_ascending: boolean
+          recipe_view: Database["public"]["Enums"]["recipe_view_mode"]
+          trash_retention_days: number
           updated_at: string
         }
         Insert: {
@@ -27,6 +211,11 @@ export type Database = {
           email?: string | null
           full_name?: string | null
           id: string
+          measurement_system?: Database["public"]["Enums"]["measurement_system"]
+          recipe_sort?: Database["public"]["Enums"]["recipe_sort_key"]
+          recipe_sort_ascending?: boolean
+          recipe_view?: Database["public"]["Enums"]["recipe_view_mode"]
+          trash_retention_days?: number
           updated_at?: string
         }
         Update: {
@@ -34,20 +223,126 @@ export type Database = {
           email?: string | null
           full_name?: string | null
           id?: string
+          measurement_system?: Database["public"]["Enums"]["measurement_system"]
+          recipe_sort?: Database["public"]["Enums"]["recipe_sort_key"]
+          recipe_sort_ascending?: boolean
+          recipe_view?: Database["public"]["Enums"]["recipe_view_mode"]
+          trash_retention_days?: number
           updated_at?: string
         }
         Relationships: []
       }
+      recipe_ratings: {
+        Row: {
+          created_at: string
+          favorite: boolean
+          rating: number | null
+          recipe_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          favorite?: boolean
+          rating?: number | null
+          recipe_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          favorite?: boolean
+          rating?: number | null
+          recipe_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recipe_ratings_recipe_id_fkey"
+            columns: ["recipe_id"]
+            isOneToOne: false
+            referencedRelation: "recipes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      recipe_revisions: {
+        Row: {
+          created_at: string
+          edited_by: string | null
+          id: string
+          recipe_id: string
+          snapshot: Json
+        }
+        Insert: {
+          created_at?: string
+          edited_by?: string | null
+          id?: string
+          recipe_id: string
+          snapshot: Json
+        }
+        Update: {
+          created_at?: string
+          edited_by?: string | null
+          id?: string
+          recipe_id?: string
+          snapshot?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recipe_revisions_recipe_id_fkey"
+            columns: ["recipe_id"]
+            isOneToOne: false
+            referencedRelation: "recipes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      recipe_tags: {
+        Row: {
+          recipe_id: string
+          tag_id: string
+        }
+        Insert: {
+          recipe_id: string
+          tag_id: string
+        }
+        Update: {
+          recipe_id?: string
+          tag_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recipe_tags_recipe_id_fkey"
+            columns: ["recipe_id"]
+            isOneToOne: false
+            referencedRelation: "recipes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recipe_tags_tag_id_fkey"
+            columns: ["tag_id"]
+            isOneToOne: false
+            referencedRelation: "tags"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       recipes: {
         Row: {
           cook_time: number | null
           created_at: string
-          cuisine: Database["public"]["Enums"]["cuisine_type"]
+          cuisine: string
+          deleted_at: string | null
           difficulty: Database["public"]["Enums"]["difficulty_level"]
           id: string
-          ingredients: string[]
-          instructions: string
+          import_batch_id: string | null
+          ingredients: Json
+          instructions: Json
+          photos: Json
           prep_time: number | null
+          search_vector: unknown | null
           servings: number | null
           title: string
           updated_at: string
@@ -56,12 +351,16 @@ export type Database = {
         Insert: {
           cook_time?: number | null
           created_at?: string
-          cuisine?: Database["public"]["Enums"]["cuisine_type"]
+          cuisine?: string
+          deleted_at?: string | null
           difficulty?: Database["public"]["Enums"]["difficulty_level"]
           id?: string
-          ingredients: string[]
-          instructions: string
+          import_batch_id?: string | null
+          ingredients: Json
+          instructions: Json
+          photos?: Json
           prep_time?: number | null
+          search_vector?: unknown | null
           servings?: number | null
           title: string
           updated_at?: string
@@ -70,37 +369,298 @@ export type Database = {
         Update: {
           cook_time?: number | null
           created_at?: string
-          cuisine?: Database["public"]["Enums"]["cuisine_type"]
+          cuisine?: string
+          deleted_at?: string | null
           difficulty?: Database["public"]["Enums"]["difficulty_level"]
           id?: string
-          ingredients?: string[]
-          instructions?: string
+          import_batch_id?: string | null
+          ingredients?: Json
+          instructions?: Json
+          photos?: Json
           prep_time?: number | null
+          search_vector?: unknown | null
           servings?: number | null
           title?: string
           updated_at?: string
           user_id?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "recipes_import_batch_id_fkey"
+            columns: ["import_batch_id"]
+            isOneToOne: false
+            referencedRelation: "import_batches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      saved_searches: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          query: Json
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          query?: Json
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          query?: Json
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      tags: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          user_id?: string
+        }
         Relationships: []
       }
     }
     Views: {
-      [_ in never]: never
+      active_recipes: {
+        Row: {
+          cook_time: number | null
+          created_at: string | null
+          cuisine: string | null
+          deleted_at: string | null
+          difficulty: Database["public"]["Enums"]["difficulty_level"] | null
+          id: string | null
+          import_batch_id: string | null
+          ingredients: Json | null
+          instructions: Json | null
+          photos: Json | null
+          prep_time: number | null
+          search_vector: unknown | null
+          servings: number | null
+          title: string | null
+          updated_at: string | null
+          user_id: string | null
+        }
+        Insert: {
+          cook_time?: number | null
+          created_at?: string | null
+          cuisine?: string | null
+          deleted_at?: string | null
+          difficulty?: Database["public"]["Enums"]["difficulty_level"] | null
+          id?: string | null
+          import_batch_id?: string | null
+          ingredients?: Json | null
+          instructions?: Json | null
+          photos?: Json | null
+          prep_time?: number | null
+          search_vector?: unknown | null
+          servings?: number | null
+          title?: string | null
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          cook_time?: number | null
+          created_at?: string | null
+          cuisine?: string | null
+          deleted_at?: string | null
+          difficulty?: Database["public"]["Enums"]["difficulty_level"] | null
+          id?: string | null
+          import_batch_id?: string | null
+          ingredients?: Json | null
+          instructions?: Json | null
+          photos?: Json | null
+          prep_time?: number | null
+          search_vector?: unknown | null
+          servings?: number | null
+          title?: string | null
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      recipe_cook_stats: {
+        Row: {
+          last_cooked: string | null
+          recipe_id: string | null
+          times_cooked: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cook_logs_recipe_id_fkey"
+            columns: ["recipe_id"]
+            isOneToOne: false
+            referencedRelation: "recipes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      trashed_recipes: {
+        Row: {
+          deleted_at: string | null
+          id: string | null
+          photos: Json | null
+          purge_at: string | null
+          title: string | null
+          user_id: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
-      [_ in never]: never
+      add_recipes_to_collection: {
+        Args: { p_collection_id: string; p_recipe_ids: string[] }
+        Returns: undefined
+      }
+      purge_trashed_recipes: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      recipe_ingredients_text: {
+        Args: { ingredients: Json }
+        Returns: string
+      }
+      recipe_instructions_text: {
+        Args: { instructions: Json }
+        Returns: string
+      }
+      recipe_revision_snapshot: {
+        Args: { p_recipe: Database["public"]["Tables"]["recipes"]["Row"] }
+        Returns: Json
+      }
+      recipe_total_time: {
+        Args: { recipe: Database["public"]["Tables"]["recipes"]["Row"] }
+        Returns: number
+      }
+      reorder_collection_recipes: {
+        Args: { p_collection_id: string; p_recipe_ids: string[] }
+        Returns: undefined
+      }
+      restore_recipe_revision: {
+        Args: { p_revision_id: string }
+        Returns: {
+          cook_time: number | null
+          created_at: string
+          cuisine: string
+          deleted_at: string | null
+          difficulty: Database["public"]["Enums"]["difficulty_level"]
+          id: string
+          import_batch_id: string | null
+          ingredients: Json
+          instructions: Json
+          photos: Json
+          prep_time: number | null
+          search_vector: unknown | null
+          servings: number | null
+          title: string
+          updated_at: string
+          user_id: string
+        }[]
+      }
+      rollback_import_batch: {
+        Args: { p_batch_id: string }
+        Returns: Json
+      }
+      saved_search_counts: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          recipe_count: number
+          saved_search_id: string
+        }[]
+      }
+      search_recipe_highlights: {
+        Args: { p_recipe_ids: string[]; p_search: string }
+        Returns: {
+          recipe_id: string
+          snippet: string
+          title: string
+        }[]
+      }
+      search_recipes: {
+        Args: {
+          p_ascending?: boolean
+          p_cuisine?: string
+          p_difficulty?: Database["public"]["Enums"]["difficulty_level"]
+          p_favorites_only?: boolean
+          p_match_all_tags?: boolean
+          p_min_rating?: number
+          p_search?: string
+          p_similarity?: number
+          p_sort?: Database["public"]["Enums"]["recipe_sort_key"]
+          p_tags?: string[]
+        }
+        Returns: {
+          cook_time: number | null
+          created_at: string
+          cuisine: string
+          deleted_at: string | null
+          difficulty: Database["public"]["Enums"]["difficulty_level"]
+          id: string
+          import_batch_id: string | null
+          ingredients: Json
+          instructions: Json
+          photos: Json
+          prep_time: number | null
+          search_vector: unknown | null
+          servings: number | null
+          title: string
+          updated_at: string
+          user_id: string
+        }[]
+      }
+      set_recipe_tags: {
+        Args: { p_recipe_id: string; p_tag_names: string[] }
+        Returns: {
+          created_at: string
+          id: string
+          name: string
+          user_id: string
+        }[]
+      }
+      snapshot_recipe_tags_edit: {
+        Args: { p_recipe_id: string }
+        Returns: undefined
+      }
+      suggest_recipe_search: {
+        Args: { p_search: string; p_similarity?: number }
+        Returns: string
+      }
     }
     Enums: {
-      cuisine_type:
-        | "italian"
-        | "mexican"
-        | "asian"
-        | "american"
-        | "french"
-        | "indian"
-        | "mediterranean"
-        | "other"
       difficulty_level: "easy" | "medium" | "hard"
+      measurement_system: "original" | "us" | "metric"
+      recipe_sort_key:
+        | "created_at"
+        | "updated_at"
+        | "title"
+        | "total_time"
+        | "difficulty"
+        | "rating"
+        | "last_cooked"
+        | "times_cooked"
+      recipe_view_mode: "grid" | "list" | "compact"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -228,17 +788,19 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      cuisine_type: [
-        "italian",
-        "mexican",
-        "asian",
-        "american",
-        "french",
-        "indian",
-        "mediterranean",
-        "other",
-      ],
       difficulty_level: ["easy", "medium", "hard"],
+      measurement_system: ["original", "us", "metric"],
+      recipe_sort_key: [
+        "created_at",
+        "updated_at",
+        "title",
+        "total_time",
+        "difficulty",
+        "rating",
+        "last_cooked",
+        "times_cooked",
+      ],
+      recipe_view_mode: ["grid", "list", "compact"],
     },
   },
 } as const
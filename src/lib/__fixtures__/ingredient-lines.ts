@@ -0,0 +1,94 @@
+import type { Ingredient } from '@/lib/ingredients';
+
+// Pasted ingredient lines and what the parser should make of them. `null`
+// means the line is kept as raw text.
+export const ingredientLineFixtures: Array<{ line: string; expected: Partial<Ingredient> | null }> = [
+  // Whole numbers, decimals and fractions
+  { line: '2 eggs', expected: { quantity: 2, unit: null, item: 'eggs' } },
+  { line: '1 cup sugar', expected: { quantity: 1, unit: 'cup', item: 'sugar' } },
+  { line: '1.5 cups water', expected: { quantity: 1.5, unit: 'cup', item: 'water' } },
+  { line: '2,5 dl cream', expected: { quantity: 2.5, unit: 'dl', item: 'cream' } },
+  { line: '1/2 tsp salt', expected: { quantity: 0.5, unit: 'tsp', item: 'salt' } },
+  { line: '1 1/2 cups finely chopped onions', expected: { quantity: 1.5, unit: 'cup', item: 'onions', note: 'finely chopped' } },
+  { line: '3/4 cup milk', expected: { quantity: 0.75, unit: 'cup', item: 'milk' } },
+  { line: '2/3 cup rolled oats', expected: { quantity: 0.6667, unit: 'cup', item: 'rolled oats' } },
+
+  // Unicode fractions
+  { line: '½ cup (120 ml) milk', expected: { quantity: 0.5, unit: 'cup', item: 'milk', note: '120 ml' } },
+  { line: '¼ tsp cayenne', expected: { quantity: 0.25, unit: 'tsp', item: 'cayenne' } },
+  { line: '1½ cups flour', expected: { quantity: 1.5, unit: 'cup', item: 'flour' } },
+  { line: '2 ¾ cups stock', expected: { quantity: 2.75, unit: 'cup', item: 'stock' } },
+  { line: '⅓ cup honey', expected: { quantity: 0.3333, unit: 'cup', item: 'honey' } },
+  { line: '1⁄2 lemon, juiced', expected: { quantity: 0.5, unit: null, item: 'lemon', note: 'juiced' } },
+
+  // Ranges
+  { line: '2-3 tbsp olive oil, divided', expected: { quantity: 2, quantity_max: 3, unit: 'tbsp', item: 'olive oil', note: 'divided' } },
+  { line: '2 – 3 cloves garlic', expected: { quantity: 2, quantity_max: 3, unit: 'clove', item: 'garlic' } },
+  { line: '4 to 6 chicken thighs', expected: { quantity: 4, quantity_max: 6, unit: null, item: 'chicken thighs' } },
+  { line: '1 or 2 bay leaves', expected: { quantity: 1, quantity_max: 2, unit: null, item: 'bay leaves' } },
+  { line: '1/2-1 tsp chilli flakes', expected: { quantity: 0.5, quantity_max: 1, unit: 'tsp', item: 'chilli flakes' } },
+
+  // Unit aliases and case-sensitive abbreviations
+  { line: '1 T butter', expected: { quantity: 1, unit: 'tbsp', item: 'butter' } },
+  { line: '1 t baking soda', expected: { quantity: 1, unit: 'tsp', item: 'baking soda' } },
+  { line: '2 Tbsp. soy sauce', expected: { quantity: 2, unit: 'tbsp', item: 'soy sauce' } },
+  { line: '3 tablespoons lemon juice', expected: { quantity: 3, unit: 'tbsp', item: 'lemon juice' } },
+  { line: '500g beef mince', expected: { quantity: 500, unit: 'g', item: 'beef mince' } },
+  { line: '250 ml double cream', expected: { quantity: 250, unit: 'ml', item: 'double cream' } },
+  { line: '1 kg potatoes, peeled', expected: { quantity: 1, unit: 'kg', item: 'potatoes', note: 'peeled' } },
+  { line: '8 oz cream cheese, softened', expected: { quantity: 8, unit: 'oz', item: 'cream cheese', note: 'softened' } },
+  { line: '2 lbs chicken wings', expected: { quantity: 2, unit: 'lb', item: 'chicken wings' } },
+  { line: '1 fl oz bourbon', expected: { quantity: 1, unit: 'fl oz', item: 'bourbon' } },
+  { line: '1 litre vegetable stock', expected: { quantity: 1, unit: 'l', item: 'vegetable stock' } },
+  { line: '2 cups of rice', expected: { quantity: 2, unit: 'cup', item: 'rice' } },
+  { line: '1 bunch coriander', expected: { quantity: 1, unit: 'bunch', item: 'coriander' } },
+  { line: '2 sprigs rosemary', expected: { quantity: 2, unit: 'sprig', item: 'rosemary' } },
+  { line: '2 sticks butter', expected: { quantity: 2, unit: 'stick', item: 'butter' } },
+
+  // Parenthetical sizes
+  { line: '2 (14 oz) cans chickpeas, drained', expected: { quantity: 2, unit: 'can', item: 'chickpeas', note: '14 oz, drained' } },
+  { line: '1 can (400 g) chopped tomatoes', expected: { quantity: 1, unit: 'can', item: 'tomatoes', note: 'chopped, 400 g' } },
+  { line: '3 large eggs (room temperature)', expected: { quantity: 3, unit: null, item: 'large eggs', note: 'room temperature' } },
+
+  // Number words
+  { line: 'two eggs', expected: { quantity: 2, unit: null, item: 'eggs' } },
+  { line: 'One onion, diced', expected: { quantity: 1, unit: null, item: 'onion', note: 'diced' } },
+  { line: 'a pinch of salt', expected: { quantity: 1, unit: 'pinch', item: 'salt' } },
+  { line: 'a cup of milk', expected: { quantity: 1, unit: 'cup', item: 'milk' } },
+  { line: 'an ounce of gin', expected: { quantity: 1, unit: 'oz', item: 'gin' } },
+  { line: 'half lemon', expected: { quantity: 0.5, unit: null, item: 'lemon' } },
+  { line: 'A few sprigs thyme', expected: { quantity: null, unit: null, item: 'A few sprigs thyme' } },
+  { line: 'an apple', expected: { quantity: null, unit: null, item: 'an apple' } },
+  { line: 'half-and-half, 1 cup', expected: { quantity: null, unit: null, item: 'half-and-half', note: '1 cup' } },
+  { line: 'halloumi, sliced', expected: { quantity: null, unit: null, item: 'halloumi', note: 'sliced' } },
+
+  // Units without an amount
+  { line: 'pinch of nutmeg', expected: { quantity: 1, unit: 'pinch', item: 'nutmeg' } },
+  { line: 'dash Worcestershire sauce', expected: { quantity: 1, unit: 'dash', item: 'Worcestershire sauce' } },
+  { line: 'Handful of basil leaves', expected: { quantity: 1, unit: 'handful', item: 'basil leaves' } },
+
+  // Notes, preparation and serving phrases
+  { line: '1 onion, finely diced', expected: { quantity: 1, unit: null, item: 'onion', note: 'finely diced' } },
+  { line: '2 cloves garlic, minced', expected: { quantity: 2, unit: 'clove', item: 'garlic', note: 'minced' } },
+  { line: '2 tbsp chopped parsley', expected: { quantity: 2, unit: 'tbsp', item: 'parsley', note: 'chopped' } },
+  { line: '100 g freshly grated parmesan', expected: { quantity: 100, unit: 'g', item: 'parmesan', note: 'freshly grated' } },
+  { line: 'Salt and pepper to taste', expected: { quantity: null, unit: null, item: 'Salt and pepper', note: 'to taste' } },
+  { line: 'Olive oil, for frying', expected: { quantity: null, unit: null, item: 'Olive oil', note: 'for frying' } },
+  { line: 'Lemon wedges, for serving', expected: { quantity: null, unit: null, item: 'Lemon wedges', note: 'for serving' } },
+  { line: 'Water as needed', expected: { quantity: null, unit: null, item: 'Water', note: 'as needed' } },
+
+  // Optional ingredients
+  { line: '1 tsp vanilla extract (optional)', expected: { quantity: 1, unit: 'tsp', item: 'vanilla extract', optional: true } },
+  { line: '2 tbsp capers, optional', expected: { quantity: 2, unit: 'tbsp', item: 'capers', optional: true } },
+  { line: 'Optional: 1 chilli', expected: { quantity: 1, unit: null, item: 'chilli', optional: true } },
+
+  // Bullets and stray whitespace
+  { line: '- 2 carrots', expected: { quantity: 2, unit: null, item: 'carrots' } },
+  { line: '• 1 cup peas', expected: { quantity: 1, unit: 'cup', item: 'peas' } },
+  { line: '[ ] 3 tomatoes', expected: { quantity: 3, unit: null, item: 'tomatoes' } },
+  { line: '   1   cup   broth  ', expected: { quantity: 1, unit: 'cup', item: 'broth' } },
+
+  // Nothing to go on
+  { line: '', expected: null },
+  { line: '12345', expected: null }
+];
@@ -0,0 +1,368 @@
+import { z } from 'zod';
+import { supabase } from '@/integrations/supabase/client';
+import { Constants } from '@/integrations/supabase/types';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import { parseIngredientLine } from '@/lib/ingredient-parser';
+import { Ingredient, toIngredients } from '@/lib/ingredients';
+import { InstructionStep, emptyStep, toSteps } from '@/lib/instructions';
+import { removePhotos, toPhotos } from '@/lib/photos';
+import { EXPORT_FORMAT, EXPORT_VERSION } from '@/lib/recipe-export';
+import { parseTime } from '@/lib/recipe-text';
+import { RecipeInput, normalizeTags } from '@/lib/recipes';
+
+type Cuisine = Tables<'cuisines'>;
+
+export type ImportBatch = Tables<'import_batches'>;
+export type ImportSource = 'csv' | 'json' | 'paprika' | 'mealmaster' | 'cooklang';
+
+// Recipes go in a few at a time so progress can be shown and a failure loses little
+export const IMPORT_CHUNK_SIZE = 25;
+
+export type ImportField =
+  | 'title'
+  | 'cuisine'
+  | 'difficulty'
+  | 'prep_time'
+  | 'cook_time'
+  | 'servings'
+  | 'ingredients'
+  | 'instructions'
+  | 'tags';
+
+export const importFieldLabels: Record<ImportField, string> = {
+  title: 'Title',
+  cuisine: 'Cuisine',
+  difficulty: 'Difficulty',
+  prep_time: 'Prep time',
+  cook_time: 'Cook time',
+  servings: 'Servings',
+  ingredients: 'Ingredients',
+  instructions: 'Instructions',
+  tags: 'Tags'
+};
+
+export const REQUIRED_IMPORT_FIELDS: ImportField[] = ['title', 'ingredients', 'instructions'];
+
+// Index of the CSV column each field is read from, null when it isn't imported
+export type ColumnMapping = Record<ImportField, number | null>;
+
+// Column headings commonly used for each field, compared without case or punctuation
+const columnAliases: Record<ImportField, string[]> = {
+  title: ['title', 'name', 'recipe', 'recipename', 'recipetitle'],
+  cuisine: ['cuisine', 'cuisinetype', 'origin'],
+  difficulty: ['difficulty', 'level', 'skill'],
+  prep_time: ['preptime', 'prep', 'preparationtime', 'prepminutes'],
+  cook_time: ['cooktime', 'cook', 'cookingtime', 'baketime', 'cookminutes'],
+  servings: ['servings', 'serves', 'yield', 'portions'],
+  ingredients: ['ingredients', 'ingredient', 'ingredientlist'],
+  instructions: ['instructions', 'directions', 'method', 'steps', 'preparation'],
+  tags: ['tags', 'tag', 'keywords', 'categories', 'category', 'labels']
+};
+
+const headingKey = (heading: string) => heading.toLowerCase().replace(/[^a-z]/g, '');
+
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const keys = headers.map(headingKey);
+  return Object.fromEntries(
+    (Object.keys(columnAliases) as ImportField[]).map(field => {
+      const index = keys.findIndex(key => columnAliases[field].includes(key));
+      return [field, index === -1 ? null : index];
+    })
+  ) as ColumnMapping;
+};
+
+// A recipe as read from the file, before anything is checked. Importers for other
+// apps list what they found but had nowhere to put in `unmapped` ("Notes", "Source")
+export type RawRecipe = Partial<Record<ImportField | 'cuisine_name', unknown>> & {
+  unmapped?: string[];
+};
+
+export const rawRecipesFromCsv = (rows: string[][], mapping: ColumnMapping): RawRecipe[] =>
+  rows.map(row =>
+    Object.fromEntries(
+      (Object.entries(mapping) as [ImportField, number | null][])
+        .filter(([, index]) => index !== null)
+        .map(([field, index]) => [field, row[index as number]])
+    )
+  );
+
+const exportFileSchema = z.union([
+  z.array(z.record(z.unknown())),
+  z.object({
+    format: z.literal(EXPORT_FORMAT),
+    version: z.number().int(),
+    recipes: z.array(z.record(z.unknown()))
+  })
+]);
+
+// Reads a file made by "Export > JSON", or a plain array of recipe objects
+export const rawRecipesFromJson = (text: string): RawRecipe[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not valid JSON');
+  }
+
+  const parsed = exportFileSchema.safeParse(data);
+  if (!parsed.success) throw new Error('This JSON file does not contain recipes exported from this app');
+  if (Array.isArray(parsed.data)) return parsed.data;
+  if (parsed.data.version > EXPORT_VERSION) {
+    throw new Error('This file was exported by a newer version of the app');
+  }
+  return parsed.data.recipes;
+};
+
+const isBlank = (value: unknown) =>
+  value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+
+// Lines of a spreadsheet cell; some sheets separate them with "|" rather than line breaks
+const cellLines = (value: string) =>
+  value
+    .split(/\r?\n|\s\|\s/)
+    .map(line => line.trim())
+    .filter(Boolean);
+
+// Plain numbers are minutes; "1 hr 15 min" and the like are read as well
+const toMinutes = (value: unknown) => {
+  if (isBlank(value)) return null;
+  if (typeof value !== 'string') return value;
+  const text = value.trim();
+  return /^-?\d+(\.\d+)?$/.test(text) ? Number(text) : parseTime(text) ?? NaN;
+};
+
+const minutesSchema = z.preprocess(
+  toMinutes,
+  z.number({ invalid_type_error: 'must be minutes, such as 45 or "1 hr 15 min"' })
+    .int('must be whole minutes')
+    .nonnegative('cannot be negative')
+    .nullable()
+);
+
+const toIngredientList = (value: unknown): Ingredient[] | unknown => {
+  if (typeof value === 'string') return cellLines(value).map(line => parseIngredientLine(line).ingredient);
+  if (!Array.isArray(value)) return isBlank(value) ? [] : value;
+  return value.flatMap(entry =>
+    typeof entry === 'string' ? [parseIngredientLine(entry).ingredient] : toIngredients([entry as Json])
+  );
+};
+
+const toStepList = (value: unknown): InstructionStep[] | unknown => {
+  if (typeof value === 'string') {
+    return cellLines(value).map(line => ({ ...emptyStep(), text: line.replace(/^(?:step\s*)?\d+\s*[.):]\s+/i, '') }));
+  }
+  if (!Array.isArray(value)) return isBlank(value) ? [] : value;
+  return toSteps(value as Json);
+};
+
+const toTagList = (value: unknown) => {
+  if (typeof value === 'string') return normalizeTags(value.split(/[,;|]/));
+  if (Array.isArray(value)) return normalizeTags(value.filter((tag): tag is string => typeof tag === 'string'));
+  return isBlank(value) ? [] : value;
+};
+
+// Words other apps and spreadsheets use for our three levels
+const difficultySynonyms: Record<string, string> = {
+  simple: 'easy',
+  beginner: 'easy',
+  moderate: 'medium',
+  intermediate: 'medium',
+  normal: 'medium',
+  difficult: 'hard',
+  advanced: 'hard',
+  challenging: 'hard'
+};
+
+// One of our difficulty levels, or null when the text doesn't name one
+export const readDifficulty = (text: string) => {
+  const key = text.trim().toLowerCase();
+  const level = difficultySynonyms[key] ?? key;
+  return Constants.public.Enums.difficulty_level.find(value => value === level) ?? null;
+};
+
+const toDifficulty = (value: unknown) => {
+  if (isBlank(value)) return 'medium';
+  if (typeof value !== 'string') return value;
+  return readDifficulty(value) ?? value;
+};
+
+// Same checks the database and the recipe form make, plus resolving the cuisine
+// against the user's own list
+const recipeSchema = (cuisines: Cuisine[]) => {
+  const findCuisine = (text: string) => {
+    const key = text.trim().toLowerCase();
+    return cuisines.find(cuisine => cuisine.slug === key || cuisine.name.toLowerCase() === key);
+  };
+
+  return z.object({
+    title: z.preprocess(
+      value => (typeof value === 'string' ? value.trim() : value),
+      z.string({ required_error: 'is required', invalid_type_error: 'must be text' }).min(1, 'is required')
+    ),
+    cuisine: z.unknown().transform((value, ctx) => {
+      if (isBlank(value)) return 'other';
+      const cuisine = typeof value === 'string' ? findCuisine(value) : undefined;
+      if (!cuisine) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `"${String(value)}" is not one of your cuisines` });
+        return z.NEVER;
+      }
+      return cuisine.slug;
+    }),
+    difficulty: z.preprocess(
+      toDifficulty,
+      z.enum(Constants.public.Enums.difficulty_level, {
+        errorMap: () => ({ message: 'must be easy, medium or hard' })
+      })
+    ),
+    prep_time: minutesSchema,
+    cook_time: minutesSchema,
+    servings: z.preprocess(
+      // "4 servings" and "4-6" count as 4
+      value => (isBlank(value) ? null : typeof value === 'string' ? Number(value.trim().match(/^\d+/)?.[0] ?? NaN) : value),
+      z.number({ invalid_type_error: 'must be a number' }).int('must be a whole number').positive('must be at least 1').nullable()
+    ),
+    ingredients: z.preprocess(toIngredientList, z.array(z.custom<Ingredient>()).min(1, 'at least one is required')),
+    instructions: z.preprocess(toStepList, z.array(z.custom<InstructionStep>()).min(1, 'at least one step is required')),
+    tags: z.preprocess(toTagList, z.array(z.string(), { invalid_type_error: 'must be a list of tags' }))
+  });
+};
+
+export interface ImportRow {
+  // 1-based, counting data rows, so it matches what the user sees in their spreadsheet after the header
+  row: number;
+  title: string;
+  recipe: RecipeInput | null;
+  errors: string[];
+  // Same title as a recipe already in the library, or as an earlier row of the file
+  duplicate: 'library' | 'file' | null;
+  unmapped: string[];
+}
+
+const titleKey = (title: string) => title.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// The dry run: checks every row without saving anything
+export const validateRecipes = (raws: RawRecipe[], cuisines: Cuisine[], existingTitles: string[]): ImportRow[] => {
+  const schema = recipeSchema(cuisines);
+  const library = new Set(existingTitles.map(titleKey));
+  const seen = new Set<string>();
+
+  return raws.map((raw, index) => {
+    // Exported files carry the cuisine's name as well, for libraries where the slug differs
+    const input = !isBlank(raw.cuisine_name) && typeof raw.cuisine === 'string' && !cuisines.some(c => c.slug === raw.cuisine)
+      ? { ...raw, cuisine: raw.cuisine_name }
+      : raw;
+    const result = schema.safeParse(input);
+    const title = typeof raw.title === 'string' ? raw.title.trim() : '';
+    const key = titleKey(title);
+    const duplicate = !key ? null : library.has(key) ? 'library' : seen.has(key) ? 'file' : null;
+    if (key) seen.add(key);
+
+    return {
+      row: index + 1,
+      title,
+      // Without strictNullChecks zod infers every field as optional, though all are set here
+      recipe: result.success ? { ...(result.data as Omit<RecipeInput, 'photos'>), photos: [] } : null,
+      errors: result.success
+        ? []
+        : result.error.issues.map(issue => {
+            const field = issue.path[0] as ImportField | undefined;
+            return field ? `${importFieldLabels[field]} ${issue.message}` : issue.message;
+          }),
+      duplicate,
+      unmapped: raw.unmapped ?? []
+    };
+  });
+};
+
+// The API returns at most this many rows per request
+const TITLE_PAGE_SIZE = 1000;
+
+// Titles of the recipes the user already has, for spotting duplicates
+export const fetchRecipeTitles = async (userId: string) => {
+  const titles: string[] = [];
+
+  for (let from = 0; ; from += TITLE_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('recipes')
+      .select('title')
+      .eq('user_id', userId)
+      .is('deleted_at', null)
+      // A stable order so no recipe lands on two pages or none
+      .order('id')
+      .range(from, from + TITLE_PAGE_SIZE - 1);
+
+    if (error) throw error;
+    titles.push(...data.map(recipe => recipe.title));
+    if (data.length < TITLE_PAGE_SIZE) break;
+  }
+
+  return titles;
+};
+
+export const fetchImportBatches = async () => {
+  const { data, error } = await supabase
+    .from('import_batches')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data;
+};
+
+export const createImportBatch = async (source: ImportSource, fileName: string | null, userId: string) => {
+  const { data, error } = await supabase
+    .from('import_batches')
+    .insert({ source, file_name: fileName, user_id: userId })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+// Inserts the recipes into the batch chunk by chunk. If a chunk fails the batch
+// is left incomplete with what made it in, so it can still be rolled back.
+export const importRecipes = async (
+  batch: ImportBatch,
+  recipes: RecipeInput[],
+  userId: string,
+  onProgress: (imported: number) => void
+) => {
+  let imported = 0;
+
+  for (let start = 0; start < recipes.length; start += IMPORT_CHUNK_SIZE) {
+    const chunk = recipes.slice(start, start + IMPORT_CHUNK_SIZE);
+    const { data, error } = await supabase
+      .from('recipes')
+      .insert(chunk.map(({ tags: _tags, ...recipe }) => ({ ...recipe, user_id: userId, import_batch_id: batch.id })))
+      .select('id');
+    if (error) throw error;
+
+    // Rows come back in the order they were sent
+    const tagged = data.map((row, index) => ({ id: row.id, tags: chunk[index].tags })).filter(row => row.tags.length > 0);
+    const results = await Promise.all(tagged.map(row =>
+      supabase.rpc('set_recipe_tags', { p_recipe_id: row.id, p_tag_names: row.tags })
+    ));
+    const tagsError = results.find(result => result.error)?.error;
+    if (tagsError) throw tagsError;
+
+    imported += data.length;
+    await supabase.from('import_batches').update({ recipe_count: imported }).eq('id', batch.id);
+    onProgress(imported);
+  }
+
+  const { error } = await supabase
+    .from('import_batches')
+    .update({ recipe_count: imported, completed_at: new Date().toISOString() })
+    .eq('id', batch.id);
+  if (error) throw error;
+
+  return imported;
+};
+
+// Deletes every recipe the import added, then their photos
+export const rollbackImportBatch = async (batchId: string) => {
+  const { data, error } = await supabase.rpc('rollback_import_batch', { p_batch_id: batchId });
+  if (error) throw error;
+  await removePhotos(toPhotos(data)).catch(() => undefined);
+};
@@ -0,0 +1,132 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { RecipePhoto, removePhotos, toPhotos } from '@/lib/photos';
+import { RECIPE_SELECT, RecipeRow, toRecipe } from '@/lib/recipes';
+
+export type Collection = Omit<Tables<'collections'>, 'cover_photo'> & {
+  cover_photo: RecipePhoto | null;
+  recipe_count: number;
+};
+
+export type CollectionInput = Pick<Collection, 'name' | 'description' | 'cover_photo'>;
+
+// Embeds whether each recipe in the collection is trashed, so the count
+// leaves out the ones `fetchCollectionRecipes` hides
+const COLLECTION_SELECT = '*, collection_recipes(recipes(deleted_at))';
+
+type CollectionRow = Tables<'collections'> & {
+  collection_recipes?: { recipes: Pick<Tables<'recipes'>, 'deleted_at'> | null }[];
+};
+
+const toCollection = ({ collection_recipes, ...row }: CollectionRow): Collection => ({
+  ...row,
+  cover_photo: toPhotos(row.cover_photo ? [row.cover_photo] : [])[0] ?? null,
+  recipe_count: (collection_recipes ?? []).filter(entry => entry.recipes && !entry.recipes.deleted_at).length
+});
+
+export const fetchCollections = async () => {
+  const { data, error } = await supabase
+    .from('collections')
+    .select(COLLECTION_SELECT)
+    .order('name')
+    .returns<CollectionRow[]>();
+
+  if (error) throw error;
+  return data.map(toCollection);
+};
+
+export const fetchCollection = async (id: string) => {
+  const { data, error } = await supabase
+    .from('collections')
+    .select(COLLECTION_SELECT)
+    .eq('id', id)
+    .returns<CollectionRow[]>()
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? toCollection(data) : null;
+};
+
+// The collection's recipes in their manual order
+export const fetchCollectionRecipes = async (collectionId: string) => {
+  const { data, error } = await supabase
+    .from('collection_recipes')
+    .select(`position, recipes(${RECIPE_SELECT})`)
+    .eq('collection_id', collectionId)
+    // Trashed recipes keep their place, in case they are restored, but aren't shown
+    .is('recipes.deleted_at', null)
+    .order('position')
+    .returns<{ position: number; recipes: RecipeRow | null }[]>();
+
+  if (error) throw error;
+  return data.flatMap(entry => (entry.recipes ? [toRecipe(entry.recipes)] : []));
+};
+
+export const saveCollection = async (input: CollectionInput, userId: string, existing?: Collection) => {
+  const values = {
+    name: input.name.trim(),
+    description: input.description?.trim() || null,
+    cover_photo: input.cover_photo,
+    user_id: userId
+  };
+  const query = existing
+    ? supabase.from('collections').update(values).eq('id', existing.id)
+    : supabase.from('collections').insert(values);
+
+  const { data, error } = await query.select(COLLECTION_SELECT).returns<CollectionRow[]>().single();
+  if (error) throw error;
+
+  // A replaced cover is only deleted once the collection no longer points at it
+  if (existing?.cover_photo && existing.cover_photo.path !== input.cover_photo?.path) {
+    await removePhotos([existing.cover_photo]).catch(() => undefined);
+  }
+
+  return toCollection(data);
+};
+
+export const deleteCollection = async (collection: Collection) => {
+  const { error } = await supabase
+    .from('collections')
+    .delete()
+    .eq('id', collection.id);
+
+  if (error) throw error;
+  if (collection.cover_photo) await removePhotos([collection.cover_photo]).catch(() => undefined);
+};
+
+// Ids of the collections a recipe belongs to
+export const fetchRecipeCollectionIds = async (recipeId: string) => {
+  const { data, error } = await supabase
+    .from('collection_recipes')
+    .select('collection_id')
+    .eq('recipe_id', recipeId);
+
+  if (error) throw error;
+  return data.map(entry => entry.collection_id);
+};
+
+export const addRecipeToCollection = async (collectionId: string, recipeId: string) => {
+  const { error } = await supabase.rpc('add_recipes_to_collection', {
+    p_collection_id: collectionId,
+    p_recipe_ids: [recipeId]
+  });
+  if (error) throw error;
+};
+
+export const removeRecipeFromCollection = async (collectionId: string, recipeId: string) => {
+  const { error } = await supabase
+    .from('collection_recipes')
+    .delete()
+    .eq('collection_id', collectionId)
+    .eq('recipe_id', recipeId);
+
+  if (error) throw error;
+};
+
+export const reorderCollectionRecipes = async (collectionId: string, recipeIds: string[]) => {
+  const { error } = await supabase.rpc('reorder_collection_recipes', {
+    p_collection_id: collectionId,
+    p_recipe_ids: recipeIds
+  });
+  if (error) throw error;
+};
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { convertIngredient, convertTemperatures, findDensity } from '@/lib/conversion';
+import { Ingredient, emptyIngredient } from '@/lib/ingredients';
+
+const ingredient = (quantity: number, unit: string, item: string): Ingredient => ({
+  ...emptyIngredient(),
+  quantity,
+  unit,
+  item
+});
+
+describe('convertIngredient', () => {
+  it('weighs dry ingredients measured by volume for metric cooks', () => {
+    expect(convertIngredient(ingredient(1, 'cup', 'flour'), 'metric')).toMatchObject({ unit: 'g' });
+  });
+
+  it('measures weighed ingredients by volume for US cooks', () => {
+    expect(convertIngredient(ingredient(200, 'g', 'sugar'), 'us')).toMatchObject({ unit: 'cup' });
+  });
+
+  it('leaves amounts already in the preferred system alone', () => {
+    const butter = ingredient(1, 'lb', 'butter');
+    const chips = ingredient(8, 'oz', 'chocolate chips');
+    expect(convertIngredient(butter, 'us')).toBe(butter);
+    expect(convertIngredient(chips, 'us')).toBe(chips);
+  });
+
+  it('never converts spoon measures', () => {
+    const salt = ingredient(1, 'tsp', 'salt');
+    expect(convertIngredient(salt, 'metric')).toBe(salt);
+  });
+});
+
+describe('findDensity', () => {
+  it('matches whole words only', () => {
+    expect(findDensity('boiled potatoes')).toBeUndefined();
+    expect(findDensity('goats cheese')).toBeUndefined();
+    expect(findDensity('olive oil')?.gramsPerMl).toBe(0.92);
+    expect(findDensity('Rolled Oats')?.gramsPerMl).toBe(0.38);
+  });
+
+  it('prefers the more specific keyword', () => {
+    expect(findDensity('brown sugar')?.gramsPerMl).toBe(0.93);
+  });
+});
+
+describe('convertTemperatures', () => {
+  it('converts the ways temperatures are written', () => {
+    expect(convertTemperatures('Bake at 350°F', 'metric')).toBe('Bake at 175°C');
+    expect(convertTemperatures('Bake at 400 F', 'metric')).toBe('Bake at 205°C');
+    expect(convertTemperatures('Heat to 180 degrees C', 'us')).toBe('Heat to 350°F');
+    expect(convertTemperatures('Roast at 220C', 'us')).toBe('Roast at 425°F');
+  });
+
+  it('leaves temperatures already in the preferred scale alone', () => {
+    expect(convertTemperatures('Bake at 350°F', 'us')).toBe('Bake at 350°F');
+  });
+});
@@ -0,0 +1,127 @@
+import type { Enums } from '@/integrations/supabase/types';
+import { Ingredient } from '@/lib/ingredients';
+import { promoteUnit, roundQuantity } from '@/lib/scaling';
+import { getUnit } from '@/lib/units';
+
+export type MeasurementSystem = Enums<'measurement_system'>;
+
+export const measurementSystemLabels: Record<MeasurementSystem, string> = {
+  original: 'As written',
+  us: 'US customary',
+  metric: 'Metric'
+};
+
+interface Density {
+  keywords: string[];
+  // Grams per millilitre
+  gramsPerMl: number;
+  // Metric cooks weigh these rather than measuring by volume
+  weighInMetric: boolean;
+}
+
+// Longer, more specific keywords are listed before the generic ones they contain
+const densities: Density[] = [
+  { keywords: ['almond flour', 'almond meal'], gramsPerMl: 0.41, weighInMetric: true },
+  { keywords: ['bread flour'], gramsPerMl: 0.55, weighInMetric: true },
+  { keywords: ['whole wheat flour', 'wholemeal flour'], gramsPerMl: 0.51, weighInMetric: true },
+  { keywords: ['cornstarch', 'cornflour', 'corn starch'], gramsPerMl: 0.54, weighInMetric: true },
+  { keywords: ['flour'], gramsPerMl: 0.53, weighInMetric: true },
+  { keywords: ['brown sugar'], gramsPerMl: 0.93, weighInMetric: true },
+  { keywords: ['powdered sugar', 'icing sugar', "confectioners' sugar", 'confectioners sugar'], gramsPerMl: 0.51, weighInMetric: true },
+  { keywords: ['sugar'], gramsPerMl: 0.85, weighInMetric: true },
+  { keywords: ['butter'], gramsPerMl: 0.96, weighInMetric: true },
+  { keywords: ['cocoa'], gramsPerMl: 0.42, weighInMetric: true },
+  { keywords: ['chocolate chips'], gramsPerMl: 0.72, weighInMetric: true },
+  { keywords: ['rolled oats', 'oats'], gramsPerMl: 0.38, weighInMetric: true },
+  { keywords: ['rice'], gramsPerMl: 0.78, weighInMetric: true },
+  { keywords: ['parmesan'], gramsPerMl: 0.42, weighInMetric: true },
+  { keywords: ['honey', 'maple syrup', 'golden syrup'], gramsPerMl: 1.42, weighInMetric: false },
+  { keywords: ['salt'], gramsPerMl: 1.22, weighInMetric: false },
+  { keywords: ['milk', 'cream', 'buttermilk'], gramsPerMl: 1.03, weighInMetric: false },
+  { keywords: ['oil'], gramsPerMl: 0.92, weighInMetric: false },
+  { keywords: ['water', 'stock', 'broth'], gramsPerMl: 1, weighInMetric: false }
+];
+
+// Whole words only, so "boiled potatoes" isn't oil and "goats cheese" isn't oats
+const densityPatterns = densities.map(density => ({
+  density,
+  pattern: new RegExp(`\\b(?:${density.keywords.join('|')})s?\\b`, 'i')
+}));
+
+export const findDensity = (item: string) =>
+  densityPatterns.find(({ pattern }) => pattern.test(item))?.density;
+
+// Spoon measures are used as-is in metric kitchens, so they are never converted
+const spoonUnits = new Set(['tsp', 'tbsp', 'pinch', 'dash']);
+
+const targetUnit = (kind: 'volume' | 'mass', system: Exclude<MeasurementSystem, 'original'>) => {
+  if (system === 'metric') return kind === 'volume' ? 'ml' : 'g';
+  return kind === 'volume' ? 'tsp' : 'oz';
+};
+
+/**
+ * Converts an ingredient amount into the preferred system, going through the
+ * ingredient's density when the natural unit there measures a different kind
+ * (cups of flour become grams; grams of sugar become cups).
+ */
+export const convertIngredient = (ingredient: Ingredient, system: MeasurementSystem): Ingredient => {
+  const unit = getUnit(ingredient.unit);
+  if (system === 'original' || ingredient.quantity === null || !unit?.base) return ingredient;
+  // Amounts already written in the preferred system are left as the cook measured them
+  if (spoonUnits.has(unit.id) || unit.system === system) return ingredient;
+
+  const density = findDensity(ingredient.item);
+  let kind = unit.kind as 'volume' | 'mass';
+  let factor = unit.base;
+
+  if (system === 'metric' && kind === 'volume' && density?.weighInMetric) {
+    kind = 'mass';
+    factor *= density.gramsPerMl;
+  } else if (system === 'us' && kind === 'mass' && density) {
+    kind = 'volume';
+    factor /= density.gramsPerMl;
+  }
+
+  const target = targetUnit(kind, system);
+  const promoted = promoteUnit(ingredient.quantity * factor / getUnit(target)!.base!, target);
+  const ratio = promoted.quantity / ingredient.quantity;
+
+  return {
+    ...ingredient,
+    quantity: roundQuantity(promoted.quantity, promoted.unit),
+    quantity_max: ingredient.quantity_max !== null
+      ? roundQuantity(ingredient.quantity_max * ratio, promoted.unit)
+      : null,
+    unit: promoted.unit
+  };
+};
+
+export const convertIngredients = (ingredients: Ingredient[], system: MeasurementSystem) =>
+  ingredients.map(ingredient => convertIngredient(ingredient, system));
+
+// "350°F", "180 degrees C", "200 Celsius" or a bare "220C" / "400 F"
+const temperaturePattern =
+  /(\d{2,3})\s*(?:°|º|degrees?\s*)\s*(F|C|Fahrenheit|Celsius)\b|(\d{2,3})\s*(Fahrenheit|Celsius)\b|(\d{3})\s?([FC])\b/gi;
+
+const roundTo = (value: number, step: number) => Math.round(value / step) * step;
+
+// Rewrites oven temperatures in instruction text ("bake at 350°F") into the preferred scale
+export const convertTemperatures = (text: string, system: MeasurementSystem) => {
+  if (system === 'original') return text;
+
+  return text.replace(temperaturePattern, (match, ...groups: string[]) => {
+    const [degrees, scale] = [groups[0] ?? groups[2] ?? groups[4], groups[1] ?? groups[3] ?? groups[5]];
+    const isFahrenheit = scale[0].toUpperCase() === 'F';
+    const value = Number(degrees);
+
+    if (system === 'metric' && isFahrenheit) {
+      return `${roundTo((value - 32) * 5 / 9, 5)}°C`;
+    }
+    if (system === 'us' && !isFahrenheit) {
+      // Oven dials in Fahrenheit go in 25° steps
+      const fahrenheit = value * 9 / 5 + 32;
+      return `${roundTo(fahrenheit, fahrenheit >= 200 ? 25 : 5)}°F`;
+    }
+    return match;
+  });
+};
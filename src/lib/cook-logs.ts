@@ -0,0 +1,59 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { RecipePhoto, removePhotos, toPhotos } from '@/lib/photos';
+
+export type CookLog = Omit<Tables<'cook_logs'>, 'photo'> & {
+  photo: RecipePhoto | null;
+};
+
+export type CookLogInput = Pick<CookLog, 'cooked_on' | 'notes' | 'rating' | 'photo' | 'servings'>;
+
+const toCookLog = (row: Tables<'cook_logs'>): CookLog => ({
+  ...row,
+  photo: toPhotos(row.photo ? [row.photo] : [])[0] ?? null
+});
+
+// Today as YYYY-MM-DD in the user's own time zone, the format of `cooked_on`
+export const today = () => {
+  const now = new Date();
+  return new Date(now.getTime() - now.getTimezoneOffset() * 60_000).toISOString().slice(0, 10);
+};
+
+// Newest first
+export const fetchCookLogs = async (recipeId: string) => {
+  const { data, error } = await supabase
+    .from('cook_logs')
+    .select('*')
+    .eq('recipe_id', recipeId)
+    .order('cooked_on', { ascending: false })
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data.map(toCookLog);
+};
+
+export const addCookLog = async (input: CookLogInput, recipeId: string, userId: string) => {
+  const { data, error } = await supabase
+    .from('cook_logs')
+    .insert({
+      ...input,
+      notes: input.notes?.trim() || null,
+      recipe_id: recipeId,
+      user_id: userId
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return toCookLog(data);
+};
+
+export const deleteCookLog = async (log: CookLog) => {
+  const { error } = await supabase
+    .from('cook_logs')
+    .delete()
+    .eq('id', log.id);
+
+  if (error) throw error;
+  if (log.photo) await removePhotos([log.photo]).catch(() => undefined);
+};
@@ -0,0 +1,54 @@
+const DELIMITERS = [',', ';', '\t'];
+
+// Spreadsheets exported in some locales use ";" or tabs; whichever splits the header most wins
+export const detectDelimiter = (text: string) => {
+  const header = text.slice(0, text.search(/\r?\n|$/));
+  return DELIMITERS.reduce((best, delimiter) =>
+    header.split(delimiter).length > header.split(best).length ? delimiter : best
+  );
+};
+
+// Parses RFC 4180 CSV: quoted fields may hold the delimiter, line breaks and "" for a quote.
+// Rows with nothing in them are dropped.
+export const parseCsv = (input: string, delimiter = detectDelimiter(input)) => {
+  const text = input.replace(/^\uFEFF/, '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some(value => value.trim() !== '')) rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) endRow();
+
+  return rows;
+};
@@ -0,0 +1,181 @@
+import { RawRecipe, readDifficulty } from '@/lib/bulk-import';
+import { parseQuantity } from '@/lib/ingredient-parser';
+import { Ingredient, emptyIngredient } from '@/lib/ingredients';
+import { InstructionStep, emptyStep } from '@/lib/instructions';
+import { fileTitle, readMinutes, readServings } from '@/lib/importers/shared';
+import { findUnit } from '@/lib/units';
+
+// @salt, @olive oil{2%tbsp}, @?chilli{1}(deseeded); "-" hides and "&" references an earlier one
+const INGREDIENT = /@([?\-&+]*)(?:([^@#~{}\n]+?)\{([^}]*)\}|([\p{L}\p{N}_-]+))(?:\(([^)]*)\))?/gu;
+const COOKWARE = /#(?:([^@#~{}\n]+?)\{[^}]*\}|([\p{L}\p{N}_-]+))/gu;
+const TIMER = /~([^@#~{}\n]*?)\{([^}]*)\}/g;
+const SECTION = /^=+\s*(.*?)\s*=*$/;
+
+const listValue = (value: string) =>
+  value.replace(/^\[|\]$/g, '').split(',').map(item => item.trim().replace(/^["']|["']$/g, '')).filter(Boolean);
+
+// YAML front matter between "---" lines, or the older ">> key: value" lines
+const readMetadata = (text: string) => {
+  const metadata = new Map<string, string>();
+  let body = text;
+
+  const frontMatter = text.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+  if (frontMatter) {
+    body = text.slice(frontMatter[0].length);
+    let listKey: string | null = null;
+    for (const line of frontMatter[1].split(/\r?\n/)) {
+      const item = line.match(/^\s+-\s+(.*)$/);
+      if (item && listKey) {
+        metadata.set(listKey, [metadata.get(listKey), item[1].trim()].filter(Boolean).join(', '));
+        continue;
+      }
+      const entry = line.match(/^([^:#]+):\s*(.*)$/);
+      if (entry) {
+        listKey = entry[1].trim().toLowerCase();
+        metadata.set(listKey, listValue(entry[2]).join(', '));
+      }
+    }
+  }
+
+  body = body.replace(/^>>\s*([^:]+):\s*(.*)$/gm, (_, key: string, value: string) => {
+    metadata.set(key.trim().toLowerCase(), value.trim());
+    return '';
+  });
+
+  return { metadata, body };
+};
+
+// "250%ml" as a quantity and unit; anything that isn't a number becomes a note
+const readAmount = (amount: string) => {
+  const [quantityText = '', unitText = ''] = amount.replace(/^=/, '').split('%').map(part => part.trim());
+  const quantity = quantityText ? parseQuantity(quantityText) : null;
+  const unit = unitText ? findUnit(unitText)?.id ?? unitText : null;
+
+  return {
+    quantity: quantity && !quantity.rest ? quantity.quantity : null,
+    quantity_max: quantity && !quantity.rest ? quantity.quantity_max : null,
+    unit,
+    note: quantityText && (!quantity || quantity.rest) ? quantityText : null
+  };
+};
+
+const timerMinutes = (amount: string) => {
+  const [quantity, unit = 'minutes'] = amount.split('%').map(part => part.trim());
+  return readMinutes(`${quantity} ${unit}`);
+};
+
+const metadataKeys = {
+  title: ['title', 'name'],
+  servings: ['servings', 'serves', 'yield'],
+  prep: ['prep time', 'prep_time', 'prep'],
+  cook: ['cook time', 'cook_time', 'cook'],
+  total: ['time', 'total time', 'duration'],
+  tags: ['tags', 'tag', 'course', 'category', 'categories'],
+  cuisine: ['cuisine'],
+  difficulty: ['difficulty'],
+  ignored: ['locale']
+};
+
+// Reads one `.cook` file. Each paragraph is a step, with the ingredients,
+// cookware and timers marked up inline; the title comes from the file name
+// unless the metadata names one.
+export const readCooklangFile = (text: string, fileName: string): RawRecipe => {
+  const { metadata, body } = readMetadata(text.replace(/\[-[\s\S]*?-\]/g, ''));
+  const unmapped = new Set<string>();
+  const ingredients: Ingredient[] = [];
+  const instructions: InstructionStep[] = [];
+  let section: string | null = null;
+
+  const addIngredient = (ingredient: Ingredient) => {
+    // The same ingredient used in several steps is listed once, with the amounts added up
+    const same = ingredients.find(existing =>
+      existing.item.toLowerCase() === ingredient.item.toLowerCase() && existing.unit === ingredient.unit
+    );
+    if (!same) {
+      ingredients.push(ingredient);
+    } else if (same.quantity !== null && ingredient.quantity !== null) {
+      // A range on either side makes the total a range, with the single amount at both ends
+      if (same.quantity_max !== null || ingredient.quantity_max !== null) {
+        same.quantity_max = (same.quantity_max ?? same.quantity) + (ingredient.quantity_max ?? ingredient.quantity);
+      }
+      same.quantity += ingredient.quantity;
+    }
+  };
+
+  const paragraphs = body
+    .split(/\r?\n/)
+    .map(line => line.replace(/--.*$/, '').trim())
+    .join('\n')
+    .split(/\n{2,}/);
+
+  for (const paragraph of paragraphs) {
+    const lines = paragraph.split('\n').filter(Boolean);
+    const stepLines: string[] = [];
+
+    for (const line of lines) {
+      const heading = line.match(SECTION);
+      if (heading) section = heading[1] || null;
+      else if (line.startsWith('>')) unmapped.add('Notes');
+      else stepLines.push(line);
+    }
+    if (stepLines.length === 0) continue;
+
+    let timer: number | null = null;
+    const stepText = stepLines
+      .join(' ')
+      .replace(INGREDIENT, (_, modifiers: string, braced?: string, amount?: string, bare?: string, note?: string) => {
+        const name = (braced ?? bare ?? '').trim();
+        if (!modifiers.includes('-') && !modifiers.includes('&')) {
+          const parsed = readAmount(amount ?? '');
+          addIngredient({
+            ...emptyIngredient(),
+            ...parsed,
+            item: name,
+            note: [parsed.note, note?.trim()].filter(Boolean).join(', ') || null,
+            optional: modifiers.includes('?')
+          });
+        }
+        return name;
+      })
+      .replace(COOKWARE, (_, braced?: string, bare?: string) => (braced ?? bare ?? '').trim())
+      .replace(TIMER, (_, name: string, amount: string) => {
+        timer ??= timerMinutes(amount);
+        return amount.replace('%', ' ').trim() || name.trim();
+      })
+      .replace(/\s+/g, ' ')
+      .trim();
+
+    instructions.push({ ...emptyStep(), text: stepText, section, timer_minutes: timer });
+    section = null;
+  }
+
+  const value = (keys: string[]) => keys.map(key => metadata.get(key)).find(Boolean) ?? '';
+  const prepTime = readMinutes(value(metadataKeys.prep));
+  const totalTime = readMinutes(value(metadataKeys.total));
+  const cookTime = readMinutes(value(metadataKeys.cook))
+    ?? (totalTime !== null && totalTime > (prepTime ?? 0) ? totalTime - (prepTime ?? 0) : null);
+  const servingsText = value(metadataKeys.servings);
+  const servings = readServings(servingsText);
+  if (servingsText && servings === null) unmapped.add(`Servings ("${servingsText}")`);
+  const difficultyText = value(metadataKeys.difficulty);
+  const difficulty = readDifficulty(difficultyText);
+  if (difficultyText && !difficulty) unmapped.add(`Difficulty ("${difficultyText}")`);
+
+  const known = Object.values(metadataKeys).flat();
+  for (const key of metadata.keys()) {
+    if (!known.includes(key)) unmapped.add(key.charAt(0).toUpperCase() + key.slice(1));
+  }
+
+  return {
+    title: value(metadataKeys.title) || fileTitle(fileName),
+    cuisine: value(metadataKeys.cuisine),
+    difficulty,
+    prep_time: prepTime,
+    cook_time: cookTime,
+    servings,
+    ingredients,
+    instructions,
+    tags: listValue(value(metadataKeys.tags)),
+    unmapped: [...unmapped]
+  };
+};
@@ -0,0 +1,46 @@
+import { ImportSource, RawRecipe, rawRecipesFromJson } from '@/lib/bulk-import';
+import { readCooklangFile } from '@/lib/importers/cooklang';
+import { readMealMasterFile } from '@/lib/importers/mealmaster';
+import { readPaprikaFile } from '@/lib/importers/paprika';
+import { decodeText } from '@/lib/importers/shared';
+
+export const importSourceLabels: Record<ImportSource, string> = {
+  csv: 'Spreadsheet (CSV)',
+  json: 'JSON export',
+  paprika: 'Paprika',
+  mealmaster: 'MealMaster',
+  cooklang: 'Cooklang'
+};
+
+export const IMPORT_FILE_TYPES = '.csv,.tsv,.txt,.json,.paprikarecipes,.paprikarecipe,.mmf,.mm,.cook';
+
+const MEALMASTER_HEADER = /^(?:MMMMM|-----)-*\s*Recipe via Meal-Master/im;
+
+// Goes by the extension, looking inside only where it's ambiguous
+export const detectImportSource = (fileName: string, data: Uint8Array): ImportSource => {
+  const extension = fileName.toLowerCase().match(/\.([a-z]+)$/)?.[1] ?? '';
+
+  if (extension === 'paprikarecipes' || extension === 'paprikarecipe') return 'paprika';
+  if (extension === 'cook') return 'cooklang';
+  if (extension === 'mmf' || extension === 'mm') return 'mealmaster';
+  if (extension === 'json') return 'json';
+
+  const start = decodeText(data.subarray(0, 4096));
+  if (MEALMASTER_HEADER.test(start)) return 'mealmaster';
+  if (/^\s*[[{]/.test(start)) return 'json';
+  return 'csv';
+};
+
+// Reads recipes from any supported file except CSV, which needs its columns matched first
+export const readRecipeFile = async (source: Exclude<ImportSource, 'csv'>, fileName: string, data: Uint8Array) => {
+  const readers: Record<typeof source, () => Promise<RawRecipe[]> | RawRecipe[]> = {
+    json: () => rawRecipesFromJson(decodeText(data)),
+    paprika: () => readPaprikaFile(data),
+    mealmaster: () => readMealMasterFile(decodeText(data)),
+    cooklang: () => [readCooklangFile(decodeText(data), fileName)]
+  };
+
+  const recipes = await readers[source]();
+  if (recipes.length === 0) throw new Error(`No ${importSourceLabels[source]} recipes were found in ${fileName}`);
+  return recipes;
+};
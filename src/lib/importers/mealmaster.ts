@@ -0,0 +1,128 @@
+import type { RawRecipe } from '@/lib/bulk-import';
+import { readServings } from '@/lib/importers/shared';
+
+// "MMMMM----- Recipe via Meal-Master (tm) v8.05" or the older "---------- Recipe via Meal-Master"
+const RECIPE_START = /^(?:MMMMM|-----)-*\s*Recipe via Meal-Master/i;
+const RECIPE_END = /^(?:MMMMM|-----)\s*$/;
+// "MMMMM-----------------------FOR THE SAUCE------------------------"
+const HEADING = /^(?:MMMMM|-----)-+\s*(.*?)\s*-*$/;
+const FIELD = /^\s*(Title|Categories|Yield|Servings)\s*:\s*(.*)$/i;
+const SOURCE = /^\s*(?:Source|From|Posted by|Recipe by|Author)\s*:/i;
+// Fixed columns: amount in 1-7, unit code in 9-10, ingredient from 12
+const INGREDIENT = /^([\s\d./-]{7}) ([\sA-Za-z]{2})(?: (.*)|$)/;
+const SECOND_COLUMN = 41;
+
+// MealMaster's two-letter unit codes, spelled out for the ingredient parser
+const unitCodes: Record<string, string> = {
+  x: '', ea: '', t: 'tsp', ts: 'tsp', T: 'tbsp', tb: 'tbsp', c: 'cup', pt: 'pint', qt: 'quart', ga: 'gallon',
+  fl: 'fl oz', oz: 'oz', lb: 'lb', ml: 'ml', cl: 'cl', dl: 'dl', l: 'l', mg: 'mg', g: 'g', kg: 'kg',
+  pn: 'pinch', ds: 'dash', dr: 'drop', sm: 'small', md: 'medium', lg: 'large', cn: 'can', pk: 'package',
+  ct: 'carton', bn: 'bunch', sl: 'slice', cb: 'cubic cm'
+};
+
+const splitColumns = (line: string) => {
+  const second = line.slice(SECOND_COLUMN);
+  return line.length > SECOND_COLUMN && line[SECOND_COLUMN - 1] === ' ' && INGREDIENT.test(second)
+    ? [line.slice(0, SECOND_COLUMN), second]
+    : [line];
+};
+
+const toIngredientText = (amount: string, unit: string, item: string) => {
+  const code = unit.trim();
+  return [amount.trim(), unitCodes[code] ?? code, item.trim()].filter(Boolean).join(' ');
+};
+
+interface Draft {
+  title: string;
+  categories: string;
+  servings: number | null;
+  ingredients: string[];
+  paragraphs: string[][];
+  unmapped: Set<string>;
+}
+
+const toRawRecipe = (draft: Draft): RawRecipe => ({
+  title: draft.title,
+  servings: draft.servings,
+  ingredients: draft.ingredients,
+  instructions: draft.paragraphs.map(lines => lines.join(' ')).filter(Boolean),
+  tags: draft.categories,
+  unmapped: [...draft.unmapped]
+});
+
+// Reads every recipe in a MealMaster file. Ingredients are in fixed columns,
+// sometimes two to a line; everything after them is the method, one step per paragraph.
+export const readMealMasterFile = (text: string): RawRecipe[] => {
+  const recipes: RawRecipe[] = [];
+  let draft: Draft | null = null;
+  let phase: 'header' | 'ingredients' | 'directions' = 'header';
+
+  const addDirection = (line: string) => {
+    if (!draft) return;
+    const paragraph = draft.paragraphs[draft.paragraphs.length - 1];
+    if (/^\s*\d+[.)]\s/.test(line) && paragraph.length > 0) draft.paragraphs.push([line.trim()]);
+    else paragraph.push(line.trim());
+  };
+
+  for (const line of text.split(/\r?\n/)) {
+    if (RECIPE_START.test(line)) {
+      if (draft) recipes.push(toRawRecipe(draft));
+      draft = { title: '', categories: '', servings: null, ingredients: [], paragraphs: [[]], unmapped: new Set() };
+      phase = 'header';
+      continue;
+    }
+    if (!draft) continue;
+
+    if (RECIPE_END.test(line)) {
+      recipes.push(toRawRecipe(draft));
+      draft = null;
+      continue;
+    }
+
+    const field = phase === 'header' ? line.match(FIELD) : null;
+    if (field) {
+      const [, name, value] = field;
+      if (/title/i.test(name)) draft.title = value.trim();
+      else if (/categories/i.test(name)) draft.categories = value.replace(/\bnone\b/i, '');
+      else {
+        draft.servings = readServings(value);
+        if (value.trim() && draft.servings === null) draft.unmapped.add(`Yield ("${value.trim()}")`);
+      }
+      continue;
+    }
+
+    if (!line.trim()) {
+      if (phase === 'directions') draft.paragraphs.push([]);
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      // Our ingredient lists have no sections, so headings in them are dropped
+      if (phase !== 'directions' && heading[1]) draft.unmapped.add('Ingredient headings');
+      if (phase === 'directions' && heading[1]) draft.paragraphs.push([]);
+      continue;
+    }
+
+    if (phase !== 'directions' && INGREDIENT.test(line)) {
+      phase = 'ingredients';
+      for (const column of splitColumns(line)) {
+        const [, amount, unit, item = ''] = column.match(INGREDIENT) ?? [];
+        // "-finely chopped" continues the ingredient above
+        if (item.trim().startsWith('-') && !amount.trim() && draft.ingredients.length > 0) {
+          draft.ingredients[draft.ingredients.length - 1] += ` ${item.trim().slice(1)}`;
+        } else if (item.trim() || amount.trim()) {
+          draft.ingredients.push(toIngredientText(amount, unit, item));
+        }
+      }
+      continue;
+    }
+
+    phase = 'directions';
+    if (SOURCE.test(line)) draft.unmapped.add('Source');
+    else addDirection(line);
+  }
+  if (draft) recipes.push(toRawRecipe(draft));
+
+  return recipes;
+};
@@ -0,0 +1,90 @@
+import { z } from 'zod';
+import { RawRecipe, readDifficulty } from '@/lib/bulk-import';
+import { gunzip, readZip } from '@/lib/zip';
+import { readMinutes, readServings } from '@/lib/importers/shared';
+
+const text = z
+  .union([z.string(), z.number()])
+  .nullish()
+  .transform(value => (value === null || value === undefined ? '' : String(value).trim()));
+
+// The parts of a Paprika recipe we read; everything else in the entry is ignored
+const paprikaRecipeSchema = z.object({
+  name: text,
+  ingredients: text,
+  directions: text,
+  servings: text,
+  prep_time: text,
+  cook_time: text,
+  total_time: text,
+  difficulty: text,
+  categories: z.array(z.string()).nullish(),
+  description: text,
+  notes: text,
+  source: text,
+  source_url: text,
+  nutritional_info: text,
+  rating: z.number().nullish(),
+  photo_data: text,
+  image_url: text
+});
+
+type PaprikaRecipe = z.infer<typeof paprikaRecipeSchema>;
+
+const lines = (value: string) => value.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+
+const toRawRecipe = (recipe: PaprikaRecipe): RawRecipe => {
+  const unmapped: string[] = [];
+  const prepTime = readMinutes(recipe.prep_time);
+  const totalTime = readMinutes(recipe.total_time);
+  // Paprika often only has a total time
+  const cookTime = readMinutes(recipe.cook_time)
+    ?? (totalTime !== null && totalTime > (prepTime ?? 0) ? totalTime - (prepTime ?? 0) : null);
+  const servings = readServings(recipe.servings);
+  const difficulty = readDifficulty(recipe.difficulty);
+
+  if (recipe.prep_time && prepTime === null) unmapped.push(`Prep time ("${recipe.prep_time}")`);
+  if (recipe.cook_time && cookTime === null) unmapped.push(`Cook time ("${recipe.cook_time}")`);
+  if (recipe.servings && servings === null) unmapped.push(`Servings ("${recipe.servings}")`);
+  if (recipe.difficulty && !difficulty) unmapped.push(`Difficulty ("${recipe.difficulty}")`);
+  if (recipe.description) unmapped.push('Description');
+  if (recipe.notes) unmapped.push('Notes');
+  if (recipe.source || recipe.source_url) unmapped.push('Source');
+  if (recipe.nutritional_info) unmapped.push('Nutrition');
+  if (recipe.rating) unmapped.push('Rating');
+  if (recipe.photo_data || recipe.image_url) unmapped.push('Photo');
+
+  return {
+    title: recipe.name,
+    difficulty,
+    prep_time: prepTime,
+    cook_time: cookTime,
+    servings,
+    ingredients: lines(recipe.ingredients),
+    instructions: lines(recipe.directions),
+    tags: recipe.categories ?? [],
+    unmapped
+  };
+};
+
+const readEntry = async (data: Uint8Array) => {
+  const json = JSON.parse(new TextDecoder().decode(await gunzip(data)));
+  return toRawRecipe(paprikaRecipeSchema.parse(json));
+};
+
+const isGzip = (data: Uint8Array) => data[0] === 0x1f && data[1] === 0x8b;
+
+// A `.paprikarecipes` export is a zip of gzipped JSON recipes; a single
+// `.paprikarecipe` is one of those entries on its own
+export const readPaprikaFile = async (data: Uint8Array): Promise<RawRecipe[]> => {
+  try {
+    const entries = isGzip(data)
+      ? [data]
+      : (await readZip(data)).filter(entry => isGzip(entry.content)).map(entry => entry.content);
+    if (entries.length === 0) throw new Error('empty');
+
+    return await Promise.all(entries.map(readEntry));
+  } catch {
+    throw new Error('This file is not a Paprika export, or it is damaged');
+  }
+};
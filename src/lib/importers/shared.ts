@@ -0,0 +1,26 @@
+import { parseTime } from '@/lib/recipe-text';
+
+// Older recipe files are often Windows-1252 rather than UTF-8
+export const decodeText = (data: Uint8Array) => {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(data);
+  } catch {
+    return new TextDecoder('windows-1252').decode(data);
+  }
+};
+
+// "45", "45 min" or "1 hr 15 mins" in minutes; null when the text isn't a duration
+export const readMinutes = (text: string | null | undefined) => {
+  const value = text?.trim();
+  if (!value) return null;
+  return /^\d+$/.test(value) ? Number(value) : parseTime(value);
+};
+
+// "4", "Serves 4" or "4-6 servings" as 4; other yields such as "1 loaf" are not servings
+export const readServings = (text: string | null | undefined) => {
+  const match = text?.trim().match(/^(?:serves|servings?|makes|yields?)?\s*:?\s*(\d+)(?:\s*[-–]\s*\d+)?\s*(?:servings?|portions?|people|persons?)?$/i);
+  return match && Number(match[1]) > 0 ? Number(match[1]) : null;
+};
+
+export const fileTitle = (fileName: string) =>
+  fileName.replace(/^.*[\\/]/, '').replace(/\.[^.]+$/, '').replace(/_+/g, ' ').trim();
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { ingredientLineFixtures } from '@/lib/__fixtures__/ingredient-lines';
+import { MIN_CONFIDENCE, parseIngredientLine, parseIngredientLines, parseQuantity } from '@/lib/ingredient-parser';
+
+describe('parseIngredientLine', () => {
+  it.each(ingredientLineFixtures)('parses "$line"', ({ line, expected }) => {
+    const parsed = parseIngredientLine(line);
+
+    if (expected === null) {
+      expect(parsed.confidence).toBeLessThan(MIN_CONFIDENCE);
+      expect(parsed.ingredient.item).toBe(line.trim());
+      return;
+    }
+    expect(parsed.confidence).toBeGreaterThanOrEqual(MIN_CONFIDENCE);
+    expect(parsed.ingredient).toMatchObject({ quantity_max: null, note: null, optional: false, ...expected });
+  });
+
+  it('keeps the line as written', () => {
+    expect(parseIngredientLine('  2 eggs ').raw).toBe('2 eggs');
+  });
+});
+
+describe('parseQuantity', () => {
+  it('reads a leading amount and returns the rest', () => {
+    expect(parseQuantity('1 1/2 cups flour')).toEqual({ quantity: 1.5, quantity_max: null, rest: 'cups flour' });
+  });
+
+  it('ignores a range that runs backwards', () => {
+    expect(parseQuantity('3-2 eggs')).toEqual({ quantity: 3, quantity_max: null, rest: 'eggs' });
+  });
+
+  it('only reads number words that stand alone', () => {
+    expect(parseQuantity('half-and-half')).toBeNull();
+    expect(parseQuantity('halloumi')).toBeNull();
+    expect(parseQuantity('twelve eggs')).toMatchObject({ quantity: 12, rest: 'eggs' });
+  });
+
+  it('only reads "a" as one when a unit follows', () => {
+    expect(parseQuantity('a few sprigs thyme')).toBeNull();
+    expect(parseQuantity('a tbsp oil')).toMatchObject({ quantity: 1, rest: 'tbsp oil' });
+  });
+
+  it('returns null without an amount', () => {
+    expect(parseQuantity('salt')).toBeNull();
+    expect(parseQuantity('1/0 cup')).toBeNull();
+  });
+});
+
+describe('parseIngredientLines', () => {
+  it('drops blank lines and section headings', () => {
+    const lines = parseIngredientLines('For the sauce:\n1 cup tomatoes\n\nTopping:\n2 tbsp cheese\r\n');
+    expect(lines.map(line => line.ingredient.item)).toEqual(['tomatoes', 'cheese']);
+  });
+});
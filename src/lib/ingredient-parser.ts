@@ -0,0 +1,225 @@
+import { Ingredient, emptyIngredient } from '@/lib/ingredients';
+import { matchUnitPrefix } from '@/lib/units';
+
+export interface ParsedIngredient {
+  raw: string;
+  ingredient: Ingredient;
+  // 0..1, how much of the line was understood; below the threshold we keep the raw text
+  confidence: number;
+}
+
+export const MIN_CONFIDENCE = 0.5;
+
+const unicodeFractions: Record<string, string> = {
+  '¼': '1/4', '½': '1/2', '¾': '3/4',
+  '⅐': '1/7', '⅑': '1/9', '⅒': '1/10',
+  '⅓': '1/3', '⅔': '2/3',
+  '⅕': '1/5', '⅖': '2/5', '⅗': '3/5', '⅘': '4/5',
+  '⅙': '1/6', '⅚': '5/6',
+  '⅛': '1/8', '⅜': '3/8', '⅝': '5/8', '⅞': '7/8'
+};
+
+const numberWords: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12,
+  dozen: 12, half: 0.5, quarter: 0.25
+};
+
+const preparationWords = [
+  'chopped', 'diced', 'minced', 'sliced', 'grated', 'shredded', 'crushed', 'melted',
+  'softened', 'sifted', 'peeled', 'cubed', 'julienned', 'halved', 'quartered', 'beaten',
+  'toasted', 'drained', 'rinsed', 'zested', 'juiced', 'trimmed', 'torn', 'mashed'
+];
+const preparationAdverbs = ['finely', 'roughly', 'coarsely', 'thinly', 'thickly', 'freshly', 'lightly', 'very'];
+
+const NUMBER = String.raw`\d+\s+\d+/\d+|\d+/\d+|\d+(?:[.,]\d+)?`;
+const quantityPattern = new RegExp(
+  String.raw`^(${NUMBER})(?:\s*(?:-|–|—|to|or)\s*(${NUMBER}))?(?=\s|$|[a-zA-Z(#])`,
+  'i'
+);
+
+const normalise = (line: string) =>
+  line
+    .replace(/(\d)\s*([¼½¾⅐⅑⅒⅓⅔⅕⅖⅗⅘⅙⅚⅛⅜⅝⅞])/g, '$1 $2')
+    .replace(/[¼½¾⅐⅑⅒⅓⅔⅕⅖⅗⅘⅙⅚⅛⅜⅝⅞]/g, fraction => unicodeFractions[fraction])
+    .replace(/⁄/g, '/')
+    .replace(/\s+/g, ' ')
+    // Bullets and list markers pasted along with the line
+    .replace(/^\s*(?:[-*•·▪–]|\[\s?\])\s*/, '')
+    .trim();
+
+const toNumber = (text: string) => {
+  const value = text.trim();
+  const mixed = value.match(/^(\d+)\s+(\d+)\/(\d+)$/);
+  if (mixed) return Number(mixed[3]) ? Number(mixed[1]) + Number(mixed[2]) / Number(mixed[3]) : null;
+  const fraction = value.match(/^(\d+)\/(\d+)$/);
+  if (fraction) return Number(fraction[2]) ? Number(fraction[1]) / Number(fraction[2]) : null;
+  const decimal = Number(value.replace(',', '.'));
+  return Number.isFinite(decimal) ? decimal : null;
+};
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+/**
+ * Reads a leading amount such as "1 1/2", "2-3", "½" or "two" from `text`.
+ * Returns null when the text does not start with an amount.
+ */
+export const parseQuantity = (text: string) => {
+  const normalised = normalise(text);
+  const match = normalised.match(quantityPattern);
+
+  if (match) {
+    const quantity = toNumber(match[1]);
+    if (quantity === null) return null;
+    const quantityMax = match[2] ? toNumber(match[2]) : null;
+    return {
+      quantity: round(quantity),
+      quantity_max: quantityMax !== null && quantityMax > quantity ? round(quantityMax) : null,
+      rest: normalised.slice(match[0].length).trim()
+    };
+  }
+
+  // A whole word, so "half-and-half" isn't read as half of "-and-half"
+  const word = normalised.match(/^([a-z]+)\s+/i);
+  const value = word ? numberWords[word[1].toLowerCase()] : undefined;
+  if (value === undefined) return null;
+
+  const rest = normalised.slice(word[0].length).trim();
+  // "a cup of milk" is an amount, "a few sprigs" isn't
+  if (/^an?$/i.test(word[1]) && !matchUnitPrefix(rest)) return null;
+  return {
+    quantity: value,
+    quantity_max: null,
+    rest
+  };
+};
+
+const joinNotes = (...notes: Array<string | null | undefined>) => {
+  const parts = notes.map(note => note?.trim()).filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : null;
+};
+
+const splitPreparation = (item: string) => {
+  const words = item.split(' ');
+  let count = 0;
+  while (count < words.length - 1) {
+    const word = words[count].toLowerCase().replace(/,$/, '');
+    if (preparationAdverbs.includes(word) && preparationWords.includes(words[count + 1]?.toLowerCase())) {
+      count += 2;
+    } else if (preparationWords.includes(word)) {
+      count += 1;
+    } else {
+      break;
+    }
+  }
+  if (count === 0 || count >= words.length) return { item, preparation: null };
+  return { item: words.slice(count).join(' '), preparation: words.slice(0, count).join(' ') };
+};
+
+export const parseIngredientLine = (line: string): ParsedIngredient => {
+  const raw = line.trim();
+  const fallback: ParsedIngredient = {
+    raw,
+    ingredient: { ...emptyIngredient(), item: raw },
+    confidence: 0
+  };
+  if (!raw) return fallback;
+
+  let rest = normalise(raw);
+  let optional = false;
+  const notes: string[] = [];
+
+  const optionalPattern = /\(optional\)|,?\s*optional\s*$|^optional:?\s*/i;
+  if (optionalPattern.test(rest)) {
+    optional = true;
+    rest = rest.replace(optionalPattern, ' ').replace(/\s+/g, ' ').trim();
+  }
+
+  let confidence = 0.4;
+
+  const amount = parseQuantity(rest);
+  let quantity: number | null = null;
+  let quantityMax: number | null = null;
+  if (amount) {
+    quantity = amount.quantity;
+    quantityMax = amount.quantity_max;
+    rest = amount.rest;
+    confidence += 0.3;
+  }
+
+  // "2 (14 oz) cans" or "½ cup (120 ml) milk": keep the parenthetical as a note
+  const leadingParenthetical = rest.match(/^\(([^)]*)\)\s*/);
+  if (amount && leadingParenthetical) {
+    notes.push(leadingParenthetical[1]);
+    rest = rest.slice(leadingParenthetical[0].length);
+  }
+
+  let unit: string | null = null;
+  const unitMatch = matchUnitPrefix(rest);
+  if (unitMatch && (amount || /^(pinch|dash|handful)/i.test(rest))) {
+    unit = unitMatch.unit.id;
+    rest = unitMatch.rest;
+    if (!amount) quantity = 1;
+    confidence += 0.2;
+
+    const afterUnit = rest.match(/^\(([^)]*)\)\s*/);
+    if (afterUnit) {
+      notes.push(afterUnit[1]);
+      rest = rest.slice(afterUnit[0].length);
+    }
+  } else if (amount) {
+    // Countable items ("3 eggs") need no unit
+    confidence += 0.15;
+  }
+
+  rest = rest.replace(/^of\s+/i, '');
+
+  const servingPhrase = rest.match(/\b(to taste|as needed|for (?:serving|garnish|frying|dusting))\b/i);
+  if (servingPhrase) {
+    notes.push(servingPhrase[0]);
+    rest = rest.replace(servingPhrase[0], '').replace(/[\s,]+$/, '').replace(/\s+/g, ' ').trim();
+    if (!amount) confidence += 0.3;
+  }
+
+  const comma = rest.indexOf(',');
+  if (comma !== -1) {
+    notes.push(rest.slice(comma + 1));
+    rest = rest.slice(0, comma);
+  }
+
+  const trailingParenthetical = rest.match(/\s*\(([^)]*)\)\s*$/);
+  if (trailingParenthetical) {
+    notes.push(trailingParenthetical[1]);
+    rest = rest.slice(0, trailingParenthetical.index);
+  }
+
+  const { item, preparation } = splitPreparation(rest.trim());
+  if (!item) return fallback;
+
+  if (/[a-z]/i.test(item)) confidence += 0.1;
+  if (/\d/.test(item)) confidence -= 0.2;
+  confidence = Math.max(0, Math.min(1, round(confidence)));
+
+  if (confidence < MIN_CONFIDENCE) return { ...fallback, confidence };
+
+  return {
+    raw,
+    confidence,
+    ingredient: {
+      quantity,
+      quantity_max: quantityMax,
+      unit,
+      item,
+      note: joinNotes(preparation, ...notes),
+      optional
+    }
+  };
+};
+
+// Splits pasted text into lines, dropping blanks and section headings like "For the sauce:"
+export const parseIngredientLines = (text: string) =>
+  text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line !== '' && !/^(for the\s.+|[^\d]+):$/i.test(line))
+    .map(parseIngredientLine);
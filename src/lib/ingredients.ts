@@ -0,0 +1,92 @@
+import type { Json } from '@/integrations/supabase/types';
+import { getUnit, unitLabel } from '@/lib/units';
+
+export type Ingredient = {
+  quantity: number | null;
+  // Upper bound when the amount is a range such as "2-3 tbsp"
+  quantity_max: number | null;
+  unit: string | null;
+  item: string;
+  note: string | null;
+  optional: boolean;
+};
+
+export const emptyIngredient = (): Ingredient => ({
+  quantity: null,
+  quantity_max: null,
+  unit: null,
+  item: '',
+  note: null,
+  optional: false
+});
+
+const toNumber = (value: Json | undefined) =>
+  typeof value === 'number' && Number.isFinite(value) ? value : null;
+
+const toText = (value: Json | undefined) =>
+  typeof value === 'string' && value.trim() !== '' ? value : null;
+
+// Reads the `recipes.ingredients` JSONB column, tolerating legacy plain strings
+export const toIngredients = (value: Json): Ingredient[] => {
+  if (!Array.isArray(value)) return [];
+
+  return value.flatMap((entry): Ingredient[] => {
+    if (typeof entry === 'string') {
+      return entry.trim() ? [{ ...emptyIngredient(), item: entry.trim() }] : [];
+    }
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) return [];
+
+    return [{
+      quantity: toNumber(entry.quantity),
+      quantity_max: toNumber(entry.quantity_max),
+      unit: toText(entry.unit),
+      item: toText(entry.item) ?? '',
+      note: toText(entry.note),
+      optional: entry.optional === true
+    }];
+  });
+};
+
+export const isBlankIngredient = (ingredient: Ingredient) =>
+  ingredient.item.trim() === '' && ingredient.quantity === null && !ingredient.unit;
+
+const fractionGlyphs: Array<[number, string]> = [
+  [1 / 8, '⅛'], [1 / 4, '¼'], [1 / 3, '⅓'], [3 / 8, '⅜'], [1 / 2, '½'],
+  [5 / 8, '⅝'], [2 / 3, '⅔'], [3 / 4, '¾'], [7 / 8, '⅞']
+];
+
+// Renders 1.5 as "1½" and 0.333 as "⅓"; metric units and anything else use up to two decimals
+export const formatQuantity = (quantity: number, unitId: string | null = null) => {
+  if (getUnit(unitId)?.system === 'metric') return String(Math.round(quantity * 100) / 100);
+
+  const whole = Math.floor(quantity);
+  const fraction = quantity - whole;
+  if (fraction < 0.01) return String(whole);
+  if (fraction > 0.99) return String(whole + 1);
+
+  const glyph = fractionGlyphs.find(([value]) => Math.abs(value - fraction) < 0.01);
+  if (glyph) return whole > 0 ? `${whole}${glyph[1]}` : glyph[1];
+  return String(Math.round(quantity * 100) / 100);
+};
+
+export const formatQuantityRange = (
+  quantity: number | null,
+  quantityMax: number | null,
+  unitId: string | null = null
+) => {
+  if (quantity === null) return '';
+  if (quantityMax === null || quantityMax === quantity) return formatQuantity(quantity, unitId);
+  return `${formatQuantity(quantity, unitId)}-${formatQuantity(quantityMax, unitId)}`;
+};
+
+export const formatIngredient = (ingredient: Ingredient) => {
+  const amount = [
+    formatQuantityRange(ingredient.quantity, ingredient.quantity_max, ingredient.unit),
+    unitLabel(ingredient.unit, ingredient.quantity_max ?? ingredient.quantity)
+  ].filter(Boolean).join(' ');
+
+  let text = [amount, ingredient.item].filter(Boolean).join(' ');
+  if (ingredient.note) text += `, ${ingredient.note}`;
+  if (ingredient.optional) text += ' (optional)';
+  return text;
+};
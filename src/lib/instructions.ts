@@ -0,0 +1,56 @@
+import type { Json } from '@/integrations/supabase/types';
+
+export type InstructionStep = {
+  text: string;
+  // Heading shown above this step when it starts a new section ("For the sauce")
+  section: string | null;
+  timer_minutes: number | null;
+  note: string | null;
+};
+
+export const emptyStep = (): InstructionStep => ({
+  text: '',
+  section: null,
+  timer_minutes: null,
+  note: null
+});
+
+const toText = (value: Json | undefined) =>
+  typeof value === 'string' && value.trim() !== '' ? value : null;
+
+// Reads the `recipes.instructions` JSONB column, tolerating legacy plain strings
+export const toSteps = (value: Json): InstructionStep[] => {
+  if (typeof value === 'string') {
+    return value.trim() ? [{ ...emptyStep(), text: value.trim() }] : [];
+  }
+  if (!Array.isArray(value)) return [];
+
+  return value.flatMap((entry): InstructionStep[] => {
+    if (typeof entry === 'string') {
+      return entry.trim() ? [{ ...emptyStep(), text: entry.trim() }] : [];
+    }
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) return [];
+
+    const timer = entry.timer_minutes;
+    return [{
+      text: toText(entry.text) ?? '',
+      section: toText(entry.section),
+      timer_minutes: typeof timer === 'number' && timer > 0 ? timer : null,
+      note: toText(entry.note)
+    }];
+  });
+};
+
+export const isBlankStep = (step: InstructionStep) => step.text.trim() === '';
+
+// Flattens steps into plain text for previews
+export const stepsToText = (steps: InstructionStep[]) =>
+  steps.map(step => step.text).join(' ');
+
+export const moveStep = (steps: InstructionStep[], from: number, to: number) => {
+  if (from === to || to < 0 || to >= steps.length) return steps;
+  const next = [...steps];
+  const [step] = next.splice(from, 1);
+  next.splice(to, 0, step);
+  return next;
+};
@@ -0,0 +1,100 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+
+export const PHOTO_BUCKET = 'recipe-photos';
+
+export type RecipePhoto = {
+  path: string;
+  thumbnail_path: string;
+};
+
+const FULL_SIZE = 1600;
+const THUMBNAIL_SIZE = 480;
+const SIGNED_URL_TTL = 60 * 60;
+
+// Reads the `recipes.photos` JSONB column
+export const toPhotos = (value: Json): RecipePhoto[] => {
+  if (!Array.isArray(value)) return [];
+
+  return value.flatMap((entry): RecipePhoto[] => {
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) return [];
+    if (typeof entry.path !== 'string') return [];
+    return [{
+      path: entry.path,
+      thumbnail_path: typeof entry.thumbnail_path === 'string' ? entry.thumbnail_path : entry.path
+    }];
+  });
+};
+
+// Scales an image down so its longest side is at most `maxSize` and re-encodes it as JPEG
+export const resizeImage = async (file: Blob, maxSize: number, quality = 0.85) => {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Could not process image'))),
+      'image/jpeg',
+      quality
+    );
+  });
+};
+
+export const uploadPhoto = async (file: File, userId: string): Promise<RecipePhoto> => {
+  const [full, thumbnail] = await Promise.all([
+    resizeImage(file, FULL_SIZE),
+    resizeImage(file, THUMBNAIL_SIZE, 0.8)
+  ]);
+
+  // The first folder must be the owner's id for the storage policies to allow the upload
+  const name = `${userId}/${crypto.randomUUID()}`;
+  const photo = { path: `${name}.jpg`, thumbnail_path: `${name}_thumb.jpg` };
+
+  const uploads = await Promise.all([
+    supabase.storage.from(PHOTO_BUCKET).upload(photo.path, full, { contentType: 'image/jpeg' }),
+    supabase.storage.from(PHOTO_BUCKET).upload(photo.thumbnail_path, thumbnail, { contentType: 'image/jpeg' })
+  ]);
+  const failed = uploads.find(upload => upload.error);
+  if (failed) throw failed.error;
+
+  return photo;
+};
+
+export const removePhotos = async (photos: RecipePhoto[]) => {
+  if (photos.length === 0) return;
+
+  const { error } = await supabase.storage
+    .from(PHOTO_BUCKET)
+    .remove(photos.flatMap(photo => [photo.path, photo.thumbnail_path]));
+
+  if (error) throw error;
+};
+
+const signedUrlCache = new Map<string, { url: string; expiresAt: number }>();
+
+// The bucket is private, so images are shown through short-lived signed URLs
+export const getPhotoUrls = async (paths: string[]) => {
+  const now = Date.now();
+  const missing = paths.filter(path => (signedUrlCache.get(path)?.expiresAt ?? 0) < now);
+
+  if (missing.length > 0) {
+    const { data, error } = await supabase.storage
+      .from(PHOTO_BUCKET)
+      .createSignedUrls(missing, SIGNED_URL_TTL);
+    if (error) throw error;
+
+    for (const entry of data) {
+      if (entry.signedUrl && entry.path) {
+        // Refresh a few minutes before the URL actually expires
+        signedUrlCache.set(entry.path, { url: entry.signedUrl, expiresAt: now + (SIGNED_URL_TTL - 300) * 1000 });
+      }
+    }
+  }
+
+  return Object.fromEntries(paths.map(path => [path, signedUrlCache.get(path)?.url ?? null]));
+};
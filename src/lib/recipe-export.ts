@@ -0,0 +1,207 @@
+import { supabase } from '@/integrations/supabase/client';
+import { formatIngredient } from '@/lib/ingredients';
+import { RECIPE_SELECT, Recipe, RecipeInput, RecipeRow, toRecipe } from '@/lib/recipes';
+import { createZip } from '@/lib/zip';
+
+export type ExportFormat = 'json' | 'markdown' | 'jsonld';
+
+export const exportFormatLabels: Record<ExportFormat, string> = {
+  json: 'JSON',
+  markdown: 'Markdown',
+  jsonld: 'Schema.org JSON-LD'
+};
+
+// Bump the version whenever a field changes meaning, so imports can tell old files apart
+export const EXPORT_FORMAT = 'recipe-organizer';
+export const EXPORT_VERSION = 1;
+
+// Photos are private storage paths that mean nothing outside this account, so they're left out
+export type ExportedRecipe = Omit<RecipeInput, 'photos'> & Pick<Recipe, 'created_at' | 'updated_at'> & {
+  cuisine_name: string;
+};
+
+export interface RecipeExport {
+  format: typeof EXPORT_FORMAT;
+  version: typeof EXPORT_VERSION;
+  exported_at: string;
+  recipes: ExportedRecipe[];
+}
+
+type CuisineName = (slug: string) => string;
+
+// The API returns at most this many rows per request
+const LIBRARY_PAGE_SIZE = 1000;
+
+// Every recipe the user owns that isn't in the trash, whatever the dashboard is filtered to
+export const fetchLibrary = async (userId: string) => {
+  const rows: RecipeRow[] = [];
+
+  for (let from = 0; ; from += LIBRARY_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('recipes')
+      .select(RECIPE_SELECT)
+      .eq('user_id', userId)
+      .is('deleted_at', null)
+      .order('title')
+      // Ties broken by id so no recipe lands on two pages or none
+      .order('id')
+      .range(from, from + LIBRARY_PAGE_SIZE - 1)
+      .returns<RecipeRow[]>();
+
+    if (error) throw error;
+    rows.push(...data);
+    if (data.length < LIBRARY_PAGE_SIZE) break;
+  }
+
+  return rows.map(toRecipe);
+};
+
+export const toExportedRecipe = (recipe: Recipe, cuisineName: CuisineName): ExportedRecipe => ({
+  title: recipe.title,
+  cuisine: recipe.cuisine,
+  cuisine_name: cuisineName(recipe.cuisine),
+  difficulty: recipe.difficulty,
+  prep_time: recipe.prep_time,
+  cook_time: recipe.cook_time,
+  servings: recipe.servings,
+  ingredients: recipe.ingredients,
+  instructions: recipe.instructions,
+  tags: recipe.tags,
+  created_at: recipe.created_at,
+  updated_at: recipe.updated_at
+});
+
+export const toRecipeExport = (recipes: Recipe[], cuisineName: CuisineName): RecipeExport => ({
+  format: EXPORT_FORMAT,
+  version: EXPORT_VERSION,
+  exported_at: new Date().toISOString(),
+  recipes: recipes.map(recipe => toExportedRecipe(recipe, cuisineName))
+});
+
+// Steps are numbered straight through, with section headings in between
+export const toMarkdown = (recipe: Recipe, cuisineName: CuisineName) => {
+  const details = [
+    ['Cuisine', cuisineName(recipe.cuisine)],
+    ['Difficulty', recipe.difficulty],
+    ['Prep time', recipe.prep_time ? `${recipe.prep_time} min` : null],
+    ['Cook time', recipe.cook_time ? `${recipe.cook_time} min` : null],
+    ['Servings', recipe.servings ? String(recipe.servings) : null],
+    ['Tags', recipe.tags.length > 0 ? recipe.tags.join(', ') : null]
+  ].filter(([, value]) => value);
+
+  const lines = [`# ${recipe.title}`, ''];
+  lines.push(...details.map(([label, value]) => `- **${label}:** ${value}`), '');
+
+  lines.push('## Ingredients', '');
+  lines.push(...recipe.ingredients.map(ingredient => `- ${formatIngredient(ingredient)}`), '');
+
+  lines.push('## Instructions', '');
+  recipe.instructions.forEach((step, index) => {
+    if (step.section) lines.push(`### ${step.section}`, '');
+    lines.push(`${index + 1}. ${step.text}`);
+    if (step.timer_minutes) lines.push(`   - Timer: ${step.timer_minutes} min`);
+    if (step.note) lines.push(`   - Note: ${step.note}`);
+    if (recipe.instructions[index + 1]?.section) lines.push('');
+  });
+
+  return `${lines.join('\n').trimEnd()}\n`;
+};
+
+const toDuration = (minutes: number | null) => {
+  if (!minutes) return undefined;
+  const hours = Math.floor(minutes / 60);
+  return `PT${hours ? `${hours}H` : ''}${minutes % 60 ? `${minutes % 60}M` : ''}`;
+};
+
+// A schema.org Recipe, the same structure recipe sites publish for search engines
+export const toJsonLd = (recipe: Recipe, cuisineName: CuisineName) => {
+  const steps = recipe.instructions.map(step => ({ '@type': 'HowToStep', text: step.text }));
+  const sections = recipe.instructions.reduce<{ name: string | null; steps: typeof steps }[]>((groups, step, index) => {
+    if (index === 0 || step.section) groups.push({ name: step.section, steps: [] });
+    groups[groups.length - 1].steps.push(steps[index]);
+    return groups;
+  }, []);
+  const totalTime = (recipe.prep_time ?? 0) + (recipe.cook_time ?? 0);
+
+  return {
+    '@type': 'Recipe',
+    name: recipe.title,
+    recipeCuisine: cuisineName(recipe.cuisine),
+    prepTime: toDuration(recipe.prep_time),
+    cookTime: toDuration(recipe.cook_time),
+    totalTime: toDuration(totalTime),
+    recipeYield: recipe.servings ? `${recipe.servings} servings` : undefined,
+    recipeIngredient: recipe.ingredients.map(formatIngredient),
+    recipeInstructions: sections.some(section => section.name)
+      ? sections.map(section => ({ '@type': 'HowToSection', name: section.name ?? '', itemListElement: section.steps }))
+      : steps,
+    keywords: recipe.tags.length > 0 ? recipe.tags.join(', ') : undefined,
+    dateCreated: recipe.created_at,
+    dateModified: recipe.updated_at
+  };
+};
+
+// File names keep to plain letters and digits so they unzip anywhere
+const fileName = (title: string) =>
+  title
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 80) || 'recipe';
+
+const uniqueFileNames = (recipes: Recipe[], extension: string) => {
+  const used = new Map<string, number>();
+  return recipes.map(recipe => {
+    const base = fileName(recipe.title);
+    const count = (used.get(base) ?? 0) + 1;
+    used.set(base, count);
+    return `${count > 1 ? `${base}-${count}` : base}.${extension}`;
+  });
+};
+
+const jsonBlob = (value: unknown, type = 'application/json') =>
+  new Blob([JSON.stringify(value, null, 2)], { type });
+
+// One recipe downloads as a single file; several Markdown files are zipped together
+export const exportRecipes = (recipes: Recipe[], format: ExportFormat, cuisineName: CuisineName) => {
+  const single = recipes.length === 1;
+  const base = single ? fileName(recipes[0].title) : `recipes-${new Date().toISOString().slice(0, 10)}`;
+
+  if (format === 'json') {
+    return { blob: jsonBlob(toRecipeExport(recipes, cuisineName)), filename: `${base}.json` };
+  }
+
+  if (format === 'jsonld') {
+    const items = recipes.map(recipe => toJsonLd(recipe, cuisineName));
+    const data = single
+      ? { '@context': 'https://schema.org', ...items[0] }
+      : { '@context': 'https://schema.org', '@graph': items };
+    return { blob: jsonBlob(data, 'application/ld+json'), filename: `${base}.jsonld` };
+  }
+
+  if (single) {
+    return {
+      blob: new Blob([toMarkdown(recipes[0], cuisineName)], { type: 'text/markdown' }),
+      filename: `${base}.md`
+    };
+  }
+  const names = uniqueFileNames(recipes, 'md');
+  const blob = createZip(recipes.map((recipe, index) => ({
+    name: names[index],
+    content: toMarkdown(recipe, cuisineName),
+    modified: new Date(recipe.updated_at)
+  })));
+  return { blob, filename: `${base}.zip` };
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Give the browser a moment to start the download before the URL goes away
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
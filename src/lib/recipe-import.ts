@@ -0,0 +1,116 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { parseIngredientLine } from '@/lib/ingredient-parser';
+import { emptyStep, InstructionStep } from '@/lib/instructions';
+import { RecipePhoto, uploadPhoto } from '@/lib/photos';
+import { RecipeInput, normalizeTags } from '@/lib/recipes';
+
+type Cuisine = Tables<'cuisines'>;
+
+// What the `import-recipe` edge function returns, see supabase/functions/_shared/recipe-extractor.ts
+export interface ImportedRecipe {
+  title: string;
+  description: string | null;
+  ingredients: string[];
+  instructions: { text: string; section: string | null }[];
+  prep_time: number | null;
+  cook_time: number | null;
+  total_time: number | null;
+  servings: number | null;
+  yield: string | null;
+  cuisines: string[];
+  categories: string[];
+  keywords: string[];
+  image_url: string | null;
+  author: string | null;
+  source_url: string | null;
+}
+
+const MAX_IMPORTED_TAGS = 8;
+
+// Dishes that give away a cuisine when the page doesn't name one
+const cuisineHints: Record<string, string[]> = {
+  italian: ['pasta', 'risotto', 'lasagne', 'lasagna', 'gnocchi', 'carbonara', 'bolognese', 'pesto', 'focaccia', 'tiramisu', 'pizza'],
+  indian: ['curry', 'masala', 'tikka', 'dal', 'dhal', 'biryani', 'paneer', 'korma', 'vindaloo', 'chapati', 'naan'],
+  mexican: ['taco', 'tacos', 'enchilada', 'enchiladas', 'burrito', 'quesadilla', 'guacamole', 'salsa', 'tortilla', 'mole'],
+  chinese: ['stir-fry', 'stir fry', 'dumplings', 'chow mein', 'kung pao', 'wonton', 'bao', 'char siu'],
+  japanese: ['sushi', 'ramen', 'miso', 'teriyaki', 'tempura', 'katsu', 'udon', 'soba', 'onigiri'],
+  thai: ['pad thai', 'tom yum', 'green curry', 'red curry', 'massaman', 'larb'],
+  vietnamese: ['pho', 'banh mi', 'bún', 'bun cha', 'spring rolls'],
+  korean: ['kimchi', 'bibimbap', 'bulgogi', 'gochujang', 'japchae'],
+  french: ['ratatouille', 'croissant', 'quiche', 'crêpe', 'crepe', 'bourguignon', 'soufflé', 'souffle', 'gratin'],
+  spanish: ['paella', 'tortilla española', 'gazpacho', 'chorizo', 'patatas bravas'],
+  greek: ['moussaka', 'tzatziki', 'souvlaki', 'spanakopita'],
+  'middle-eastern': ['hummus', 'falafel', 'shakshuka', 'tabbouleh', 'shawarma', 'za\'atar'],
+  ethiopian: ['injera', 'berbere', 'doro wat']
+};
+
+const containsWord = (text: string, word: string) =>
+  new RegExp(`(^|[^\\p{L}])${word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}($|[^\\p{L}])`, 'iu').test(text);
+
+// Picks one of the user's cuisines: one the page names, then one mentioned in
+// the title or keywords, then one suggested by the dish itself; 'other' otherwise
+export const guessCuisine = (recipe: ImportedRecipe, cuisines: Cuisine[]) => {
+  const candidates = cuisines.filter(cuisine => cuisine.slug !== 'other');
+  const matches = (text: string, cuisine: Cuisine) =>
+    containsWord(text, cuisine.name) || containsWord(text, cuisine.slug.replace(/-/g, ' '));
+
+  const named = candidates.find(cuisine => recipe.cuisines.some(text => matches(text, cuisine)));
+  if (named) return named.slug;
+
+  const text = [recipe.title, ...recipe.keywords, ...recipe.categories].join(' · ');
+  const mentioned = candidates.find(cuisine => matches(text, cuisine));
+  if (mentioned) return mentioned.slug;
+
+  const hinted = Object.entries(cuisineHints).find(([slug, dishes]) =>
+    candidates.some(cuisine => cuisine.slug === slug) && dishes.some(dish => containsWord(text, dish))
+  );
+  return hinted?.[0] ?? 'other';
+};
+
+const toInstructionSteps = (steps: ImportedRecipe['instructions']): InstructionStep[] =>
+  steps.map((step, index) => ({
+    ...emptyStep(),
+    text: step.text,
+    // Sections are headings on the step that starts them
+    section: step.section && step.section !== steps[index - 1]?.section ? step.section : null
+  }));
+
+// Maps an imported recipe onto the form's fields for the user to review
+export const toRecipeInput = (recipe: ImportedRecipe, cuisines: Cuisine[]): RecipeInput => ({
+  title: recipe.title,
+  ingredients: recipe.ingredients.map(line => parseIngredientLine(line).ingredient),
+  instructions: toInstructionSteps(recipe.instructions),
+  difficulty: 'medium',
+  cuisine: guessCuisine(recipe, cuisines),
+  prep_time: recipe.prep_time,
+  cook_time: recipe.cook_time,
+  servings: recipe.servings,
+  photos: [],
+  // Categories and keywords vary a lot between sites, so only the first few are kept
+  tags: normalizeTags([...recipe.categories, ...recipe.keywords].slice(0, MAX_IMPORTED_TAGS))
+});
+
+// Errors from the function carry a message meant for the user
+const invokeImport = async <T>(body: Record<string, string>) => {
+  const { data, error } = await supabase.functions.invoke<T>('import-recipe', { body });
+
+  if (error instanceof FunctionsHttpError) {
+    const details = await error.context.json().catch(() => null);
+    throw new Error(details?.error ?? error.message);
+  }
+  if (error) throw error;
+  return data as T;
+};
+
+export const importRecipeFromUrl = async (url: string) => {
+  const { recipe } = await invokeImport<{ recipe: ImportedRecipe }>({ url: url.trim() });
+  return recipe;
+};
+
+// Downloads the recipe's picture through the function and stores it like any other upload
+export const importRecipePhoto = async (imageUrl: string, userId: string): Promise<RecipePhoto> => {
+  const image = await invokeImport<Blob>({ image: imageUrl });
+  return uploadPhoto(new File([image], 'imported-photo', { type: image.type }), userId);
+};
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { classifyRecipeText, parseTime, readDetails, recipeFromLines } from '@/lib/recipe-text';
+
+describe('readDetails', () => {
+  it('reads labelled servings and times', () => {
+    expect(readDetails('Serves 4')).toEqual({ servings: 4 });
+    expect(readDetails('Prep: 10 mins | Cook: 1 hour')).toEqual({ prep_time: 10, cook_time: 60 });
+    expect(readDetails('Cooking time 1h30')).toEqual({ cook_time: 90 });
+    expect(readDetails('Ready in 45 minutes')).toEqual({ total_time: 45 });
+  });
+
+  it('leaves method lines alone', () => {
+    expect(readDetails('Bake for 60 minutes.')).toBeNull();
+    expect(readDetails('Cook the pasta for 10 minutes.')).toBeNull();
+    expect(readDetails('Total the weights and divide by 4 minutes')).toBeNull();
+  });
+});
+
+describe('parseTime', () => {
+  it.each([
+    ['1h30', 90],
+    ['1 hour 15 minutes', 75],
+    ['1½ hours', 90],
+    ['45 mins', 45],
+    ['soon', null]
+  ])('reads %s', (text, minutes) => {
+    expect(parseTime(text)).toBe(minutes);
+  });
+});
+
+describe('classifyRecipeText', () => {
+  const text = [
+    'Weeknight Pasta',
+    'Serves 2 | Cook time: 15 minutes',
+    'Ingredients',
+    '200 g spaghetti',
+    '2 cloves garlic',
+    'Method',
+    'Cook the pasta for 10 minutes.',
+    'Bake for 60 minutes.',
+    'Serve.'
+  ].join('\n');
+
+  it('keeps timed method lines as steps', () => {
+    expect(classifyRecipeText(text).map(line => line.role)).toEqual([
+      'title', 'details', 'skip', 'ingredient', 'ingredient', 'skip', 'step', 'step', 'step'
+    ]);
+  });
+
+  it('takes times only from the details', () => {
+    const recipe = recipeFromLines(classifyRecipeText(text));
+    expect(recipe).toMatchObject({ title: 'Weeknight Pasta', servings: 2, cook_time: 15 });
+    expect(recipe.instructions).toHaveLength(3);
+  });
+});
@@ -0,0 +1,169 @@
+import { MIN_CONFIDENCE, parseIngredientLine, parseQuantity } from '@/lib/ingredient-parser';
+import type { ImportedRecipe } from '@/lib/recipe-import';
+
+// What each line of a pasted recipe is taken to be; the user can correct these
+export type TextLineRole = 'title' | 'details' | 'ingredient' | 'step' | 'section' | 'skip';
+
+export interface TextLine {
+  text: string;
+  role: TextLineRole;
+}
+
+export const textLineRoleLabels: Record<TextLineRole, string> = {
+  title: 'Title',
+  details: 'Servings/time',
+  ingredient: 'Ingredient',
+  step: 'Step',
+  section: 'Heading',
+  skip: 'Ignore'
+};
+
+type RecipeDetails = Partial<Pick<ImportedRecipe, 'servings' | 'prep_time' | 'cook_time' | 'total_time'>>;
+
+const INGREDIENTS_HEADING = /^(ingredients?|what you(?:'ll| will)? need|you(?:'ll| will) need|shopping list)\s*:?$/i;
+const STEPS_HEADING = /^(method|directions?|instructions?|steps|preparation|how to make(?: it)?)\s*:?$/i;
+const STEP_NUMBER = /^(?:step\s*)?\d+\s*[.):]\s+/i;
+const BULLET = /^\s*(?:[-*•·▪–]|\[\s?\])\s*/;
+
+// "1 hr 15 mins", "45 minutes", "1½ hours" or "1h30" in minutes
+export const parseTime = (text: string) => {
+  const hours = text.match(/(\d+(?:[.,]\d+)?(?:\s*\d\/\d|\s*[½¼¾])?|[½¼¾])\s*(?:h|hrs?|hours?)(?![a-z])/i);
+  const minutes = text.match(/(\d+)\s*(?:m|mins?|minutes?)\b/i) ?? text.match(/\d\s*h\s*(\d{1,2})\b/i);
+  if (!hours && !minutes) return null;
+
+  const hourValue = hours ? parseQuantity(hours[1])?.quantity ?? 0 : 0;
+  const total = Math.round(hourValue * 60 + (minutes ? Number(minutes[1]) : 0));
+  return total > 0 ? total : null;
+};
+
+// Reads lines such as "Serves 4", "Prep: 10 mins | Cook: 1 hour" or "Makes 12 muffins"
+export const readDetails = (line: string): RecipeDetails | null => {
+  const details: RecipeDetails = {};
+
+  for (const part of line.split(/\s*(?:[|•·;]|\s{2,}|,\s(?=[a-z]+\s*(?:time)?\s*[:\d]))\s*/i)) {
+    const servings = part.match(/^(?:serves|servings?|makes|yields?|portions?)\b\s*:?\s*(?:about\s+)?(\d+)/i)
+      ?? part.match(/^(\d+)\s+(?:servings?|portions?)\b/i);
+    // Labelled with "time" or a colon, so a method line like "Bake for 60 minutes." isn't read as one
+    const time = part.match(/^(prep(?:aration)?|cook(?:ing)?|bak(?:e|ing)|total)(?:\s*time\s*:?|\s*:)\s*(.+)$/i)
+      ?? part.match(/^(ready in)\s*:?\s*(.+)$/i);
+
+    if (servings) {
+      details.servings = Number(servings[1]);
+    } else if (time) {
+      const minutes = parseTime(time[2]);
+      if (minutes === null) continue;
+      const label = time[1].toLowerCase();
+      if (label.startsWith('prep')) details.prep_time = minutes;
+      else if (label === 'total' || label === 'ready in') details.total_time = minutes;
+      else details.cook_time = minutes;
+    }
+  }
+
+  return Object.keys(details).length > 0 ? details : null;
+};
+
+const looksLikeIngredient = (line: string) => {
+  if (line.length > 80 || /[.!?]$/.test(line)) return false;
+  if (BULLET.test(line)) return true;
+  const parsed = parseIngredientLine(line);
+  return parsed.confidence >= MIN_CONFIDENCE && parsed.ingredient.quantity !== null;
+};
+
+const looksLikeStep = (line: string) =>
+  (STEP_NUMBER.test(line) && line.length > 20) || line.length > 80 || /[.!?]$/.test(line);
+
+const looksLikeSection = (line: string) =>
+  line.length <= 50 && /:$/.test(line) && !/\d/.test(line);
+
+// First guess at the role of every non-blank line. Explicit "Ingredients" and
+// "Method" headings decide the blocks; without them each line is judged on its own
+export const classifyRecipeText = (text: string): TextLine[] => {
+  let block: 'ingredients' | 'steps' | null = null;
+  let hasTitle = false;
+
+  return text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map((line): TextLine => {
+      if (INGREDIENTS_HEADING.test(line)) {
+        block = 'ingredients';
+        return { text: line, role: 'skip' };
+      }
+      if (STEPS_HEADING.test(line)) {
+        block = 'steps';
+        return { text: line, role: 'skip' };
+      }
+      // Details come before the method; inside it, lines are steps
+      if (block !== 'steps' && readDetails(line)) return { text: line, role: 'details' };
+
+      if (!hasTitle && block === null && !looksLikeIngredient(line) && line.length <= 100) {
+        hasTitle = true;
+        return { text: line, role: 'title' };
+      }
+      if (looksLikeSection(line)) return { text: line, role: 'section' };
+
+      // A list of ingredients is often followed straight away by the method
+      if (block !== 'steps' && looksLikeStep(line) && !looksLikeIngredient(line)) {
+        block = 'steps';
+        return { text: line, role: 'step' };
+      }
+      if (block === 'steps') return { text: line, role: 'step' };
+      if (block === 'ingredients' || looksLikeIngredient(line)) return { text: line, role: 'ingredient' };
+      return { text: line, role: 'skip' };
+    });
+};
+
+// Builds a recipe from the (possibly corrected) lines, in the same shape as a
+// web import so both go through the same mapping onto the form
+export const recipeFromLines = (lines: TextLine[]): ImportedRecipe => {
+  const details: RecipeDetails = {};
+  const ingredients: string[] = [];
+  const instructions: ImportedRecipe['instructions'] = [];
+  let section: string | null = null;
+  // Steps hard-wrapped across lines continue until a number or the end of a sentence
+  let continuing = false;
+
+  for (const { text, role } of lines) {
+    if (role === 'details') Object.assign(details, readDetails(text));
+    if (role === 'ingredient') ingredients.push(text.replace(BULLET, ''));
+    if (role === 'section') section = text.replace(/:$/, '').trim() || null;
+
+    if (role === 'step') {
+      const numbered = STEP_NUMBER.test(text);
+      const stepText = text.replace(STEP_NUMBER, '').replace(BULLET, '');
+      const previous = instructions[instructions.length - 1];
+
+      if (continuing && !numbered && previous && previous.section === section) {
+        previous.text = `${previous.text} ${stepText}`;
+      } else {
+        instructions.push({ text: stepText, section });
+      }
+      continuing = !/[.!?)]$/.test(stepText);
+    } else {
+      continuing = false;
+    }
+  }
+
+  const prepTime = details.prep_time ?? null;
+  const totalTime = details.total_time ?? null;
+
+  return {
+    title: lines.find(line => line.role === 'title')?.text.replace(/^#+\s*/, '').replace(/:$/, '') ?? '',
+    description: null,
+    ingredients,
+    instructions,
+    prep_time: prepTime,
+    cook_time: details.cook_time
+      ?? (totalTime !== null && totalTime > (prepTime ?? 0) ? totalTime - (prepTime ?? 0) : null),
+    total_time: totalTime,
+    servings: details.servings ?? null,
+    yield: null,
+    cuisines: [],
+    categories: [],
+    keywords: [],
+    image_url: null,
+    author: null,
+    source_url: null
+  };
+};
@@ -0,0 +1,245 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Enums, Tables } from '@/integrations/supabase/types';
+import { Ingredient, toIngredients } from '@/lib/ingredients';
+import { InstructionStep, toSteps } from '@/lib/instructions';
+import { RecipePhoto, removePhotos, toPhotos } from '@/lib/photos';
+
+export type Recipe = Omit<Tables<'recipes'>, 'ingredients' | 'instructions' | 'photos' | 'search_vector'> & {
+  ingredients: Ingredient[];
+  instructions: InstructionStep[];
+  photos: RecipePhoto[];
+  tags: string[];
+  // The current user's own favorite flag and 1-5 star rating
+  favorite: boolean;
+  rating: number | null;
+  // From the current user's cooking log; last_cooked is a YYYY-MM-DD date
+  last_cooked: string | null;
+  times_cooked: number;
+};
+
+export type RecipeRating = Pick<Recipe, 'favorite' | 'rating'>;
+export type RecipeCookStats = Pick<Recipe, 'last_cooked' | 'times_cooked'>;
+
+export type RecipeInput = Omit<
+  Recipe,
+  'id' | 'user_id' | 'created_at' | 'updated_at' | 'deleted_at' | 'import_batch_id' | keyof RecipeRating | keyof RecipeCookStats
+>;
+
+// Embeds the recipe's tags through the `recipe_tags` join table, and the
+// user's rating and cooking stats; RLS only returns their own rows for those
+export const RECIPE_SELECT = '*, tags(name), recipe_ratings(favorite, rating), recipe_cook_stats(last_cooked, times_cooked)';
+
+export type RecipeRow = Tables<'recipes'> & {
+  tags?: Pick<Tables<'tags'>, 'name'>[];
+  recipe_ratings?: RecipeRating[];
+  recipe_cook_stats?: Pick<Tables<'recipe_cook_stats'>, 'last_cooked' | 'times_cooked'>[];
+};
+
+// `search_vector` only exists for searching in Postgres, so it is dropped here
+export const toRecipe = ({
+  tags,
+  recipe_ratings,
+  recipe_cook_stats,
+  search_vector: _searchVector,
+  ...row
+}: RecipeRow): Recipe => ({
+  ...row,
+  ingredients: toIngredients(row.ingredients),
+  instructions: toSteps(row.instructions),
+  photos: toPhotos(row.photos),
+  tags: (tags ?? []).map(tag => tag.name).sort(),
+  favorite: recipe_ratings?.[0]?.favorite ?? false,
+  rating: recipe_ratings?.[0]?.rating ?? null,
+  last_cooked: recipe_cook_stats?.[0]?.last_cooked ?? null,
+  times_cooked: recipe_cook_stats?.[0]?.times_cooked ?? 0
+});
+
+// Lowercases, trims and de-duplicates tag names the same way `set_recipe_tags` does
+export const normalizeTags = (names: string[]) =>
+  [...new Set(names.map(name => name.trim().toLowerCase()).filter(Boolean))].sort();
+
+// 'all' keeps recipes carrying every selected tag, 'any' those carrying at least one
+export type TagMatchMode = 'all' | 'any';
+
+export type RecipeSort = Enums<'recipe_sort_key'>;
+export type RecipeView = Enums<'recipe_view_mode'>;
+
+export const recipeSortLabels: Record<RecipeSort, string> = {
+  created_at: 'Date added',
+  updated_at: 'Last updated',
+  title: 'Title',
+  total_time: 'Total time',
+  difficulty: 'Difficulty',
+  rating: 'Rating',
+  last_cooked: 'Last cooked',
+  times_cooked: 'Times cooked'
+};
+
+// Alphabetical, quickest and easiest first read naturally; dates, ratings and counts highest first
+export const defaultSortAscending = (sort: RecipeSort) =>
+  sort === 'title' || sort === 'total_time' || sort === 'difficulty';
+
+export interface RecipeFilters {
+  search: string;
+  cuisine: string | null;
+  difficulty: Enums<'difficulty_level'> | null;
+  tags: string[];
+  tagMatchMode: TagMatchMode;
+  favoritesOnly: boolean;
+  // 1-5; unrated recipes are left out when set
+  minRating: number | null;
+  // How close (0-1) a misspelled search must be to a title or ingredient; the server defaults to 0.5
+  similarity?: number;
+  // null orders search results by relevance
+  sort: RecipeSort | null;
+  ascending: boolean;
+}
+
+export const RECIPE_PAGE_SIZE = 24;
+
+// Full-text matches come back from Postgres wrapped in these markers
+const HIGHLIGHT_START = '⟪';
+const HIGHLIGHT_END = '⟫';
+
+export interface SearchHighlight {
+  title: string;
+  snippet: string | null;
+}
+
+// Splits highlighted text into alternating plain and matched parts
+export const splitHighlights = (text: string) =>
+  text
+    .split(HIGHLIGHT_START)
+    .flatMap((part, index) => {
+      if (index === 0) return [{ text: part, match: false }];
+      const [match, rest = ''] = part.split(HIGHLIGHT_END);
+      return [{ text: match, match: true }, { text: rest, match: false }];
+    })
+    .filter(part => part.text !== '');
+
+const fetchSearchHighlights = async (search: string, recipeIds: string[]) => {
+  const { data, error } = await supabase.rpc('search_recipe_highlights', {
+    p_search: search,
+    p_recipe_ids: recipeIds
+  });
+
+  if (error) throw error;
+  return Object.fromEntries(
+    data.map(row => [row.recipe_id, { title: row.title, snippet: row.snippet }])
+  ) as Record<string, SearchHighlight>;
+};
+
+// Filters, sorts and paginates through the `search_recipes` function
+export const searchRecipes = async (filters: RecipeFilters, page = 0, pageCount = 1) => {
+  const from = page * RECIPE_PAGE_SIZE;
+  const search = filters.search.trim();
+  const { data, error, count } = await supabase
+    .rpc('search_recipes', {
+      p_search: search || undefined,
+      p_cuisine: filters.cuisine ?? undefined,
+      p_difficulty: filters.difficulty ?? undefined,
+      p_tags: filters.tags.length > 0 ? filters.tags : undefined,
+      p_match_all_tags: filters.tagMatchMode === 'all',
+      p_similarity: filters.similarity,
+      p_sort: filters.sort ?? undefined,
+      p_ascending: filters.ascending,
+      p_favorites_only: filters.favoritesOnly,
+      p_min_rating: filters.minRating ?? undefined
+    }, { count: 'exact' })
+    .select(RECIPE_SELECT)
+    .range(from, from + RECIPE_PAGE_SIZE * pageCount - 1)
+    .returns<RecipeRow[]>();
+
+  if (error) throw error;
+
+  const recipes = data.map(toRecipe);
+  // Snippets are nice to have, so a failure here should not hide the results
+  const highlights = search && recipes.length > 0
+    ? await fetchSearchHighlights(search, recipes.map(recipe => recipe.id)).catch(() => ({}))
+    : {};
+
+  return { recipes, total: count ?? 0, highlights };
+};
+
+// "Did you mean" correction built from the user's own titles and ingredients, or null
+export const suggestSearch = async (search: string) => {
+  const { data, error } = await supabase.rpc('suggest_recipe_search', { p_search: search });
+  if (error) throw error;
+  return data || null;
+};
+
+export const saveRecipe = async ({ tags, ...recipe }: RecipeInput, userId: string, existing?: Recipe) => {
+  const query = existing
+    ? supabase.from('recipes').update({ ...recipe, user_id: userId }).eq('id', existing.id)
+    : supabase.from('recipes').insert({ ...recipe, user_id: userId });
+
+  const { data, error } = await query.select().single();
+  if (error) throw error;
+
+  const { data: savedTags, error: tagsError } = await supabase.rpc('set_recipe_tags', {
+    p_recipe_id: data.id,
+    p_tag_names: normalizeTags(tags)
+  });
+  if (tagsError) throw tagsError;
+
+  return toRecipe({
+    ...data,
+    tags: savedTags,
+    recipe_ratings: existing ? [{ favorite: existing.favorite, rating: existing.rating }] : [],
+    recipe_cook_stats: existing ? [{ last_cooked: existing.last_cooked, times_cooked: existing.times_cooked }] : []
+  });
+};
+
+// Ratings are per user, so this works the same for recipes the user doesn't own
+export const rateRecipe = async (recipeId: string, userId: string, rating: RecipeRating) => {
+  const { error } = await supabase
+    .from('recipe_ratings')
+    .upsert({ user_id: userId, recipe_id: recipeId, ...rating });
+
+  if (error) throw error;
+};
+
+// Moves a recipe to the trash, where it stays until restored or purged
+export const trashRecipe = async (recipeId: string) => {
+  const { error } = await supabase
+    .from('recipes')
+    .update({ deleted_at: new Date().toISOString() })
+    .eq('id', recipeId);
+
+  if (error) throw error;
+};
+
+export const restoreRecipe = async (recipeId: string) => {
+  const { error } = await supabase
+    .from('recipes')
+    .update({ deleted_at: null })
+    .eq('id', recipeId);
+
+  if (error) throw error;
+};
+
+// Deletes a recipe for good, along with every photo it or its history used
+export const deleteRecipe = async (recipe: Pick<Recipe, 'id' | 'photos'>) => {
+  // Photos dropped while editing stay in storage for restoring older versions,
+  // so gather those before the revisions are deleted along with the recipe
+  const { data: revisions } = await supabase
+    .from('recipe_revisions')
+    .select('snapshot')
+    .eq('recipe_id', recipe.id);
+
+  const { error } = await supabase
+    .from('recipes')
+    .delete()
+    .eq('id', recipe.id);
+
+  if (error) throw error;
+
+  const photos = [
+    ...recipe.photos,
+    ...(revisions ?? []).flatMap(({ snapshot }) =>
+      snapshot && typeof snapshot === 'object' && !Array.isArray(snapshot) ? toPhotos(snapshot.photos ?? []) : []
+    )
+  ];
+  const unique = [...new Map(photos.map(photo => [photo.path, photo])).values()];
+  await removePhotos(unique).catch(() => undefined);
+};
@@ -0,0 +1,148 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Constants, type Json, type Tables } from '@/integrations/supabase/types';
+import { formatIngredient, toIngredients } from '@/lib/ingredients';
+import { toSteps } from '@/lib/instructions';
+import { toPhotos } from '@/lib/photos';
+import { RECIPE_SELECT, Recipe, RecipeRow, toRecipe } from '@/lib/recipes';
+import { isOneOf } from '@/lib/search-params';
+
+// The editable parts of a recipe, as stored in `recipe_revisions.snapshot`
+export type RecipeSnapshot = Pick<
+  Recipe,
+  'title' | 'ingredients' | 'instructions' | 'difficulty' | 'cuisine' | 'prep_time' | 'cook_time' | 'servings' | 'photos' | 'tags'
+>;
+
+export type RecipeRevision = Omit<Tables<'recipe_revisions'>, 'snapshot'> & {
+  snapshot: RecipeSnapshot;
+};
+
+const toNumber = (value: Json | undefined) =>
+  typeof value === 'number' && Number.isFinite(value) ? value : null;
+
+export const toSnapshot = (json: Json): RecipeSnapshot => {
+  const value = json && typeof json === 'object' && !Array.isArray(json) ? json : {};
+  const difficulty = typeof value.difficulty === 'string' ? value.difficulty : null;
+
+  return {
+    title: typeof value.title === 'string' ? value.title : '',
+    ingredients: toIngredients(value.ingredients ?? []),
+    instructions: toSteps(value.instructions ?? []),
+    difficulty: isOneOf(Constants.public.Enums.difficulty_level, difficulty) ? difficulty : 'medium',
+    cuisine: typeof value.cuisine === 'string' ? value.cuisine : 'other',
+    prep_time: toNumber(value.prep_time),
+    cook_time: toNumber(value.cook_time),
+    servings: toNumber(value.servings),
+    photos: toPhotos(value.photos ?? []),
+    tags: Array.isArray(value.tags) ? value.tags.filter((tag): tag is string => typeof tag === 'string') : []
+  };
+};
+
+export const toRecipeSnapshot = (recipe: Recipe): RecipeSnapshot => {
+  const { title, ingredients, instructions, difficulty, cuisine, prep_time, cook_time, servings, photos, tags } = recipe;
+  return { title, ingredients, instructions, difficulty, cuisine, prep_time, cook_time, servings, photos, tags };
+};
+
+// Newest first
+export const fetchRevisions = async (recipeId: string) => {
+  const { data, error } = await supabase
+    .from('recipe_revisions')
+    .select('*')
+    .eq('recipe_id', recipeId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data.map((row): RecipeRevision => ({ ...row, snapshot: toSnapshot(row.snapshot) }));
+};
+
+export const restoreRevision = async (revisionId: string) => {
+  const { data, error } = await supabase
+    .rpc('restore_recipe_revision', { p_revision_id: revisionId })
+    .select(RECIPE_SELECT)
+    .returns<RecipeRow[]>()
+    .single();
+
+  if (error) throw error;
+  return toRecipe(data);
+};
+
+export type FieldChange = {
+  field: 'title' | 'difficulty' | 'cuisine' | 'prep_time' | 'cook_time' | 'servings';
+  before: string | number | null;
+  after: string | number | null;
+};
+
+export type LineChange = {
+  type: 'added' | 'removed' | 'unchanged';
+  text: string;
+};
+
+export interface RecipeDiff {
+  fields: FieldChange[];
+  ingredients: LineChange[];
+  instructions: LineChange[];
+  tags: { added: string[]; removed: string[] };
+  photos: { added: number; removed: number };
+}
+
+const DIFF_FIELDS: FieldChange['field'][] = ['title', 'difficulty', 'cuisine', 'prep_time', 'cook_time', 'servings'];
+
+// Line diff via longest common subsequence; recipes are short enough for the O(n*m) table
+const diffLines = (before: string[], after: string[]): LineChange[] => {
+  const lengths = Array.from({ length: before.length + 1 }, () => new Array<number>(after.length + 1).fill(0));
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] = before[i] === after[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const changes: LineChange[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      changes.push({ type: 'unchanged', text: before[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      changes.push({ type: 'removed', text: before[i++] });
+    } else {
+      changes.push({ type: 'added', text: after[j++] });
+    }
+  }
+  while (i < before.length) changes.push({ type: 'removed', text: before[i++] });
+  while (j < after.length) changes.push({ type: 'added', text: after[j++] });
+  return changes;
+};
+
+// What changed going from `before` to `after`
+export const diffSnapshots = (before: RecipeSnapshot, after: RecipeSnapshot): RecipeDiff => {
+  const beforePhotos = new Set(before.photos.map(photo => photo.path));
+  const afterPhotos = new Set(after.photos.map(photo => photo.path));
+
+  return {
+    fields: DIFF_FIELDS
+      .filter(field => before[field] !== after[field])
+      .map(field => ({ field, before: before[field], after: after[field] })),
+    ingredients: diffLines(before.ingredients.map(formatIngredient), after.ingredients.map(formatIngredient)),
+    instructions: diffLines(before.instructions.map(step => step.text), after.instructions.map(step => step.text)),
+    tags: {
+      added: after.tags.filter(tag => !before.tags.includes(tag)),
+      removed: before.tags.filter(tag => !after.tags.includes(tag))
+    },
+    photos: {
+      added: [...afterPhotos].filter(path => !beforePhotos.has(path)).length,
+      removed: [...beforePhotos].filter(path => !afterPhotos.has(path)).length
+    }
+  };
+};
+
+export const isEmptyDiff = (diff: RecipeDiff) =>
+  diff.fields.length === 0 &&
+  diff.ingredients.every(line => line.type === 'unchanged') &&
+  diff.instructions.every(line => line.type === 'unchanged') &&
+  diff.tags.added.length === 0 &&
+  diff.tags.removed.length === 0 &&
+  diff.photos.added === 0 &&
+  diff.photos.removed === 0;
@@ -0,0 +1,95 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Constants, type Json, type Tables } from '@/integrations/supabase/types';
+import type { RecipeFilters } from '@/lib/recipes';
+import { RecipeSearchState, isOneOf, writeSearchParams } from '@/lib/search-params';
+
+// The dashboard state a saved search re-applies; stored as JSON in `saved_searches.query`
+export type SavedSearchQuery = Omit<RecipeFilters, 'similarity'>;
+
+export type SavedSearch = Omit<Tables<'saved_searches'>, 'query'> & {
+  query: SavedSearchQuery;
+};
+
+const isRecord = (value: Json): value is { [key: string]: Json | undefined } =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asString = (value: Json | undefined) => (typeof value === 'string' ? value : null);
+
+// Tolerant of rows saved by older versions: unknown or missing keys fall back to the defaults
+export const toSavedSearchQuery = (json: Json): SavedSearchQuery => {
+  const query = isRecord(json) ? json : {};
+  const difficulty = asString(query.difficulty);
+  const sort = asString(query.sort);
+
+  return {
+    search: asString(query.search) ?? '',
+    cuisine: asString(query.cuisine),
+    difficulty: isOneOf(Constants.public.Enums.difficulty_level, difficulty) ? difficulty : null,
+    tags: Array.isArray(query.tags) ? query.tags.filter((tag): tag is string => typeof tag === 'string') : [],
+    tagMatchMode: query.tagMatchMode === 'any' ? 'any' : 'all',
+    favoritesOnly: query.favoritesOnly === true,
+    minRating: typeof query.minRating === 'number' && query.minRating >= 1 && query.minRating <= 5
+      ? Math.round(query.minRating)
+      : null,
+    sort: isOneOf(Constants.public.Enums.recipe_sort_key, sort) ? sort : null,
+    ascending: query.ascending === true
+  };
+};
+
+const toSavedSearch = (row: Tables<'saved_searches'>): SavedSearch => ({
+  ...row,
+  query: toSavedSearchQuery(row.query)
+});
+
+// The dashboard URL that shows a saved search's results
+export const savedSearchParams = (query: SavedSearchQuery) => {
+  const state: RecipeSearchState = { ...query, pages: 1 };
+  return writeSearchParams(state);
+};
+
+export const fetchSavedSearches = async () => {
+  const { data, error } = await supabase
+    .from('saved_searches')
+    .select('*')
+    .order('name');
+
+  if (error) throw error;
+  return data.map(toSavedSearch);
+};
+
+export const createSavedSearch = async (name: string, filters: RecipeFilters, userId: string) => {
+  const { similarity: _similarity, ...query } = filters;
+
+  const { data, error } = await supabase
+    .from('saved_searches')
+    .insert({ user_id: userId, name: name.trim(), query: { ...query, search: query.search.trim() } })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return toSavedSearch(data);
+};
+
+export const renameSavedSearch = async (id: string, name: string) => {
+  const { data, error } = await supabase
+    .from('saved_searches')
+    .update({ name: name.trim() })
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return toSavedSearch(data);
+};
+
+export const deleteSavedSearch = async (id: string) => {
+  const { error } = await supabase.from('saved_searches').delete().eq('id', id);
+  if (error) throw error;
+};
+
+// Number of recipes each saved search matches right now, keyed by saved search id
+export const fetchSavedSearchCounts = async () => {
+  const { data, error } = await supabase.rpc('saved_search_counts');
+  if (error) throw error;
+  return Object.fromEntries(data.map(row => [row.saved_search_id, row.recipe_count])) as Record<string, number>;
+};
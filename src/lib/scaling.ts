@@ -0,0 +1,93 @@
+import { Ingredient } from '@/lib/ingredients';
+import { getUnit } from '@/lib/units';
+
+export interface ScaledIngredient {
+  ingredient: Ingredient;
+  // False when the amount could not be read, so the line is shown as written
+  scaled: boolean;
+}
+
+// Units we move between when an amount grows or shrinks, smallest first
+const ladders = [
+  ['tsp', 'tbsp', 'cup'],
+  ['ml', 'l'],
+  ['g', 'kg'],
+  ['oz', 'lb']
+];
+
+// Smallest amount of a unit worth promoting into (e.g. ¼ cup rather than 4 tbsp)
+const promoteAt: Record<string, number> = {
+  tbsp: 1,
+  cup: 0.25,
+  l: 1,
+  kg: 1,
+  lb: 1
+};
+
+const metricUnits = new Set(['ml', 'cl', 'dl', 'l', 'g', 'kg']);
+
+const noAmountNeeded = /\b(to taste|as needed|for (serving|garnish|frying|dusting))\b/i;
+
+// Picks the most natural unit on the same ladder for an amount
+export const promoteUnit = (quantity: number, unitId: string | null) => {
+  const ladder = ladders.find(units => unitId !== null && units.includes(unitId));
+  const from = getUnit(unitId);
+  if (!ladder || !from?.base) return { quantity, unit: unitId };
+
+  const base = quantity * from.base;
+  for (let i = ladder.length - 1; i >= 0; i--) {
+    const unit = getUnit(ladder[i])!;
+    const value = base / unit.base!;
+    if (i === 0 || value >= (promoteAt[unit.id] ?? 1)) {
+      return { quantity: value, unit: unit.id };
+    }
+  }
+  return { quantity, unit: unitId };
+};
+
+// Metric amounts round to whole numbers (or fives); everything else snaps to eighths or thirds
+export const roundQuantity = (quantity: number, unitId: string | null) => {
+  if (unitId && metricUnits.has(unitId)) {
+    if (unitId === 'l' || unitId === 'kg') return Math.round(quantity * 100) / 100;
+    if (quantity >= 100) return Math.round(quantity / 5) * 5;
+    if (quantity >= 10) return Math.round(quantity);
+    return Math.round(quantity * 10) / 10;
+  }
+  if (quantity < 1 / 8) return Math.round(quantity * 100) / 100;
+
+  const eighths = Math.round(quantity * 8) / 8;
+  const thirds = Math.round(quantity * 3) / 3;
+  return Math.abs(thirds - quantity) < Math.abs(eighths - quantity) ? thirds : eighths;
+};
+
+export const canScale = (ingredient: Ingredient) =>
+  ingredient.quantity !== null || noAmountNeeded.test(`${ingredient.item} ${ingredient.note ?? ''}`);
+
+export const scaleIngredient = (ingredient: Ingredient, factor: number): ScaledIngredient => {
+  if (ingredient.quantity === null) {
+    return { ingredient, scaled: canScale(ingredient) };
+  }
+  if (factor === 1 || ingredient.quantity === 0) return { ingredient, scaled: true };
+
+  const promoted = promoteUnit(ingredient.quantity * factor, ingredient.unit);
+  const ratio = promoted.quantity / (ingredient.quantity * factor);
+  const quantityMax = ingredient.quantity_max !== null
+    ? roundQuantity(ingredient.quantity_max * factor * ratio, promoted.unit)
+    : null;
+
+  return {
+    scaled: true,
+    ingredient: {
+      ...ingredient,
+      quantity: roundQuantity(promoted.quantity, promoted.unit),
+      quantity_max: quantityMax,
+      unit: promoted.unit
+    }
+  };
+};
+
+export const scaleIngredients = (ingredients: Ingredient[], factor: number) =>
+  ingredients.map(ingredient => scaleIngredient(ingredient, factor));
+
+export const servingsFactor = (baseServings: number | null, targetServings: number) =>
+  baseServings && baseServings > 0 ? targetServings / baseServings : 1;
@@ -0,0 +1,55 @@
+import { Constants } from '@/integrations/supabase/types';
+import type { RecipeFilters, RecipeSort } from '@/lib/recipes';
+
+// Dashboard state as it appears in the query string, e.g.
+// /?q=garlic&cuisine=thai&tag=weeknight&tag=vegan&match=any&fav=1&rating=4&sort=total_time&dir=asc&page=2
+export type RecipeSearchState = Omit<RecipeFilters, 'sort' | 'ascending' | 'similarity'> & {
+  // undefined falls back to the user's saved preference; null is "best match"
+  sort: RecipeSort | null | undefined;
+  ascending: boolean | undefined;
+  // Number of pages loaded with "Load more"
+  pages: number;
+};
+
+const RELEVANCE = 'relevance';
+
+export const isOneOf = <T extends string>(values: readonly T[], value: string | null): value is T =>
+  value !== null && (values as readonly string[]).includes(value);
+
+export const readSearchParams = (params: URLSearchParams): RecipeSearchState => {
+  const difficulty = params.get('difficulty');
+  const sort = params.get('sort');
+  const dir = params.get('dir');
+  const minRating = parseInt(params.get('rating') ?? '', 10);
+  const pages = parseInt(params.get('page') ?? '', 10);
+
+  return {
+    search: params.get('q') ?? '',
+    cuisine: params.get('cuisine') || null,
+    difficulty: isOneOf(Constants.public.Enums.difficulty_level, difficulty) ? difficulty : null,
+    tags: params.getAll('tag'),
+    tagMatchMode: params.get('match') === 'any' ? 'any' : 'all',
+    favoritesOnly: params.get('fav') === '1',
+    minRating: minRating >= 1 && minRating <= 5 ? minRating : null,
+    sort: sort === RELEVANCE ? null : isOneOf(Constants.public.Enums.recipe_sort_key, sort) ? sort : undefined,
+    ascending: dir === 'asc' ? true : dir === 'desc' ? false : undefined,
+    // Capped so a hand-edited link can't load the whole library in one request
+    pages: Number.isFinite(pages) && pages > 1 ? Math.min(pages, 20) : 1
+  };
+};
+
+// Defaults are left out so the plain dashboard keeps a clean URL
+export const writeSearchParams = (state: RecipeSearchState) => {
+  const params = new URLSearchParams();
+  if (state.search.trim()) params.set('q', state.search);
+  if (state.cuisine) params.set('cuisine', state.cuisine);
+  if (state.difficulty) params.set('difficulty', state.difficulty);
+  state.tags.forEach(tag => params.append('tag', tag));
+  if (state.tagMatchMode === 'any') params.set('match', 'any');
+  if (state.favoritesOnly) params.set('fav', '1');
+  if (state.minRating) params.set('rating', String(state.minRating));
+  if (state.sort !== undefined) params.set('sort', state.sort ?? RELEVANCE);
+  if (state.ascending !== undefined) params.set('dir', state.ascending ? 'asc' : 'desc');
+  if (state.pages > 1) params.set('page', String(state.pages));
+  return params;
+};
@@ -0,0 +1,34 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { RecipePhoto, toPhotos } from '@/lib/photos';
+
+// Views type every column as nullable, though these are always set for trashed rows
+export interface TrashedRecipe {
+  id: string;
+  title: string;
+  photos: RecipePhoto[];
+  deleted_at: string;
+  // When the scheduled purge deletes it for good, from the owner's retention setting
+  purge_at: string;
+}
+
+export const TRASH_RETENTION_OPTIONS = [7, 14, 30, 60, 90];
+
+const toTrashedRecipe = (row: Tables<'trashed_recipes'>): TrashedRecipe => ({
+  id: row.id ?? '',
+  title: row.title ?? '',
+  photos: toPhotos(row.photos ?? []),
+  deleted_at: row.deleted_at ?? '',
+  purge_at: row.purge_at ?? ''
+});
+
+// Most recently deleted first
+export const fetchTrashedRecipes = async () => {
+  const { data, error } = await supabase
+    .from('trashed_recipes')
+    .select('*')
+    .order('deleted_at', { ascending: false });
+
+  if (error) throw error;
+  return data.map(toTrashedRecipe);
+};
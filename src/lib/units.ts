@@ -0,0 +1,82 @@
+export type UnitKind = 'volume' | 'mass' | 'count';
+export type UnitSystem = 'us' | 'metric';
+
+export interface UnitDefinition {
+  id: string;
+  kind: UnitKind;
+  system?: UnitSystem;
+  // Size in millilitres (volume) or grams (mass)
+  base?: number;
+  singular: string;
+  plural: string;
+  aliases: string[];
+}
+
+// Canonical ids match the ones written by the structured-ingredients migration
+export const units: UnitDefinition[] = [
+  { id: 'tsp', kind: 'volume', system: 'us', base: 4.92892, singular: 'tsp', plural: 'tsp', aliases: ['teaspoon', 'teaspoons', 'tsps', 'tsp', 't'] },
+  { id: 'tbsp', kind: 'volume', system: 'us', base: 14.7868, singular: 'tbsp', plural: 'tbsp', aliases: ['tablespoon', 'tablespoons', 'tbsps', 'tbsp', 'tbs', 'tbl', 'T'] },
+  { id: 'fl oz', kind: 'volume', system: 'us', base: 29.5735, singular: 'fl oz', plural: 'fl oz', aliases: ['fluid ounce', 'fluid ounces', 'fl. oz', 'fl oz', 'floz'] },
+  { id: 'cup', kind: 'volume', system: 'us', base: 236.588, singular: 'cup', plural: 'cups', aliases: ['cup', 'cups', 'c'] },
+  { id: 'pint', kind: 'volume', system: 'us', base: 473.176, singular: 'pint', plural: 'pints', aliases: ['pint', 'pints', 'pt', 'pts'] },
+  { id: 'quart', kind: 'volume', system: 'us', base: 946.353, singular: 'quart', plural: 'quarts', aliases: ['quart', 'quarts', 'qt', 'qts'] },
+  { id: 'gallon', kind: 'volume', system: 'us', base: 3785.41, singular: 'gallon', plural: 'gallons', aliases: ['gallon', 'gallons', 'gal'] },
+  { id: 'ml', kind: 'volume', system: 'metric', base: 1, singular: 'ml', plural: 'ml', aliases: ['millilitre', 'millilitres', 'milliliter', 'milliliters', 'ml', 'mls'] },
+  { id: 'cl', kind: 'volume', system: 'metric', base: 10, singular: 'cl', plural: 'cl', aliases: ['centilitre', 'centilitres', 'centiliter', 'centiliters', 'cl'] },
+  { id: 'dl', kind: 'volume', system: 'metric', base: 100, singular: 'dl', plural: 'dl', aliases: ['decilitre', 'decilitres', 'deciliter', 'deciliters', 'dl'] },
+  { id: 'l', kind: 'volume', system: 'metric', base: 1000, singular: 'l', plural: 'l', aliases: ['litre', 'litres', 'liter', 'liters', 'l'] },
+  { id: 'g', kind: 'mass', system: 'metric', base: 1, singular: 'g', plural: 'g', aliases: ['gram', 'grams', 'gramme', 'grammes', 'gr', 'g'] },
+  { id: 'kg', kind: 'mass', system: 'metric', base: 1000, singular: 'kg', plural: 'kg', aliases: ['kilogram', 'kilograms', 'kilo', 'kilos', 'kg', 'kgs'] },
+  { id: 'oz', kind: 'mass', system: 'us', base: 28.3495, singular: 'oz', plural: 'oz', aliases: ['ounce', 'ounces', 'oz'] },
+  { id: 'lb', kind: 'mass', system: 'us', base: 453.592, singular: 'lb', plural: 'lb', aliases: ['pound', 'pounds', 'lbs', 'lb', '#'] },
+  { id: 'pinch', kind: 'count', singular: 'pinch', plural: 'pinches', aliases: ['pinch', 'pinches'] },
+  { id: 'dash', kind: 'count', singular: 'dash', plural: 'dashes', aliases: ['dash', 'dashes'] },
+  { id: 'clove', kind: 'count', singular: 'clove', plural: 'cloves', aliases: ['clove', 'cloves'] },
+  { id: 'can', kind: 'count', singular: 'can', plural: 'cans', aliases: ['can', 'cans', 'tin', 'tins'] },
+  { id: 'package', kind: 'count', singular: 'package', plural: 'packages', aliases: ['package', 'packages', 'pkg', 'pkgs', 'packet', 'packets'] },
+  { id: 'stick', kind: 'count', singular: 'stick', plural: 'sticks', aliases: ['stick', 'sticks'] },
+  { id: 'slice', kind: 'count', singular: 'slice', plural: 'slices', aliases: ['slice', 'slices'] },
+  { id: 'bunch', kind: 'count', singular: 'bunch', plural: 'bunches', aliases: ['bunch', 'bunches'] },
+  { id: 'sprig', kind: 'count', singular: 'sprig', plural: 'sprigs', aliases: ['sprig', 'sprigs'] },
+  { id: 'handful', kind: 'count', singular: 'handful', plural: 'handfuls', aliases: ['handful', 'handfuls'] },
+  { id: 'piece', kind: 'count', singular: 'piece', plural: 'pieces', aliases: ['piece', 'pieces', 'pc', 'pcs'] }
+];
+
+const unitsById = new Map(units.map(unit => [unit.id, unit]));
+
+// Aliases are matched case-insensitively except where case is significant (T vs t)
+const caseSensitiveAliases = new Set(['t', 'T']);
+
+const sameAlias = (alias: string, text: string) =>
+  caseSensitiveAliases.has(alias) ? alias === text : alias.toLowerCase() === text.toLowerCase();
+
+const aliasEntries = units
+  .flatMap(unit => unit.aliases.map(alias => ({ alias, unit })))
+  .sort((a, b) => b.alias.length - a.alias.length);
+
+export const getUnit = (id: string | null) => (id ? unitsById.get(id) : undefined);
+
+export const findUnit = (text: string) => {
+  const trimmed = text.trim().replace(/\.$/, '');
+  return aliasEntries.find(({ alias }) => sameAlias(alias, trimmed))?.unit;
+};
+
+// Matches the longest unit alias at the start of `text`, returning the unit and the remainder
+export const matchUnitPrefix = (text: string) => {
+  for (const { alias, unit } of aliasEntries) {
+    if (!sameAlias(alias, text.slice(0, alias.length))) continue;
+
+    const rest = text.slice(alias.length);
+    const boundary = rest.match(/^\.?(?=\s|$|[,(])/);
+    if (!boundary) continue;
+
+    return { unit, rest: rest.slice(boundary[0].length).trim() };
+  }
+  return null;
+};
+
+export const unitLabel = (id: string | null, quantity: number | null) => {
+  const unit = getUnit(id);
+  if (!unit) return id ?? '';
+  return quantity !== null && quantity > 1 ? unit.plural : unit.singular;
+};
@@ -0,0 +1,439 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { useAuth } from '@/hooks/useAuth';
+import { useCollections } from '@/hooks/useCollections';
+import { useCuisines } from '@/hooks/useCuisines';
+import { useSavedSearches } from '@/hooks/useSavedSearches';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { ImportColumnMapping } from '@/components/ImportColumnMapping';
+import { ImportReport } from '@/components/ImportReport';
+import { RecipeSidebar } from '@/components/RecipeSidebar';
+import { SidebarInset, SidebarProvider, SidebarTrigger } from '@/components/ui/sidebar';
+import { ArrowLeft, FileUp, Loader2, Undo2 } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  ColumnMapping,
+  ImportBatch,
+  ImportRow,
+  ImportSource,
+  REQUIRED_IMPORT_FIELDS,
+  RawRecipe,
+  createImportBatch,
+  fetchImportBatches,
+  fetchRecipeTitles,
+  guessColumnMapping,
+  importRecipes,
+  rawRecipesFromCsv,
+  rollbackImportBatch,
+  validateRecipes
+} from '@/lib/bulk-import';
+import { parseCsv } from '@/lib/csv';
+import { IMPORT_FILE_TYPES, detectImportSource, importSourceLabels, readRecipeFile } from '@/lib/importers/formats';
+import { decodeText } from '@/lib/importers/shared';
+
+type Step = 'upload' | 'map' | 'review' | 'importing' | 'done';
+
+interface ImportFile {
+  name: string;
+  source: ImportSource;
+  // CSV only: the header row and the rows under it
+  headers: string[];
+  rows: string[][];
+}
+
+const BulkImport = () => {
+  const { user, loading: authLoading } = useAuth();
+  const { cuisines } = useCuisines();
+  const { refreshCounts } = useSavedSearches();
+  const { refresh: refreshCollections } = useCollections();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [step, setStep] = useState<Step>('upload');
+  const [file, setFile] = useState<ImportFile | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [report, setReport] = useState<ImportRow[]>([]);
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [checking, setChecking] = useState(false);
+  const [progress, setProgress] = useState({ imported: 0, total: 0 });
+  const [batch, setBatch] = useState<ImportBatch | null>(null);
+  const [batches, setBatches] = useState<ImportBatch[]>([]);
+  const [toRollBack, setToRollBack] = useState<ImportBatch | null>(null);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate('/auth');
+    }
+  }, [user, authLoading, navigate]);
+
+  const refreshBatches = useCallback(() => {
+    fetchImportBatches()
+      .then(setBatches)
+      .catch(() => setBatches([]));
+  }, []);
+
+  useEffect(() => {
+    if (user) refreshBatches();
+  }, [user, refreshBatches]);
+
+  const ready = report.filter(row => row.recipe && !(skipDuplicates && row.duplicate));
+  const invalid = report.filter(row => !row.recipe);
+  const duplicates = report.filter(row => row.duplicate);
+  const incomplete = report.filter(row => row.recipe && row.unmapped.length > 0);
+
+  const reset = () => {
+    setStep('upload');
+    setFile(null);
+    setMapping(null);
+    setReport([]);
+    setBatch(null);
+  };
+
+  const checkRecipes = async (recipes: RawRecipe[]) => {
+    if (!user) return;
+
+    setChecking(true);
+    try {
+      setReport(validateRecipes(recipes, cuisines, await fetchRecipeTitles(user.id)));
+      setStep('review');
+    } catch (error) {
+      toast({
+        title: 'Error checking recipes',
+        description: (error as Error).message,
+        variant: 'destructive'
+      });
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleFiles = async (selected: File[]) => {
+    if (selected.length === 0) return;
+
+    try {
+      const files = await Promise.all(selected.map(async (entry) => ({
+        name: entry.name,
+        data: new Uint8Array(await entry.arrayBuffer())
+      })));
+      const source = detectImportSource(files[0].name, files[0].data);
+      if (files.some(entry => detectImportSource(entry.name, entry.data) !== source)) {
+        throw new Error('Choose files of one kind at a time');
+      }
+
+      if (source === 'csv') {
+        if (files.length > 1) throw new Error('Choose one spreadsheet at a time');
+        const [headers = [], ...rows] = parseCsv(decodeText(files[0].data));
+        if (rows.length === 0) throw new Error('The file has no rows under its header');
+        setFile({ name: files[0].name, source, headers, rows });
+        setMapping(guessColumnMapping(headers));
+        setStep('map');
+        return;
+      }
+
+      const recipes = (await Promise.all(files.map(entry => readRecipeFile(source, entry.name, entry.data)))).flat();
+      const name = files.length === 1 ? files[0].name : `${files.length} ${importSourceLabels[source]} files`;
+      setFile({ name, source, headers: [], rows: [] });
+      await checkRecipes(recipes);
+    } catch (error) {
+      toast({
+        title: 'Could not read file',
+        description: (error as Error).message,
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const handleImport = async () => {
+    if (!user || !file) return;
+
+    const recipes = ready.flatMap(row => (row.recipe ? [row.recipe] : []));
+    setProgress({ imported: 0, total: recipes.length });
+    setStep('importing');
+
+    let created: ImportBatch | null = null;
+    try {
+      created = await createImportBatch(file.source, file.name, user.id);
+      setBatch(created);
+      const imported = await importRecipes(created, recipes, user.id, (count) =>
+        setProgress({ imported: count, total: recipes.length })
+      );
+      toast({
+        title: `Imported ${imported} ${imported === 1 ? 'recipe' : 'recipes'}`
+      });
+    } catch (error) {
+      toast({
+        title: created ? 'Import stopped part way' : 'Error importing recipes',
+        description: (error as Error).message,
+        variant: 'destructive'
+      });
+      if (!created) {
+        setStep('review');
+        return;
+      }
+    } finally {
+      refreshCounts();
+      refreshBatches();
+    }
+    setStep('done');
+  };
+
+  const handleRollBack = async () => {
+    if (!toRollBack) return;
+
+    try {
+      await rollbackImportBatch(toRollBack.id);
+      if (batch?.id === toRollBack.id) reset();
+      refreshBatches();
+      refreshCounts();
+      refreshCollections();
+      toast({
+        title: 'Import undone',
+        description: `${toRollBack.recipe_count} ${toRollBack.recipe_count === 1 ? 'recipe was' : 'recipes were'} removed.`
+      });
+    } catch (error) {
+      toast({
+        title: 'Error undoing import',
+        description: (error as Error).message,
+        variant: 'destructive'
+      });
+    } finally {
+      setToRollBack(null);
+    }
+  };
+
+  const missingFields = mapping ? REQUIRED_IMPORT_FIELDS.filter(field => mapping[field] === null) : [];
+
+  if (authLoading || !user) return null;
+
+  return (
+    <SidebarProvider>
+      <RecipeSidebar />
+      <SidebarInset className="min-h-screen bg-background">
+        <div className="w-full max-w-4xl mx-auto p-4 space-y-6">
+          <div className="flex items-center gap-2">
+            <SidebarTrigger />
+            <Button variant="ghost" size="sm" asChild>
+              <Link to="/">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                All recipes
+              </Link>
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <h1 className="text-3xl font-bold">Import recipes</h1>
+            <p className="text-muted-foreground">
+              Bring in many recipes at once from a spreadsheet saved as CSV, a JSON export of this app,
+              or files from Paprika, MealMaster or Cooklang.
+            </p>
+          </div>
+
+          {step === 'upload' && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Choose a file</CardTitle>
+                <CardDescription>
+                  Spreadsheets need a header row and one recipe per row. Put each ingredient and step
+                  on its own line within its cell. Several MealMaster or Cooklang files can be chosen
+                  at once. Nothing is saved until you've checked the results.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Label htmlFor="import-file" className="sr-only">Recipe file</Label>
+                <Input
+                  id="import-file"
+                  type="file"
+                  accept={IMPORT_FILE_TYPES}
+                  multiple
+                  disabled={checking}
+                  onChange={(e) => {
+                    handleFiles(Array.from(e.target.files ?? []));
+                    e.target.value = '';
+                  }}
+                />
+                {checking && (
+                  <p className="mt-3 flex items-center text-sm text-muted-foreground">
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    Checking recipes...
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {step === 'map' && file && mapping && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Match the columns</CardTitle>
+                <CardDescription>
+                  {file.name}: {file.rows.length} {file.rows.length === 1 ? 'row' : 'rows'}. Pick the column
+                  each part of a recipe comes from.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <ImportColumnMapping
+                  headers={file.headers}
+                  sample={file.rows[0]}
+                  mapping={mapping}
+                  onChange={setMapping}
+                />
+                <div className="flex justify-end gap-2">
+                  <Button variant="outline" onClick={reset}>
+                    Back
+                  </Button>
+                  <Button
+                    onClick={() => checkRecipes(rawRecipesFromCsv(file.rows, mapping))}
+                    disabled={missingFields.length > 0 || checking}
+                  >
+                    {checking && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Check Recipes
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {step === 'review' && file && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Check before importing</CardTitle>
+                <CardDescription>
+                  {report.length} {report.length === 1 ? 'recipe' : 'recipes'} in {file.name}
+                  {' · '}{report.length - invalid.length} valid
+                  {invalid.length > 0 && ` · ${invalid.length} with errors, which will be left out`}
+                  {duplicates.length > 0 && ` · ${duplicates.length} possible duplicates`}
+                  {incomplete.length > 0 && ` · ${incomplete.length} with details that have nowhere to go`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {duplicates.length > 0 && (
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="skip-duplicates"
+                      checked={skipDuplicates}
+                      onCheckedChange={(checked) => setSkipDuplicates(checked === true)}
+                    />
+                    <Label htmlFor="skip-duplicates" className="font-normal">
+                      Skip recipes whose title is already in my library or earlier in the file
+                    </Label>
+                  </div>
+                )}
+                <ImportReport rows={report} skipDuplicates={skipDuplicates} />
+                <div className="flex justify-end gap-2">
+                  <Button variant="outline" onClick={() => (file.source === 'csv' ? setStep('map') : reset())}>
+                    Back
+                  </Button>
+                  <Button onClick={handleImport} disabled={ready.length === 0}>
+                    Import {ready.length} {ready.length === 1 ? 'Recipe' : 'Recipes'}
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {(step === 'importing' || step === 'done') && (
+            <Card>
+              <CardHeader>
+                <CardTitle>{step === 'importing' ? 'Importing...' : 'Import finished'}</CardTitle>
+                <CardDescription>
+                  {progress.imported} of {progress.total} recipes imported
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <Progress value={progress.total > 0 ? (progress.imported / progress.total) * 100 : 0} />
+                {step === 'done' && (
+                  <div className="flex justify-end gap-2">
+                    {batch && (
+                      <Button
+                        variant="outline"
+                        onClick={() => setToRollBack({ ...batch, recipe_count: progress.imported })}
+                      >
+                        <Undo2 className="h-4 w-4 mr-2" />
+                        Undo Import
+                      </Button>
+                    )}
+                    <Button variant="outline" onClick={reset}>
+                      Import Another File
+                    </Button>
+                    <Button asChild>
+                      <Link to="/">View Recipes</Link>
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {batches.length > 0 && (
+            <div className="space-y-2">
+              <h2 className="text-lg font-semibold">Previous imports</h2>
+              <ul className="divide-y rounded-md border bg-card">
+                {batches.map(entry => (
+                  <li key={entry.id} className="flex items-center gap-3 p-3">
+                    <FileUp className="h-5 w-5 shrink-0 text-muted-foreground" />
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium line-clamp-1">{entry.file_name ?? `${entry.source.toUpperCase()} import`}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {format(parseISO(entry.created_at), 'd MMM yyyy, HH:mm')}
+                        {' · '}
+                        {entry.recipe_count} {entry.recipe_count === 1 ? 'recipe' : 'recipes'}
+                        {!entry.completed_at && ' · did not finish'}
+                      </p>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setToRollBack(entry)}
+                      disabled={step === 'importing'}
+                    >
+                      <Undo2 className="h-4 w-4 mr-2" />
+                      Undo
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <AlertDialog open={toRollBack !== null} onOpenChange={(open) => !open && setToRollBack(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Undo Import</AlertDialogTitle>
+              <AlertDialogDescription>
+                All {toRollBack?.recipe_count} recipes added by this import will be deleted, including any
+                changes made to them since. This action cannot be undone.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={handleRollBack}
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              >
+                Delete Recipes
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </SidebarInset>
+    </SidebarProvider>
+  );
+};
+
+export default BulkImport;
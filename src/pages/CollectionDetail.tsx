@@ -0,0 +1,307 @@
+import { useState, useEffect } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { useCollections } from '@/hooks/useCollections';
+import { usePhotoUrls } from '@/hooks/usePhotoUrls';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { CollectionDialog } from '@/components/CollectionDialog';
+import { RecipeSidebar } from '@/components/RecipeSidebar';
+import { SidebarInset, SidebarProvider, SidebarTrigger } from '@/components/ui/sidebar';
+import { ArrowDown, ArrowLeft, ArrowUp, ChefHat, Edit, Folder, Trash2, X } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Collection,
+  fetchCollection,
+  fetchCollectionRecipes,
+  removeRecipeFromCollection,
+  reorderCollectionRecipes
+} from '@/lib/collections';
+import type { Recipe } from '@/lib/recipes';
+
+const CollectionDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user, loading: authLoading } = useAuth();
+  const { deleteCollection, refresh: refreshCollections } = useCollections();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [collection, setCollection] = useState<Collection | null>(null);
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState(false);
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+
+  // Without a cover of its own, the collection borrows its first recipe's photo
+  const cover = collection?.cover_photo ?? recipes.find(recipe => recipe.photos.length > 0)?.photos[0];
+  const urls = usePhotoUrls([
+    ...(cover ? [cover.path] : []),
+    ...recipes.flatMap(recipe => (recipe.photos[0] ? [recipe.photos[0].thumbnail_path] : []))
+  ]);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate('/auth');
+    }
+  }, [user, authLoading, navigate]);
+
+  useEffect(() => {
+    if (!user || !id) return;
+
+    setLoading(true);
+    // RLS hides other users' collections, so those come back empty just like unknown ids
+    Promise.all([fetchCollection(id), fetchCollectionRecipes(id)])
+      .then(([nextCollection, nextRecipes]) => {
+        setCollection(nextCollection);
+        setRecipes(nextRecipes);
+      })
+      .catch(() => {
+        setCollection(null);
+        setRecipes([]);
+      })
+      .finally(() => setLoading(false));
+  }, [user, id]);
+
+  const handleMove = async (index: number, offset: -1 | 1) => {
+    if (!collection) return;
+
+    const previous = recipes;
+    const next = [...recipes];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    setRecipes(next);
+
+    try {
+      await reorderCollectionRecipes(collection.id, next.map(recipe => recipe.id));
+    } catch (error) {
+      setRecipes(previous);
+      toast({
+        title: 'Error reordering recipes',
+        description: (error as Error).message,
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const handleRemove = async (recipe: Recipe) => {
+    if (!collection) return;
+
+    try {
+      await removeRecipeFromCollection(collection.id, recipe.id);
+      setRecipes(prev => prev.filter(r => r.id !== recipe.id));
+      refreshCollections();
+      toast({
+        title: `Removed "${recipe.title}" from ${collection.name}`
+      });
+    } catch (error) {
+      toast({
+        title: 'Error removing recipe',
+        description: (error as Error).message,
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const handleDeleteCollection = async () => {
+    if (!collection) return;
+
+    try {
+      await deleteCollection(collection);
+      toast({
+        title: 'Collection deleted successfully'
+      });
+      navigate('/');
+    } catch (error) {
+      toast({
+        title: 'Error deleting collection',
+        description: (error as Error).message,
+        variant: 'destructive'
+      });
+    } finally {
+      setDeleteDialogOpen(false);
+    }
+  };
+
+  if (authLoading || (user && loading)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="text-center">
+          <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          <p className="mt-4 text-muted-foreground">Loading collection...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user) return null;
+
+  if (!collection) {
+    return (
+      <div className="min-h-screen bg-background p-4">
+        <Card className="max-w-xl mx-auto mt-12 text-center py-12">
+          <CardContent>
+            <Folder className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <h3 className="text-lg font-medium mb-2">Collection not found</h3>
+            <p className="text-muted-foreground mb-6">
+              This collection doesn't exist or you don't have access to it.
+            </p>
+            <Button asChild>
+              <Link to="/">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to recipes
+              </Link>
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <SidebarProvider>
+      <RecipeSidebar />
+      <SidebarInset className="min-h-screen bg-background">
+        <div className="w-full max-w-4xl mx-auto p-4 space-y-6">
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <SidebarTrigger />
+              <Button variant="ghost" size="sm" asChild>
+                <Link to="/">
+                  <ArrowLeft className="h-4 w-4 mr-2" />
+                  All recipes
+                </Link>
+              </Button>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => setEditing(true)}>
+                <Edit className="h-4 w-4 mr-2" />
+                Edit
+              </Button>
+              <Button variant="destructive" size="sm" onClick={() => setDeleteDialogOpen(true)}>
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete
+              </Button>
+            </div>
+          </div>
+
+          <div className="flex flex-col sm:flex-row gap-6">
+            <div className="sm:w-56 shrink-0 aspect-[4/3] overflow-hidden rounded-lg border bg-muted flex items-center justify-center">
+              {cover && urls[cover.path] ? (
+                <img src={urls[cover.path]!} alt={collection.name} className="h-full w-full object-cover" />
+              ) : (
+                <Folder className="h-12 w-12 text-muted-foreground" />
+              )}
+            </div>
+            <div className="space-y-2">
+              <h1 className="text-3xl font-bold">{collection.name}</h1>
+              {collection.description && (
+                <p className="text-muted-foreground whitespace-pre-line">{collection.description}</p>
+              )}
+              <p className="text-sm text-muted-foreground">
+                {recipes.length} {recipes.length === 1 ? 'recipe' : 'recipes'}
+              </p>
+            </div>
+          </div>
+
+          {recipes.length === 0 ? (
+            <Card className="text-center py-12">
+              <CardContent>
+                <ChefHat className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                <h3 className="text-lg font-medium mb-2">No recipes in this collection yet</h3>
+                <p className="text-muted-foreground">
+                  Use the folder button on a recipe card to add it here.
+                </p>
+              </CardContent>
+            </Card>
+          ) : (
+            <ol className="divide-y rounded-md border bg-card">
+              {recipes.map((recipe, index) => {
+                const thumbnail = recipe.photos[0] && urls[recipe.photos[0].thumbnail_path];
+
+                return (
+                  <li key={recipe.id} className="flex items-center gap-3 p-3">
+                    <span className="w-6 text-right text-sm text-muted-foreground tabular-nums">{index + 1}</span>
+                    <div className="h-12 w-16 shrink-0 overflow-hidden rounded bg-muted">
+                      {thumbnail && <img src={thumbnail} alt="" className="h-full w-full object-cover" loading="lazy" />}
+                    </div>
+                    <Link to={`/recipes/${recipe.id}`} className="flex-1 font-medium hover:underline line-clamp-1">
+                      {recipe.title}
+                    </Link>
+                    <div className="flex gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => handleMove(index, -1)}
+                        disabled={index === 0}
+                        aria-label={`Move ${recipe.title} up`}
+                      >
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => handleMove(index, 1)}
+                        disabled={index === recipes.length - 1}
+                        aria-label={`Move ${recipe.title} down`}
+                      >
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-destructive"
+                        onClick={() => handleRemove(recipe)}
+                        aria-label={`Remove ${recipe.title} from this collection`}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+        </div>
+
+        <CollectionDialog
+          open={editing}
+          onOpenChange={setEditing}
+          collection={collection}
+          onSaved={setCollection}
+        />
+
+        <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete Collection</AlertDialogTitle>
+              <AlertDialogDescription>
+                Are you sure you want to delete "{collection.name}"? Its recipes are kept; only the collection is removed.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={handleDeleteCollection}
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              >
+                Delete
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </SidebarInset>
+    </SidebarProvider>
+  );
+};
+
+export default CollectionDetail;
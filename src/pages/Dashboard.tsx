@@ -1,171 +1,278 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { useAuth } from '@/hooks/useAuth';
-import { useNavigate } from 'react-router-dom';
-import { supabase } from '@/integrations/supabase/client';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useToast } from '@/hooks/use-toast';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Toggle } from '@/components/ui/toggle';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { CuisineSelect } from '@/components/CuisineSelect';
+import { ExportMenu } from '@/components/ExportMenu';
+import { ImportRecipeDialog } from '@/components/ImportRecipeDialog';
 import { RecipeCard } from '@/components/RecipeCard';
 import { RecipeForm } from '@/components/RecipeForm';
-import { ChefHat, Plus, Search, LogOut } from 'lucide-react';
+import { RecipeTable } from '@/components/RecipeTable';
+import { RecipeViewControls } from '@/components/RecipeViewControls';
+import { MeasurementSystemSelect } from '@/components/MeasurementSystemSelect';
+import { PasteRecipeDialog } from '@/components/PasteRecipeDialog';
+import { RecipeSidebar } from '@/components/RecipeSidebar';
+import { SavedSearchDialog } from '@/components/SavedSearchDialog';
+import { SidebarInset, SidebarProvider, SidebarTrigger } from '@/components/ui/sidebar';
+import { TagFilter } from '@/components/TagFilter';
+import { useDebounce } from '@/hooks/useDebounce';
+import { useProfile } from '@/hooks/useProfile';
+import { useSavedSearches } from '@/hooks/useSavedSearches';
+import { useTags } from '@/hooks/useTags';
+import { useTrashRecipe } from '@/hooks/useTrashRecipe';
+import { ChefHat, Plus, Search, LogOut, Loader2, BookmarkPlus, Heart, Link2, ClipboardPaste, FileUp, Import } from 'lucide-react';
 import {
-  AlertDialog,
-  AlertDialogAction,
-  AlertDialogCancel,
-  AlertDialogContent,
-  AlertDialogDescription,
-  AlertDialogFooter,
-  AlertDialogHeader,
-  AlertDialogTitle,
-} from '@/components/ui/alert-dialog';
-
-interface Recipe {
-  id: string;
-  title: string;
-  ingredients: string[];
-  instructions: string;
-  difficulty: 'easy' | 'medium' | 'hard';
-  cuisine: 'italian' | 'mexican' | 'asian' | 'american' | 'french' | 'indian' | 'mediterranean' | 'other';
-  prep_time?: number;
-  cook_time?: number;
-  servings?: number;
-  created_at: string;
-}
+  Recipe,
+  RecipeFilters,
+  RecipeInput,
+  RecipeRating,
+  RecipeSort,
+  SearchHighlight,
+  defaultSortAscending,
+  saveRecipe,
+  searchRecipes,
+  suggestSearch
+} from '@/lib/recipes';
+import type { Enums } from '@/integrations/supabase/types';
+import { RecipeSearchState, readSearchParams, writeSearchParams } from '@/lib/search-params';
 
 const Dashboard = () => {
   const { user, signOut } = useAuth();
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { tags, refresh: refreshTags } = useTags();
+  const { profile, updateProfile, loading: profileLoading } = useProfile();
+  const { saveSearch, refreshCounts } = useSavedSearches();
   const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [totalRecipes, setTotalRecipes] = useState(0);
+  const [highlights, setHighlights] = useState<Record<string, SearchHighlight>>({});
+  const [suggestion, setSuggestion] = useState<string | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [page, setPage] = useState(0);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [showForm, setShowForm] = useState(false);
   const [editingRecipe, setEditingRecipe] = useState<Recipe | null>(null);
-  const [searchTerm, setSearchTerm] = useState('');
-  const [cuisineFilter, setCuisineFilter] = useState<string>('all');
-  const [difficultyFilter, setDifficultyFilter] = useState<string>('all');
-  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
-  const [recipeToDelete, setRecipeToDelete] = useState<string | null>(null);
+  const [draftRecipe, setDraftRecipe] = useState<RecipeInput | null>(null);
+  const [importOpen, setImportOpen] = useState(false);
+  const [pasteOpen, setPasteOpen] = useState(false);
+  const [saveSearchOpen, setSaveSearchOpen] = useState(false);
+
+  // Search, filter, sort and pagination state lives in the URL so views can be
+  // bookmarked, shared and restored on reload or back-navigation
+  const query = useMemo(() => readSearchParams(searchParams), [searchParams]);
+  const updateQuery = useCallback((changes: Partial<RecipeSearchState>) => {
+    setSearchParams(
+      prev => writeSearchParams({ ...readSearchParams(prev), pages: 1, ...changes }),
+      { replace: true }
+    );
+  }, [setSearchParams]);
+
+  // The search box updates the URL once typing pauses
+  const [searchTerm, setSearchTerm] = useState(query.search);
+  const debouncedSearch = useDebounce(searchTerm);
+
+  // Each side only follows the other when it changed itself, so a stale
+  // debounced value can't overwrite a search that arrived through the URL
+  const lastDebouncedSearch = useRef(debouncedSearch);
+  const lastUrlSearch = useRef(query.search);
 
   useEffect(() => {
-    if (!user) {
-      navigate('/auth');
-      return;
-    }
-    fetchRecipes();
-  }, [user, navigate]);
+    if (debouncedSearch === lastDebouncedSearch.current) return;
+    lastDebouncedSearch.current = debouncedSearch;
+    if (debouncedSearch !== query.search) updateQuery({ search: debouncedSearch });
+  }, [debouncedSearch, query.search, updateQuery]);
+
+  useEffect(() => {
+    if (query.search === lastUrlSearch.current) return;
+    lastUrlSearch.current = query.search;
+    // The URL changed from elsewhere, e.g. "Did you mean" or back-navigation
+    if (query.search !== debouncedSearch) setSearchTerm(query.search);
+  }, [query.search, debouncedSearch]);
+
+  const searching = query.search.trim() !== '';
+  // Searches default to relevance; otherwise the URL wins over the saved preference
+  const sort = searching
+    ? (query.sort !== undefined ? query.sort : null)
+    : query.sort ?? profile?.recipe_sort ?? 'created_at';
+  const ascending = query.ascending ?? profile?.recipe_sort_ascending ?? false;
+  const view = profile?.recipe_view ?? 'grid';
+
+  const tagsKey = query.tags.join('\n');
+  const filters = useMemo<RecipeFilters>(() => ({
+    search: query.search,
+    cuisine: query.cuisine,
+    difficulty: query.difficulty,
+    tags: tagsKey ? tagsKey.split('\n') : [],
+    tagMatchMode: query.tagMatchMode,
+    favoritesOnly: query.favoritesOnly,
+    minRating: query.minRating,
+    sort,
+    ascending
+  }), [
+    query.search,
+    query.cuisine,
+    query.difficulty,
+    tagsKey,
+    query.tagMatchMode,
+    query.favoritesOnly,
+    query.minRating,
+    sort,
+    ascending
+  ]);
+  const hasFilters = filters.search.trim() !== '' || filters.cuisine !== null ||
+    filters.difficulty !== null || filters.tags.length > 0 || filters.favoritesOnly || filters.minRating !== null;
+
+  // Responses to superseded queries are dropped so fast typing can't show stale results
+  const latestRequest = useRef(0);
+
+  // Pages restored from the URL are loaded in one request on the first fetch
+  const restoredPages = useRef(query.pages);
+
+  const fetchRecipes = useCallback(async (nextPage = 0, pageCount = 1) => {
+    const request = ++latestRequest.current;
+    if (nextPage === 0) setLoading(true);
+    else setLoadingMore(true);
 
-  const fetchRecipes = async () => {
     try {
-      const { data, error } = await supabase
-        .from('recipes')
-        .select('*')
-        .order('created_at', { ascending: false });
+      const result = await searchRecipes(filters, nextPage, pageCount);
+      if (request !== latestRequest.current) return;
 
-      if (error) throw error;
-      setRecipes(data || []);
-    } catch (error: any) {
+      setRecipes(prev => (nextPage === 0 ? result.recipes : [...prev, ...result.recipes]));
+      setHighlights(prev => (nextPage === 0 ? result.highlights : { ...prev, ...result.highlights }));
+      setTotalRecipes(result.total);
+      setPage(nextPage + pageCount - 1);
+
+      const search = filters.search.trim();
+      const nextSuggestion = nextPage === 0 && result.total === 0 && search
+        ? await suggestSearch(search).catch(() => null)
+        : null;
+      if (request === latestRequest.current) setSuggestion(nextSuggestion);
+    } catch (error) {
+      if (request !== latestRequest.current) return;
       toast({
         title: 'Error fetching recipes',
-        description: error.message,
+        description: (error as Error).message,
         variant: 'destructive'
       });
     } finally {
-      setLoading(false);
+      if (request === latestRequest.current) {
+        setLoading(false);
+        setLoadingMore(false);
+      }
     }
+  }, [filters, toast]);
+
+  useEffect(() => {
+    if (!user) {
+      navigate('/auth');
+      return;
+    }
+    // Wait for the saved sort order rather than loading the default one first
+    if (profileLoading) return;
+    fetchRecipes(0, restoredPages.current);
+    restoredPages.current = 1;
+  }, [user, navigate, fetchRecipes, profileLoading]);
+
+  const handleLoadMore = () => {
+    fetchRecipes(page + 1);
+    updateQuery({ pages: page + 2 });
   };
 
-  const handleSaveRecipe = async (recipeData: Omit<Recipe, 'id' | 'created_at'>) => {
-    try {
-      if (editingRecipe) {
-        const { error } = await supabase
-          .from('recipes')
-          .update({
-            ...recipeData,
-            user_id: user!.id
-          })
-          .eq('id', editingRecipe.id);
-
-        if (error) throw error;
-        toast({
-          title: 'Recipe updated successfully'
-        });
-      } else {
-        const { error } = await supabase
-          .from('recipes')
-          .insert({
-            ...recipeData,
-            user_id: user!.id
-          });
-
-        if (error) throw error;
-        toast({
-          title: 'Recipe created successfully'
-        });
-      }
+  const handleEditRecipe = (recipe: Recipe) => {
+    setEditingRecipe(recipe);
+    setShowForm(true);
+  };
 
-      setShowForm(false);
-      setEditingRecipe(null);
-      fetchRecipes();
-    } catch (error: any) {
-      toast({
-        title: editingRecipe ? 'Error updating recipe' : 'Error creating recipe',
-        description: error.message,
-        variant: 'destructive'
-      });
+  // Trashing and undoing both change what the current filters match
+  const trashRecipe = useTrashRecipe(useCallback(() => {
+    fetchRecipes();
+    refreshCounts();
+  }, [fetchRecipes, refreshCounts]));
+
+  const handleDeleteRecipe = (id: string) => {
+    const recipe = recipes.find(r => r.id === id);
+    if (recipe) trashRecipe(recipe);
+  };
+
+  const handleTagClick = (tag: string) => {
+    if (!query.tags.includes(tag)) updateQuery({ tags: [...query.tags, tag] });
+  };
+
+  // Keeps the list in step with inline rating; saved searches may filter on ratings
+  const handleRatingChange = (id: string, rating: RecipeRating) => {
+    setRecipes(prev => prev.map(recipe => (recipe.id === id ? { ...recipe, ...rating } : recipe)));
+    refreshCounts();
+  };
+
+  const handleSortChange = (nextSort: RecipeSort | null) => {
+    if (nextSort) {
+      const nextAscending = defaultSortAscending(nextSort);
+      updateQuery({ sort: nextSort, ascending: nextAscending });
+      updateProfile({ recipe_sort: nextSort, recipe_sort_ascending: nextAscending });
+    } else {
+      updateQuery({ sort: null, ascending: undefined });
     }
   };
 
-  const handleDeleteRecipe = async () => {
-    if (!recipeToDelete) return;
+  const handleAscendingChange = (nextAscending: boolean) => {
+    updateQuery({ sort, ascending: nextAscending });
+    if (sort) updateProfile({ recipe_sort_ascending: nextAscending });
+  };
 
-    try {
-      const { error } = await supabase
-        .from('recipes')
-        .delete()
-        .eq('id', recipeToDelete);
+  const handleSaveSearch = async (name: string) => {
+    await saveSearch(name, filters);
+    toast({
+      title: 'Search saved',
+      description: `"${name.trim()}" is now in the sidebar.`
+    });
+  };
 
-      if (error) throw error;
-      
+  const handleSaveRecipe = async (recipeData: RecipeInput) => {
+    try {
+      await saveRecipe(recipeData, user!.id, editingRecipe ?? undefined);
       toast({
-        title: 'Recipe deleted successfully'
+        title: editingRecipe ? 'Recipe updated successfully' : 'Recipe created successfully'
       });
-      
+
+      setShowForm(false);
+      setEditingRecipe(null);
+      setDraftRecipe(null);
       fetchRecipes();
+      refreshTags();
+      refreshCounts();
     } catch (error: any) {
       toast({
-        title: 'Error deleting recipe',
+        title: editingRecipe ? 'Error updating recipe' : 'Error creating recipe',
         description: error.message,
         variant: 'destructive'
       });
-    } finally {
-      setDeleteDialogOpen(false);
-      setRecipeToDelete(null);
     }
   };
 
-  const filteredRecipes = recipes.filter(recipe => {
-    const matchesSearch = recipe.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         recipe.ingredients.some(ingredient => 
-                           ingredient.toLowerCase().includes(searchTerm.toLowerCase())
-                         );
-    const matchesCuisine = cuisineFilter === 'all' || recipe.cuisine === cuisineFilter;
-    const matchesDifficulty = difficultyFilter === 'all' || recipe.difficulty === difficultyFilter;
-    
-    return matchesSearch && matchesCuisine && matchesDifficulty;
-  });
-
   if (showForm) {
     return (
       <div className="min-h-screen bg-background p-4">
         <div className="max-w-4xl mx-auto">
           <RecipeForm
             recipe={editingRecipe || undefined}
+            draft={draftRecipe ?? undefined}
             onSubmit={handleSaveRecipe}
             onCancel={() => {
               setShowForm(false);
               setEditingRecipe(null);
+              setDraftRecipe(null);
             }}
           />
         </div>
@@ -174,148 +281,261 @@ const Dashboard = () => {
   }
 
   return (
-    <div className="min-h-screen bg-background">
-      {/* Header */}
-      <header className="border-b bg-card">
-        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-          <div className="flex justify-between items-center h-16">
-            <div className="flex items-center gap-3">
-              <ChefHat className="h-8 w-8 text-primary" />
-              <h1 className="text-2xl font-bold">Recipe Organizer</h1>
-            </div>
-            <div className="flex items-center gap-4">
-              <span className="text-sm text-muted-foreground">
-                Welcome, {user?.email}
-              </span>
-              <Button variant="outline" size="sm" onClick={signOut}>
-                <LogOut className="h-4 w-4 mr-2" />
-                Sign Out
-              </Button>
+    <SidebarProvider>
+      <RecipeSidebar />
+      <SidebarInset className="min-h-screen bg-background">
+        {/* Header */}
+        <header className="border-b bg-card">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+            <div className="flex justify-between items-center h-16">
+              <div className="flex items-center gap-3">
+                <SidebarTrigger />
+                <ChefHat className="h-8 w-8 text-primary" />
+                <h1 className="text-2xl font-bold">Recipe Organizer</h1>
+              </div>
+              <div className="flex items-center gap-4">
+                <MeasurementSystemSelect />
+                <span className="text-sm text-muted-foreground">
+                  Welcome, {user?.email}
+                </span>
+                <Button variant="outline" size="sm" onClick={signOut}>
+                  <LogOut className="h-4 w-4 mr-2" />
+                  Sign Out
+                </Button>
+              </div>
             </div>
           </div>
-        </div>
-      </header>
-
-      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        {/* Actions Bar */}
-        <div className="flex flex-col sm:flex-row gap-4 mb-8">
-          <div className="flex-1">
-            <div className="relative">
-              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
-              <Input
-                placeholder="Search recipes or ingredients..."
-                value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
-                className="pl-10"
+        </header>
+
+        <div className="w-full max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {/* Actions Bar */}
+          <div className="flex flex-col sm:flex-row gap-4 mb-4">
+            <div className="flex-1">
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
+                <Input
+                  placeholder="Search titles, ingredients and instructions..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="pl-10"
+                />
+              </div>
+            </div>
+            
+            <div className="flex gap-2">
+              <CuisineSelect
+                value={query.cuisine ?? 'all'}
+                onValueChange={(cuisine) => updateQuery({ cuisine: cuisine === 'all' ? null : cuisine })}
+                includeAll
+                className="w-40"
+              />
+
+              <Select
+                value={query.difficulty ?? 'all'}
+                onValueChange={(difficulty: Enums<'difficulty_level'> | 'all') =>
+                  updateQuery({ difficulty: difficulty === 'all' ? null : difficulty })
+                }
+              >
+                <SelectTrigger className="w-40">
+                  <SelectValue placeholder="All Difficulties" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Difficulties</SelectItem>
+                  <SelectItem value="easy">Easy</SelectItem>
+                  <SelectItem value="medium">Medium</SelectItem>
+                  <SelectItem value="hard">Hard</SelectItem>
+                </SelectContent>
+              </Select>
+
+              <TagFilter
+                tags={tags.map(tag => tag.name)}
+                selected={query.tags}
+                mode={query.tagMatchMode}
+                onSelectedChange={(selected) => updateQuery({ tags: selected })}
+                onModeChange={(tagMatchMode) => updateQuery({ tagMatchMode })}
               />
+
+              <Select
+                value={query.minRating ? String(query.minRating) : 'all'}
+                onValueChange={(value) => updateQuery({ minRating: value === 'all' ? null : Number(value) })}
+              >
+                <SelectTrigger className="w-36" aria-label="Minimum rating">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Any Rating</SelectItem>
+                  {[5, 4, 3, 2, 1].map(stars => (
+                    <SelectItem key={stars} value={String(stars)}>
+                      {stars === 5 ? '5 stars' : `${stars}+ stars`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <Toggle
+                variant="outline"
+                pressed={query.favoritesOnly}
+                onPressedChange={(favoritesOnly) => updateQuery({ favoritesOnly })}
+                aria-label="Favorites only"
+                title="Favorites only"
+              >
+                <Heart className={query.favoritesOnly ? 'h-4 w-4 fill-red-500 text-red-500' : 'h-4 w-4'} />
+              </Toggle>
+
+              <ExportMenu />
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline">
+                    <Import className="h-4 w-4 mr-2" />
+                    Import
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onSelect={() => setImportOpen(true)}>
+                    <Link2 className="h-4 w-4 mr-2" />
+                    From a web page...
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onSelect={() => setPasteOpen(true)}>
+                    <ClipboardPaste className="h-4 w-4 mr-2" />
+                    From pasted text...
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onSelect={() => navigate('/import')}>
+                    <FileUp className="h-4 w-4 mr-2" />
+                    From a file or another app...
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <Button onClick={() => setShowForm(true)}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Recipe
+              </Button>
             </div>
           </div>
-          
-          <div className="flex gap-2">
-            <Select value={cuisineFilter} onValueChange={setCuisineFilter}>
-              <SelectTrigger className="w-40">
-                <SelectValue placeholder="All Cuisines" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="all">All Cuisines</SelectItem>
-                <SelectItem value="italian">Italian</SelectItem>
-                <SelectItem value="mexican">Mexican</SelectItem>
-                <SelectItem value="asian">Asian</SelectItem>
-                <SelectItem value="american">American</SelectItem>
-                <SelectItem value="french">French</SelectItem>
-                <SelectItem value="indian">Indian</SelectItem>
-                <SelectItem value="mediterranean">Mediterranean</SelectItem>
-                <SelectItem value="other">Other</SelectItem>
-              </SelectContent>
-            </Select>
-
-            <Select value={difficultyFilter} onValueChange={setDifficultyFilter}>
-              <SelectTrigger className="w-40">
-                <SelectValue placeholder="All Difficulties" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="all">All Difficulties</SelectItem>
-                <SelectItem value="easy">Easy</SelectItem>
-                <SelectItem value="medium">Medium</SelectItem>
-                <SelectItem value="hard">Hard</SelectItem>
-              </SelectContent>
-            </Select>
-
-            <Button onClick={() => setShowForm(true)}>
-              <Plus className="h-4 w-4 mr-2" />
-              Add Recipe
-            </Button>
+
+          <div className="flex items-center justify-end gap-2 mb-4">
+            {hasFilters && (
+              <Button variant="ghost" size="sm" onClick={() => setSaveSearchOpen(true)}>
+                <BookmarkPlus className="h-4 w-4 mr-2" />
+                Save search
+              </Button>
+            )}
+            <RecipeViewControls
+              sort={sort}
+              ascending={ascending}
+              view={view}
+              searching={searching}
+              onSortChange={handleSortChange}
+              onAscendingChange={handleAscendingChange}
+              onViewChange={(recipe_view) => updateProfile({ recipe_view })}
+            />
           </div>
+
+          {/* Recipe Grid */}
+          {loading && recipes.length === 0 ? (
+            <div className="text-center py-12">
+              <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+              <p className="mt-4 text-muted-foreground">Loading recipes...</p>
+            </div>
+          ) : recipes.length === 0 ? (
+            <Card className="text-center py-12">
+              <CardContent>
+                <ChefHat className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                <h3 className="text-lg font-medium mb-2">
+                  {!hasFilters ? 'No recipes yet' : 'No recipes found'}
+                </h3>
+                {suggestion && (
+                  <p className="mb-2">
+                    Did you mean{' '}
+                    <Button variant="link" className="h-auto p-0 text-base" onClick={() => updateQuery({ search: suggestion })}>
+                      {suggestion}
+                    </Button>
+                    ?
+                  </p>
+                )}
+                <p className="text-muted-foreground mb-6">
+                  {!hasFilters
+                    ? 'Start building your recipe collection by adding your first recipe!'
+                    : 'Try adjusting your search or filters to find what you\'re looking for.'
+                  }
+                </p>
+                {!hasFilters && (
+                  <Button onClick={() => setShowForm(true)}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add Your First Recipe
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+          ) : (
+            <>
+              <div className={`transition-opacity ${loading ? 'opacity-60' : ''}`}>
+                {view === 'compact' ? (
+                  <RecipeTable
+                    recipes={recipes}
+                    highlights={highlights}
+                    onEdit={handleEditRecipe}
+                    onDelete={handleDeleteRecipe}
+                    onTagClick={handleTagClick}
+                    onRatingChange={handleRatingChange}
+                  />
+                ) : (
+                  <div className={view === 'list' ? 'grid grid-cols-1 gap-4' : 'grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6'}>
+                    {recipes.map((recipe) => (
+                      <RecipeCard
+                        key={recipe.id}
+                        recipe={recipe}
+                        highlight={highlights[recipe.id]}
+                        layout={view === 'list' ? 'list' : 'grid'}
+                        onEdit={handleEditRecipe}
+                        onDelete={handleDeleteRecipe}
+                        onTagClick={handleTagClick}
+                        onRatingChange={handleRatingChange}
+                      />
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="flex flex-col items-center gap-3 mt-8">
+                <p className="text-sm text-muted-foreground">
+                  Showing {recipes.length} of {totalRecipes} recipes
+                </p>
+                {recipes.length < totalRecipes && (
+                  <Button variant="outline" onClick={handleLoadMore} disabled={loadingMore}>
+                    {loadingMore && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Load More
+                  </Button>
+                )}
+              </div>
+            </>
+          )}
         </div>
 
-        {/* Recipe Grid */}
-        {loading ? (
-          <div className="text-center py-12">
-            <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
-            <p className="mt-4 text-muted-foreground">Loading recipes...</p>
-          </div>
-        ) : filteredRecipes.length === 0 ? (
-          <Card className="text-center py-12">
-            <CardContent>
-              <ChefHat className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
-              <h3 className="text-lg font-medium mb-2">
-                {recipes.length === 0 ? 'No recipes yet' : 'No recipes found'}
-              </h3>
-              <p className="text-muted-foreground mb-6">
-                {recipes.length === 0 
-                  ? 'Start building your recipe collection by adding your first recipe!'
-                  : 'Try adjusting your search or filters to find what you\'re looking for.'
-                }
-              </p>
-              {recipes.length === 0 && (
-                <Button onClick={() => setShowForm(true)}>
-                  <Plus className="h-4 w-4 mr-2" />
-                  Add Your First Recipe
-                </Button>
-              )}
-            </CardContent>
-          </Card>
-        ) : (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {filteredRecipes.map((recipe) => (
-              <RecipeCard
-                key={recipe.id}
-                recipe={recipe}
-                onEdit={(recipe) => {
-                  setEditingRecipe(recipe);
-                  setShowForm(true);
-                }}
-                onDelete={(id) => {
-                  setRecipeToDelete(id);
-                  setDeleteDialogOpen(true);
-                }}
-              />
-            ))}
-          </div>
-        )}
-      </main>
-
-      {/* Delete Confirmation Dialog */}
-      <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
-        <AlertDialogContent>
-          <AlertDialogHeader>
-            <AlertDialogTitle>Delete Recipe</AlertDialogTitle>
-            <AlertDialogDescription>
-              Are you sure you want to delete this recipe? This action cannot be undone.
-            </AlertDialogDescription>
-          </AlertDialogHeader>
-          <AlertDialogFooter>
-            <AlertDialogCancel>Cancel</AlertDialogCancel>
-            <AlertDialogAction
-              onClick={handleDeleteRecipe}
-              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-            >
-              Delete
-            </AlertDialogAction>
-          </AlertDialogFooter>
-        </AlertDialogContent>
-      </AlertDialog>
-    </div>
+        <SavedSearchDialog
+          open={saveSearchOpen}
+          onOpenChange={setSaveSearchOpen}
+          onSubmit={handleSaveSearch}
+        />
+
+        <ImportRecipeDialog
+          open={importOpen}
+          onOpenChange={setImportOpen}
+          onImported={(draft) => {
+            setDraftRecipe(draft);
+            setShowForm(true);
+          }}
+        />
+
+        <PasteRecipeDialog
+          open={pasteOpen}
+          onOpenChange={setPasteOpen}
+          onImported={(draft) => {
+            setDraftRecipe(draft);
+            setShowForm(true);
+          }}
+        />
+      </SidebarInset>
+    </SidebarProvider>
   );
 };
 
@@ -0,0 +1,221 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link, useLocation, useNavigate, useParams } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useTrashRecipe } from '@/hooks/useTrashRecipe';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { CookLogTimeline } from '@/components/CookLogTimeline';
+import { RecipeForm } from '@/components/RecipeForm';
+import { RecipeHistory } from '@/components/RecipeHistory';
+import { RecipeView } from '@/components/RecipeView';
+import { ArrowLeft, ChefHat, RotateCcw, Trash2 } from 'lucide-react';
+import { RECIPE_SELECT, Recipe, RecipeInput, restoreRecipe, saveRecipe, toRecipe } from '@/lib/recipes';
+
+// Postgres' error for text that can't be read as the column's type
+const INVALID_TEXT_REPRESENTATION = '22P02';
+
+const RecipeDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { toast } = useToast();
+  const [recipe, setRecipe] = useState<Recipe | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [editing, setEditing] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate('/auth');
+    }
+  }, [user, authLoading, navigate]);
+
+  const loadRecipe = useCallback(async () => {
+    if (!user || !id) return;
+
+    setLoading(true);
+    setEditing(false);
+    setLoadError(null);
+    // RLS hides other users' recipes, so those come back empty just like unknown ids
+    const { data, error } = await supabase
+      .from('recipes')
+      .select(RECIPE_SELECT)
+      .eq('id', id)
+      .maybeSingle();
+
+    // A failed request isn't a missing recipe, so it gets its own message and a retry.
+    // An id that isn't a UUID at all (22P02) is just a bad link, though.
+    if (error && error.code !== INVALID_TEXT_REPRESENTATION) setLoadError(error.message);
+    setRecipe(data ? toRecipe(data) : null);
+    setLoading(false);
+  }, [user, id]);
+
+  useEffect(() => {
+    loadRecipe();
+  }, [loadRecipe]);
+
+  // Going back keeps the dashboard's filters; a link opened directly has nothing to go back to
+  const handleBack = () => {
+    if (location.key === 'default') navigate('/');
+    else navigate(-1);
+  };
+
+  const handleSaveRecipe = async (recipeData: RecipeInput) => {
+    if (!recipe) return;
+
+    try {
+      setRecipe(await saveRecipe(recipeData, user!.id, recipe));
+      setEditing(false);
+      toast({
+        title: 'Recipe updated successfully'
+      });
+    } catch (error) {
+      toast({
+        title: 'Error updating recipe',
+        description: (error as Error).message,
+        variant: 'destructive'
+      });
+    }
+  };
+
+  // Undoing from the toast brings the recipe back up
+  const trashRecipe = useTrashRecipe(useCallback((restored: boolean) => {
+    navigate(restored ? `/recipes/${id}` : '/');
+  }, [navigate, id]));
+
+  // For trashed recipes opened from a bookmark or the Trash page
+  const handleRestore = async () => {
+    if (!recipe) return;
+
+    try {
+      await restoreRecipe(recipe.id);
+      setRecipe({ ...recipe, deleted_at: null });
+      toast({
+        title: `Restored "${recipe.title}"`
+      });
+    } catch (error) {
+      toast({
+        title: 'Error restoring recipe',
+        description: (error as Error).message,
+        variant: 'destructive'
+      });
+    }
+  };
+
+  if (authLoading || (user && loading)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="text-center">
+          <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          <p className="mt-4 text-muted-foreground">Loading recipe...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user) return null;
+
+  if (loadError) {
+    return (
+      <div className="min-h-screen bg-background p-4">
+        <Card className="max-w-xl mx-auto mt-12 text-center py-12">
+          <CardContent>
+            <ChefHat className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <h3 className="text-lg font-medium mb-2">Couldn't load this recipe</h3>
+            <p className="text-muted-foreground mb-6">{loadError}</p>
+            <div className="flex justify-center gap-2">
+              <Button variant="outline" asChild>
+                <Link to="/">
+                  <ArrowLeft className="h-4 w-4 mr-2" />
+                  Back to recipes
+                </Link>
+              </Button>
+              <Button onClick={loadRecipe}>
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Try again
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!recipe) {
+    return (
+      <div className="min-h-screen bg-background p-4">
+        <Card className="max-w-xl mx-auto mt-12 text-center py-12">
+          <CardContent>
+            <ChefHat className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <h3 className="text-lg font-medium mb-2">Recipe not found</h3>
+            <p className="text-muted-foreground mb-6">
+              This recipe doesn't exist or you don't have access to it.
+            </p>
+            <Button asChild>
+              <Link to="/">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to recipes
+              </Link>
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background p-4">
+      <div className="max-w-4xl mx-auto space-y-6">
+        {recipe.deleted_at && (
+          <Card className="w-full max-w-3xl mx-auto border-destructive/50">
+            <CardContent className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 py-4">
+              <p className="flex items-center gap-2 text-sm">
+                <Trash2 className="h-4 w-4 text-destructive" />
+                This recipe is in the trash and will be deleted for good unless you restore it.
+              </p>
+              <Button size="sm" variant="outline" onClick={handleRestore}>
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Restore
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+        {editing ? (
+          <RecipeForm
+            recipe={recipe}
+            onSubmit={handleSaveRecipe}
+            onCancel={() => setEditing(false)}
+          />
+        ) : (
+          <RecipeView
+            recipe={recipe}
+            onBack={handleBack}
+            onEdit={() => setEditing(true)}
+            onDelete={() => trashRecipe(recipe)}
+            onRatingChange={(rating) => setRecipe(prev => (prev ? { ...prev, ...rating } : prev))}
+            onShowHistory={() => setHistoryOpen(true)}
+          />
+        )}
+        {!editing && (
+          <CookLogTimeline
+            recipe={recipe}
+            onStatsChange={(stats) => setRecipe(prev => (prev ? { ...prev, ...stats } : prev))}
+          />
+        )}
+      </div>
+
+      <RecipeHistory
+        recipe={recipe}
+        open={historyOpen}
+        onOpenChange={setHistoryOpen}
+        onRestored={setRecipe}
+      />
+    </div>
+  );
+};
+
+export default RecipeDetail;
@@ -0,0 +1,242 @@
+import { useState, useEffect } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { format, formatDistanceToNow, parseISO } from 'date-fns';
+import { useAuth } from '@/hooks/useAuth';
+import { useCollections } from '@/hooks/useCollections';
+import { usePhotoUrls } from '@/hooks/usePhotoUrls';
+import { useProfile } from '@/hooks/useProfile';
+import { useSavedSearches } from '@/hooks/useSavedSearches';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { RecipeSidebar } from '@/components/RecipeSidebar';
+import { SidebarInset, SidebarProvider, SidebarTrigger } from '@/components/ui/sidebar';
+import { ArrowLeft, RotateCcw, Trash2 } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { deleteRecipe, restoreRecipe } from '@/lib/recipes';
+import { TRASH_RETENTION_OPTIONS, TrashedRecipe, fetchTrashedRecipes } from '@/lib/trash';
+
+const Trash = () => {
+  const { user, loading: authLoading } = useAuth();
+  const { profile, updateProfile } = useProfile();
+  const { refreshCounts } = useSavedSearches();
+  const { refresh: refreshCollections } = useCollections();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [recipes, setRecipes] = useState<TrashedRecipe[]>([]);
+  const [loading, setLoading] = useState(true);
+  // A single recipe, or 'all' when emptying the trash
+  const [toDelete, setToDelete] = useState<TrashedRecipe | 'all' | null>(null);
+  const urls = usePhotoUrls(recipes.flatMap(recipe => (recipe.photos[0] ? [recipe.photos[0].thumbnail_path] : [])));
+  const retentionDays = profile?.trash_retention_days ?? 30;
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate('/auth');
+    }
+  }, [user, authLoading, navigate]);
+
+  // Refetched when the retention period changes, since that moves every purge date
+  useEffect(() => {
+    if (!user) return;
+
+    setLoading(true);
+    fetchTrashedRecipes()
+      .then(setRecipes)
+      .catch((error) => {
+        setRecipes([]);
+        toast({
+          title: 'Error fetching trash',
+          description: (error as Error).message,
+          variant: 'destructive'
+        });
+      })
+      .finally(() => setLoading(false));
+  }, [user, retentionDays, toast]);
+
+  const handleRestore = async (recipe: TrashedRecipe) => {
+    try {
+      await restoreRecipe(recipe.id);
+      setRecipes(prev => prev.filter(r => r.id !== recipe.id));
+      refreshCounts();
+      refreshCollections();
+      toast({
+        title: `Restored "${recipe.title}"`
+      });
+    } catch (error) {
+      toast({
+        title: 'Error restoring recipe',
+        description: (error as Error).message,
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    const targets = toDelete === 'all' ? recipes : toDelete ? [toDelete] : [];
+
+    try {
+      for (const recipe of targets) {
+        await deleteRecipe(recipe);
+        setRecipes(prev => prev.filter(r => r.id !== recipe.id));
+      }
+      refreshCollections();
+      toast({
+        title: targets.length === 1 ? `Deleted "${targets[0].title}" forever` : 'Trash emptied'
+      });
+    } catch (error) {
+      toast({
+        title: 'Error deleting recipe',
+        description: (error as Error).message,
+        variant: 'destructive'
+      });
+    } finally {
+      setToDelete(null);
+    }
+  };
+
+  if (authLoading || !user) return null;
+
+  return (
+    <SidebarProvider>
+      <RecipeSidebar />
+      <SidebarInset className="min-h-screen bg-background">
+        <div className="w-full max-w-4xl mx-auto p-4 space-y-6">
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <SidebarTrigger />
+              <Button variant="ghost" size="sm" asChild>
+                <Link to="/">
+                  <ArrowLeft className="h-4 w-4 mr-2" />
+                  All recipes
+                </Link>
+              </Button>
+            </div>
+            <Button
+              variant="destructive"
+              size="sm"
+              onClick={() => setToDelete('all')}
+              disabled={recipes.length === 0}
+            >
+              <Trash2 className="h-4 w-4 mr-2" />
+              Empty Trash
+            </Button>
+          </div>
+
+          <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+            <div className="space-y-2">
+              <h1 className="text-3xl font-bold">Trash</h1>
+              <p className="text-muted-foreground">
+                Deleted recipes can be restored until they are removed for good.
+              </p>
+            </div>
+            <div className="flex items-center gap-2 text-sm">
+              <span className="text-muted-foreground">Keep for</span>
+              <Select
+                value={String(retentionDays)}
+                onValueChange={(value) => updateProfile({ trash_retention_days: Number(value) })}
+              >
+                <SelectTrigger className="w-[110px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {[...new Set([...TRASH_RETENTION_OPTIONS, retentionDays])].sort((a, b) => a - b).map(days => (
+                    <SelectItem key={days} value={String(days)}>{days} days</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {loading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : recipes.length === 0 ? (
+            <Card className="text-center py-12">
+              <CardContent>
+                <Trash2 className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                <h3 className="text-lg font-medium mb-2">The trash is empty</h3>
+                <p className="text-muted-foreground">
+                  Recipes you delete stay here for {retentionDays} days.
+                </p>
+              </CardContent>
+            </Card>
+          ) : (
+            <ul className="divide-y rounded-md border bg-card">
+              {recipes.map(recipe => {
+                const thumbnail = recipe.photos[0] && urls[recipe.photos[0].thumbnail_path];
+
+                return (
+                  <li key={recipe.id} className="flex items-center gap-3 p-3">
+                    <div className="h-12 w-16 shrink-0 overflow-hidden rounded bg-muted">
+                      {thumbnail && <img src={thumbnail} alt="" className="h-full w-full object-cover" loading="lazy" />}
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <Link to={`/recipes/${recipe.id}`} className="font-medium hover:underline line-clamp-1">
+                        {recipe.title}
+                      </Link>
+                      <p className="text-sm text-muted-foreground">
+                        Deleted {formatDistanceToNow(parseISO(recipe.deleted_at), { addSuffix: true })}
+                        {' · '}
+                        removed for good on {format(parseISO(recipe.purge_at), 'd MMM yyyy')}
+                      </p>
+                    </div>
+                    <div className="flex gap-1">
+                      <Button variant="outline" size="sm" onClick={() => handleRestore(recipe)}>
+                        <RotateCcw className="h-4 w-4 mr-2" />
+                        Restore
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-destructive"
+                        onClick={() => setToDelete(recipe)}
+                        aria-label={`Delete ${recipe.title} forever`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+
+        <AlertDialog open={toDelete !== null} onOpenChange={(open) => !open && setToDelete(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>{toDelete === 'all' ? 'Empty Trash' : 'Delete Forever'}</AlertDialogTitle>
+              <AlertDialogDescription>
+                {toDelete === 'all'
+                  ? `All ${recipes.length} recipes in the trash will be deleted along with their photos and history.`
+                  : `"${toDelete?.title}" will be deleted along with its photos and history.`}
+                {' '}This action cannot be undone.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={handleDelete}
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              >
+                Delete
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </SidebarInset>
+    </SidebarProvider>
+  );
+};
+
+export default Trash;
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { isIpAddress, isPrivateAddress, isPrivateHostName } from './public-address.ts';
+
+// Host names as `new URL()` leaves them, so IPv6 literals keep their brackets
+const hostOf = (url: string) => new URL(url).hostname;
+
+describe('isPrivateAddress', () => {
+  it.each([
+    '127.0.0.1',
+    '10.1.2.3',
+    '172.16.0.1',
+    '192.168.1.1',
+    '169.254.169.254',
+    '100.64.0.1',
+    '0.0.0.0',
+    '224.0.0.1',
+    '::',
+    '::1',
+    '[::1]',
+    'fd00::1',
+    'fe80::1%eth0',
+    'ff02::1',
+    '::ffff:127.0.0.1',
+    '::ffff:7f00:1',
+    '::ffff:a9fe:a9fe',
+    '64:ff9b::7f00:1',
+    '2002:c0a8:101::1',
+    hostOf('http://[::ffff:7f00:1]/'),
+    hostOf('http://[::ffff:10.0.0.1]/'),
+    hostOf('http://2130706433/'),
+    hostOf('http://0x7f.1/')
+  ])('rejects %s', (address) => {
+    expect(isPrivateAddress(address)).toBe(true);
+  });
+
+  it.each(['93.184.216.34', '8.8.8.8', '2606:4700:4700::1111', '::ffff:5db8:d822'])('allows %s', (address) => {
+    expect(isPrivateAddress(address)).toBe(false);
+  });
+});
+
+describe('isIpAddress', () => {
+  it('tells literals from names', () => {
+    expect(isIpAddress('[2001:db8::1]')).toBe(true);
+    expect(isIpAddress('1.2.3.4')).toBe(true);
+    expect(isIpAddress('example.com')).toBe(false);
+    expect(isIpAddress('1.2.3.4.example.com')).toBe(false);
+  });
+});
+
+describe('isPrivateHostName', () => {
+  it.each(['localhost', 'api.localhost', 'db', 'metadata.google.internal', 'printer.local', 'router.home.arpa'])(
+    'rejects %s',
+    (host) => {
+      expect(isPrivateHostName(host)).toBe(true);
+    }
+  );
+
+  it('allows public names', () => {
+    expect(isPrivateHostName('www.bbcgoodfood.com')).toBe(false);
+    expect(isPrivateHostName('example.com.')).toBe(false);
+  });
+});
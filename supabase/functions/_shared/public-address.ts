@@ -0,0 +1,90 @@
+// Decides whether a host name or IP address is one the import function may
+// fetch from. Plain string processing like the extractor, so it can be tested
+// offline; DNS lookups happen in the function itself.
+
+const parseIPv4 = (host: string): number[] | null => {
+  const parts = host.split('.');
+  if (parts.length !== 4 || !parts.every(part => /^\d{1,3}$/.test(part))) return null;
+  const bytes = parts.map(Number);
+  return bytes.every(byte => byte <= 255) ? bytes : null;
+};
+
+// The eight 16-bit groups of an IPv6 address, or null if `host` isn't one
+const parseIPv6 = (host: string): number[] | null => {
+  if (!host.includes(':')) return null;
+  let text = host.replace(/%.*$/, '');
+
+  // A dotted IPv4 tail, as in ::ffff:127.0.0.1
+  const dotted = text.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const bytes = parseIPv4(dotted[2]);
+    if (!bytes) return null;
+    text = `${dotted[1]}${((bytes[0] << 8) | bytes[1]).toString(16)}:${((bytes[2] << 8) | bytes[3]).toString(16)}`;
+  }
+
+  const halves = text.split('::');
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+
+  const groups = [...head, ...Array<string>(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+  if (!groups.every(group => /^[0-9a-f]{1,4}$/i.test(group))) return null;
+  return groups.map(group => parseInt(group, 16));
+};
+
+const isPrivateIPv4 = ([a, b, c]: number[]) =>
+  a === 0 ||
+  a === 10 ||
+  a === 127 ||
+  (a === 100 && b >= 64 && b <= 127) ||
+  (a === 169 && b === 254) ||
+  (a === 172 && b >= 16 && b <= 31) ||
+  (a === 192 && b === 0 && c === 0) ||
+  (a === 192 && b === 168) ||
+  (a === 198 && (b === 18 || b === 19)) ||
+  // Multicast and reserved
+  a >= 224;
+
+const isPrivateIPv6 = (groups: number[]) => {
+  const zeros = (from: number, to: number) => groups.slice(from, to).every(group => group === 0);
+  const embedded = (high: number, low: number) => [high >> 8, high & 0xff, low >> 8, low & 0xff];
+
+  // IPv4-compatible (including :: and ::1), IPv4-mapped and NAT64 addresses reach IPv4 hosts
+  if (zeros(0, 6) || (zeros(0, 5) && groups[5] === 0xffff) || (groups[0] === 0x64 && groups[1] === 0xff9b && zeros(2, 6))) {
+    return isPrivateIPv4(embedded(groups[6], groups[7]));
+  }
+  // 6to4 carries its IPv4 address in the second and third groups
+  if (groups[0] === 0x2002) return isPrivateIPv4(embedded(groups[1], groups[2]));
+
+  return (
+    // Teredo hides the address it tunnels to
+    (groups[0] === 0x2001 && groups[1] === 0) ||
+    // Unique local, link-local, site-local and multicast
+    (groups[0] & 0xfe00) === 0xfc00 ||
+    (groups[0] & 0xffc0) === 0xfe80 ||
+    (groups[0] & 0xffc0) === 0xfec0 ||
+    (groups[0] & 0xff00) === 0xff00
+  );
+};
+
+const unbracket = (host: string) => host.replace(/^\[|\]$/g, '');
+
+export const isIpAddress = (host: string) =>
+  parseIPv4(unbracket(host)) !== null || parseIPv6(unbracket(host)) !== null;
+
+// Loopback, private network, link-local and other addresses that aren't on the public internet
+export const isPrivateAddress = (address: string) => {
+  const host = unbracket(address);
+  const ipv4 = parseIPv4(host);
+  if (ipv4) return isPrivateIPv4(ipv4);
+  const ipv6 = parseIPv6(host);
+  return ipv6 ? isPrivateIPv6(ipv6) : false;
+};
+
+// Names that only mean something inside a network, including single labels like "db"
+export const isPrivateHostName = (host: string) => {
+  const name = host.toLowerCase().replace(/\.$/, '');
+  return !name.includes('.') || /\.(localhost|local|internal|lan|home\.arpa)$/.test(name);
+};
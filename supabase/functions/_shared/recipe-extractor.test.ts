@@ -0,0 +1,101 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { extractRecipe, parseDuration, parseYield } from './recipe-extractor.ts';
+
+// Pages saved from recipe sites, trimmed down to what the extractor reads
+const fixture = (name: string) => readFileSync(new URL(`./__fixtures__/${name}`, import.meta.url), 'utf8');
+
+describe('extractRecipe', () => {
+  it('finds a Recipe in a JSON-LD @graph, with sectioned steps', () => {
+    const recipe = extractRecipe(fixture('jsonld-graph.html'), 'https://blog.example.com/chicken-curry/');
+
+    expect(recipe).toMatchObject({
+      title: 'Weeknight Chicken Curry',
+      description: 'A quick curry with pantry spices & coconut milk.',
+      ingredients: ['2 tbsp vegetable oil', '1 onion, finely chopped', '500 g chicken thighs', '400 ml coconut milk'],
+      prep_time: 15,
+      cook_time: 60,
+      total_time: 75,
+      servings: 4,
+      yield: '4 servings',
+      cuisines: ['Indian'],
+      categories: ['Dinner'],
+      keywords: ['curry', 'chicken', 'weeknight'],
+      image_url: 'https://blog.example.com/images/curry-1200.jpg',
+      author: 'Sam Cook',
+      source_url: 'https://blog.example.com/chicken-curry/'
+    });
+    expect(recipe?.instructions).toEqual([
+      { text: 'Heat the oil and fry the onion until soft.', section: 'Make the base' },
+      { text: 'Add the spices and cook for 1 minute.', section: 'Make the base' },
+      { text: 'Add the chicken and coconut milk, then simmer for 45 minutes.', section: 'Finish' }
+    ]);
+  });
+
+  it('falls back to microdata', () => {
+    const recipe = extractRecipe(fixture('microdata.html'), 'https://bakes.example.org/banana-bread');
+
+    expect(recipe).toMatchObject({
+      title: 'Banana Bread',
+      description: 'Moist and easy.',
+      ingredients: ['3 ripe bananas', '1/3 cup melted butter', '1 ½ cups flour'],
+      prep_time: 10,
+      cook_time: 55,
+      servings: 1,
+      yield: '1 loaf (10 slices)',
+      image_url: 'https://bakes.example.org/banana-bread.jpg',
+      author: 'Alex Baker',
+      source_url: 'https://bakes.example.org/banana-bread'
+    });
+    expect(recipe?.instructions.map(step => step.text)).toEqual([
+      'Mash the bananas.',
+      'Stir in the butter, then the flour.',
+      'Bake at 350°F for 55 minutes.'
+    ]);
+  });
+
+  it('reads a recipe under mainEntity with steps in one string', () => {
+    const recipe = extractRecipe(fixture('jsonld-main-entity.html'), 'https://cakes.example.net/lemon');
+
+    expect(recipe).toMatchObject({
+      title: 'Lemon Drizzle Cake',
+      prep_time: 20,
+      cook_time: 30,
+      total_time: 50,
+      servings: 8,
+      yield: 'Serves 8-10'
+    });
+    expect(recipe?.instructions.map(step => step.text)).toEqual([
+      'Heat the oven to 180C.',
+      'Beat the butter and sugar, then add the eggs.',
+      'Bake for 30 minutes and drizzle while warm.'
+    ]);
+  });
+
+  it('returns null when no recipe has ingredients or steps', () => {
+    expect(extractRecipe(fixture('no-recipe.html'))).toBeNull();
+  });
+});
+
+describe('parseDuration', () => {
+  it.each([
+    ['PT1H15M', 75],
+    ['PT90M', 90],
+    ['P0DT45M', 45],
+    ['P1DT2H', 1560],
+    ['PT30S', 1],
+    ['20', 20],
+    ['PT0M', null],
+    ['about an hour', null]
+  ])('reads %s', (value, minutes) => {
+    expect(parseDuration(value)).toBe(minutes);
+  });
+});
+
+describe('parseYield', () => {
+  it('takes servings from the first number and keeps the longest text', () => {
+    expect(parseYield(['4', '4 servings'])).toEqual({ servings: 4, yield: '4 servings' });
+    expect(parseYield(12)).toEqual({ servings: 12, yield: '12' });
+    expect(parseYield('A big pot')).toEqual({ servings: null, yield: 'A big pot' });
+  });
+});
@@ -0,0 +1,370 @@
+// Extracts a schema.org Recipe from a web page's HTML, from JSON-LD or microdata.
+// Plain string processing with no Deno or DOM APIs, so it runs anywhere and can
+// be exercised offline against saved pages.
+
+export interface ExtractedStep {
+  text: string;
+  // Name of the HowToSection the step belongs to
+  section: string | null;
+}
+
+export interface ExtractedRecipe {
+  title: string;
+  description: string | null;
+  ingredients: string[];
+  instructions: ExtractedStep[];
+  // Minutes
+  prep_time: number | null;
+  cook_time: number | null;
+  total_time: number | null;
+  servings: number | null;
+  // recipeYield as written, e.g. "12 cookies"
+  yield: string | null;
+  cuisines: string[];
+  categories: string[];
+  keywords: string[];
+  image_url: string | null;
+  author: string | null;
+  source_url: string | null;
+}
+
+type SchemaValue = string | number | boolean | null | SchemaNode | SchemaValue[];
+interface SchemaNode {
+  [key: string]: SchemaValue | undefined;
+}
+
+const isNode = (value: unknown): value is SchemaNode =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const asArray = (value: SchemaValue | undefined): SchemaValue[] =>
+  value === undefined || value === null ? [] : Array.isArray(value) ? value : [value];
+
+// "Recipe", "schema:Recipe" and "http://schema.org/Recipe" all name the same type
+const typesOf = (node: SchemaNode) =>
+  asArray(node['@type'] ?? node.type).flatMap(type =>
+    typeof type === 'string' ? [type.replace(/^.*[/:#]/, '')] : []
+  );
+
+const hasType = (node: SchemaNode, type: string) => typesOf(node).includes(type);
+
+const namedEntities: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  ndash: '–', mdash: '—', hellip: '…', deg: '°', times: '×',
+  lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”',
+  frac12: '½', frac13: '⅓', frac14: '¼', frac23: '⅔', frac34: '¾', frac18: '⅛',
+  eacute: 'é', egrave: 'è', ecirc: 'ê', agrave: 'à', aacute: 'á', acirc: 'â',
+  ccedil: 'ç', iacute: 'í', ntilde: 'ñ', oacute: 'ó', ouml: 'ö', uuml: 'ü', auml: 'ä', szlig: 'ß'
+};
+
+export const decodeEntities = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+\d*);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(point) && point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+    }
+    return namedEntities[code.toLowerCase()] ?? entity;
+  });
+
+// Strips markup that sites leave inside JSON-LD strings and tidies whitespace
+const cleanText = (value: SchemaValue | undefined): string | null => {
+  if (typeof value === 'number') return String(value);
+  if (typeof value !== 'string') return null;
+
+  const text = decodeEntities(
+    value
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|li|div)>/gi, '\n')
+      .replace(/<[^>]*>/g, '')
+  )
+    .replace(/[ \t\u00a0]+/g, ' ')
+    .replace(/\s*\n\s*/g, '\n')
+    .trim();
+
+  return text || null;
+};
+
+const firstText = (value: SchemaValue | undefined): string | null => {
+  for (const entry of asArray(value)) {
+    const text = isNode(entry) ? firstText(entry.name ?? entry['@value']) : cleanText(entry);
+    if (text) return text;
+  }
+  return null;
+};
+
+// Comma-separated strings or arrays, de-duplicated case-insensitively
+const textList = (value: SchemaValue | undefined) => {
+  const items = asArray(value)
+    .flatMap(entry => (isNode(entry) ? [firstText(entry.name)] : (cleanText(entry) ?? '').split(/\s*[,;]\s*/)))
+    .map(item => item?.trim() ?? '')
+    .filter(Boolean);
+
+  const seen = new Set<string>();
+  return items.filter(item => {
+    const key = item.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+// ISO 8601 durations such as "PT1H15M", "P0DT45M" or "PT90M", in whole minutes.
+// A few sites write plain numbers of minutes, which are accepted too.
+export const parseDuration = (value: SchemaValue | undefined): number | null => {
+  const text = firstText(value);
+  if (!text) return null;
+  if (/^\d+(\.\d+)?$/.test(text)) return Math.round(Number(text)) || null;
+
+  const match = text
+    .toUpperCase()
+    .match(/^P(?:(\d+(?:[.,]\d+)?)Y)?(?:(\d+(?:[.,]\d+)?)M)?(?:(\d+(?:[.,]\d+)?)W)?(?:(\d+(?:[.,]\d+)?)D)?(?:T(?:(\d+(?:[.,]\d+)?)H)?(?:(\d+(?:[.,]\d+)?)M)?(?:(\d+(?:[.,]\d+)?)S)?)?$/);
+  if (!match) return null;
+
+  const [, , , weeks, days, hours, minutes, seconds] = match.map(part => (part ? Number(part.replace(',', '.')) : 0));
+  const total = Math.round(((weeks * 7 + days) * 24 + hours) * 60 + minutes + seconds / 60);
+  return total > 0 ? total : null;
+};
+
+// recipeYield may be 4, "4", "4 servings", "Serves 4-6" or ["4", "4 servings"]; the
+// first number is taken as servings and the most descriptive text kept as the yield
+export const parseYield = (value: SchemaValue | undefined) => {
+  const texts = asArray(value).flatMap(entry => {
+    const text = isNode(entry) ? firstText(entry.value ?? entry.name) : cleanText(entry);
+    return text ? [text] : [];
+  });
+
+  const number = texts.map(text => text.match(/\d+/)).find(Boolean);
+  const servings = number ? parseInt(number[0], 10) : null;
+  const description = [...texts].sort((a, b) => b.length - a.length)[0] ?? null;
+
+  return { servings: servings && servings > 0 ? servings : null, yield: description };
+};
+
+const toSteps = (value: SchemaValue | undefined, section: string | null = null): ExtractedStep[] =>
+  asArray(value).flatMap((entry): ExtractedStep[] => {
+    if (isNode(entry)) {
+      if (hasType(entry, 'HowToSection') || (!entry.text && entry.itemListElement)) {
+        return toSteps(entry.itemListElement ?? entry.steps, firstText(entry.name) ?? section);
+      }
+      if (hasType(entry, 'ItemList')) return toSteps(entry.itemListElement, section);
+      // HowToStep, or ListItem wrapping one
+      if (isNode(entry.item)) return toSteps(entry.item, section);
+      const text = firstText(entry.text) ?? firstText(entry.name) ?? firstText(entry.description);
+      return text ? [{ text, section }] : [];
+    }
+
+    // A single string often holds every step, one per line or paragraph
+    const text = cleanText(entry);
+    if (!text) return [];
+    return text
+      .split(/\n+/)
+      .map(line => line.replace(/^\s*(?:step\s*)?\d+[.):]\s+/i, '').trim())
+      .filter(Boolean)
+      .map(line => ({ text: line, section }));
+  });
+
+const resolveUrl = (url: string | null, baseUrl: string | null) => {
+  if (!url) return null;
+  try {
+    return new URL(url, baseUrl ?? undefined).toString();
+  } catch {
+    return null;
+  }
+};
+
+const imageUrl = (value: SchemaValue | undefined): string | null => {
+  for (const entry of asArray(value)) {
+    const url = isNode(entry) ? firstText(entry.url ?? entry.contentUrl ?? entry['@id']) : cleanText(entry);
+    if (url) return url;
+  }
+  return null;
+};
+
+export const toExtractedRecipe = (node: SchemaNode, baseUrl: string | null = null): ExtractedRecipe | null => {
+  const title = firstText(node.name ?? node.headline);
+  const ingredients = asArray(node.recipeIngredient ?? node.ingredients)
+    .flatMap(entry => ((isNode(entry) ? firstText(entry.name ?? entry.text) : cleanText(entry)) ?? '').split('\n'))
+    .map(line => line.trim())
+    .filter(Boolean);
+  const instructions = toSteps(node.recipeInstructions);
+
+  if (!title || (ingredients.length === 0 && instructions.length === 0)) return null;
+
+  const prepTime = parseDuration(node.prepTime);
+  const totalTime = parseDuration(node.totalTime);
+  // Only a total given: whatever isn't prep counts as cooking
+  const cookTime = parseDuration(node.cookTime)
+    ?? (totalTime !== null && totalTime > (prepTime ?? 0) ? totalTime - (prepTime ?? 0) : null);
+  const recipeYield = parseYield(node.recipeYield ?? node.yield);
+
+  return {
+    title,
+    description: firstText(node.description),
+    ingredients,
+    instructions,
+    prep_time: prepTime,
+    cook_time: cookTime,
+    total_time: totalTime,
+    servings: recipeYield.servings,
+    yield: recipeYield.yield,
+    cuisines: textList(node.recipeCuisine),
+    categories: textList(node.recipeCategory),
+    keywords: textList(node.keywords),
+    image_url: resolveUrl(imageUrl(node.image ?? node.thumbnailUrl), baseUrl),
+    author: firstText(node.author),
+    source_url: resolveUrl(firstText(node.url ?? node.mainEntityOfPage), baseUrl) ?? baseUrl
+  };
+};
+
+// Finds Recipe nodes anywhere in a JSON-LD document: top-level arrays, `@graph`,
+// or nested under a WebPage's `mainEntity`
+const findRecipeNodes = (value: SchemaValue | undefined, depth = 0): SchemaNode[] => {
+  if (depth > 8) return [];
+  if (Array.isArray(value)) return value.flatMap(entry => findRecipeNodes(entry, depth + 1));
+  if (!isNode(value)) return [];
+  if (hasType(value, 'Recipe')) return [value];
+
+  return Object.entries(value)
+    .filter(([key]) => key === '@graph' || key === 'mainEntity' || key === 'mainEntityOfPage' || key === 'hasPart')
+    .flatMap(([, entry]) => findRecipeNodes(entry, depth + 1));
+};
+
+const parseJson = (text: string): SchemaValue | undefined => {
+  const source = text.trim().replace(/^<!\[CDATA\[|\]\]>$/g, '').replace(/^\s*\/\/.*$/gm, '');
+  try {
+    return JSON.parse(source);
+  } catch {
+    // Raw line breaks inside strings are a common way for hand-written JSON-LD to be invalid
+    try {
+      return JSON.parse(source.replace(/[\r\n\t]+/g, ' '));
+    } catch {
+      return undefined;
+    }
+  }
+};
+
+export const extractJsonLd = (html: string): SchemaNode[] =>
+  [...html.matchAll(/<script\b[^>]*type\s*=\s*["']?application\/ld\+json["']?[^>]*>([\s\S]*?)<\/script>/gi)]
+    .flatMap(([, json]) => findRecipeNodes(parseJson(json)));
+
+interface HtmlElement {
+  tag: string;
+  attrs: Record<string, string>;
+  children: (HtmlElement | string)[];
+}
+
+const VOID_TAGS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'param', 'source', 'track', 'wbr'
+]);
+
+const parseAttrs = (source: string) => {
+  const attrs: Record<string, string> = {};
+  for (const [, name, , doubleQuoted, singleQuoted, bare] of source.matchAll(
+    /([^\s"'>/=]+)(\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g
+  )) {
+    attrs[name.toLowerCase()] = decodeEntities(doubleQuoted ?? singleQuoted ?? bare ?? '');
+  }
+  return attrs;
+};
+
+// A forgiving HTML tree builder, just enough to follow microdata nesting.
+// Unclosed elements are closed by the nearest matching end tag.
+export const parseHtml = (html: string): HtmlElement => {
+  const root: HtmlElement = { tag: '#root', attrs: {}, children: [] };
+  const stack = [root];
+  const source = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|noscript|template)\b[^>]*>[\s\S]*?<\/\1>/gi, '');
+
+  let position = 0;
+  for (const match of source.matchAll(/<(\/?)([a-zA-Z][\w:-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/g)) {
+    const parent = stack[stack.length - 1];
+    const text = source.slice(position, match.index);
+    if (text) parent.children.push(text);
+    position = match.index! + match[0].length;
+
+    const [, closing, name, rest] = match;
+    const tag = name.toLowerCase();
+
+    if (closing) {
+      const index = stack.map(element => element.tag).lastIndexOf(tag);
+      if (index > 0) stack.length = index;
+      continue;
+    }
+
+    const element: HtmlElement = { tag, attrs: parseAttrs(rest.replace(/\/\s*$/, '')), children: [] };
+    parent.children.push(element);
+    if (!VOID_TAGS.has(tag) && !/\/\s*$/.test(rest)) stack.push(element);
+  }
+
+  const tail = source.slice(position);
+  if (tail) stack[stack.length - 1].children.push(tail);
+  return root;
+};
+
+const BLOCK_TAGS = new Set(['p', 'li', 'div', 'br', 'tr', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'section', 'ol', 'ul']);
+
+const textContent = (element: HtmlElement | string): string =>
+  typeof element === 'string'
+    ? element.replace(/\s+/g, ' ')
+    : element.children.map(textContent).join('') + (BLOCK_TAGS.has(element.tag) ? '\n' : '');
+
+const propertyValue = (element: HtmlElement, baseUrl: string | null): SchemaValue => {
+  const { tag, attrs } = element;
+  if (attrs.content !== undefined) return attrs.content;
+  if (tag === 'meta') return attrs.content ?? '';
+  if (['img', 'audio', 'video', 'source', 'embed', 'iframe'].includes(tag)) return resolveUrl(attrs.src, baseUrl);
+  if (['a', 'area', 'link'].includes(tag)) return resolveUrl(attrs.href, baseUrl);
+  if (tag === 'time' && attrs.datetime) return attrs.datetime;
+  if ((tag === 'data' || tag === 'meter') && attrs.value !== undefined) return attrs.value;
+  return textContent(element);
+};
+
+// Reads an itemscope element into the same shape as a JSON-LD node
+const toMicrodataNode = (scope: HtmlElement, baseUrl: string | null): SchemaNode => {
+  const node: SchemaNode = { '@type': (scope.attrs.itemtype ?? '').split(/\s+/).filter(Boolean) };
+
+  const addProperties = (element: HtmlElement) => {
+    for (const child of element.children) {
+      if (typeof child === 'string') continue;
+
+      const names = (child.attrs.itemprop ?? '').split(/\s+/).filter(Boolean);
+      const isScope = child.attrs.itemscope !== undefined;
+      if (names.length > 0) {
+        const value = isScope ? toMicrodataNode(child, baseUrl) : propertyValue(child, baseUrl);
+        for (const name of names) node[name] = [...asArray(node[name]), value];
+      }
+      // Properties inside a nested item belong to that item
+      if (!isScope) addProperties(child);
+    }
+  };
+
+  addProperties(scope);
+  return node;
+};
+
+export const extractMicrodata = (html: string, baseUrl: string | null = null): SchemaNode[] => {
+  const scopes: SchemaNode[] = [];
+  const visit = (element: HtmlElement) => {
+    for (const child of element.children) {
+      if (typeof child === 'string') continue;
+      if (child.attrs.itemscope !== undefined && /schema\.org\/Recipe\b/i.test(child.attrs.itemtype ?? '')) {
+        scopes.push(toMicrodataNode(child, baseUrl));
+      } else {
+        visit(child);
+      }
+    }
+  };
+
+  visit(parseHtml(html));
+  return scopes;
+};
+
+// JSON-LD is preferred since it is usually more complete; microdata is the fallback.
+// Returns the first recipe found that has a title and some ingredients or steps.
+export const extractRecipe = (html: string, baseUrl: string | null = null): ExtractedRecipe | null => {
+  for (const node of [...extractJsonLd(html), ...extractMicrodata(html, baseUrl)]) {
+    const recipe = toExtractedRecipe(node, baseUrl);
+    if (recipe) return recipe;
+  }
+  return null;
+};
@@ -0,0 +1,186 @@
+// Fetches a recipe page and returns the schema.org Recipe found in it, for the
+// client to map onto a new recipe. Called with { url }, or with { image } to
+// download the recipe's photo, which browsers can't fetch across origins.
+import { corsHeaders } from '../_shared/cors.ts';
+import { isIpAddress, isPrivateAddress, isPrivateHostName } from '../_shared/public-address.ts';
+import { extractRecipe } from '../_shared/recipe-extractor.ts';
+
+const FETCH_TIMEOUT = 10_000;
+const MAX_REDIRECTS = 5;
+const MAX_PAGE_SIZE = 5 * 1024 * 1024;
+const MAX_IMAGE_SIZE = 10 * 1024 * 1024;
+
+class ImportError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Only public http(s) addresses, so the function can't be pointed at internal services
+const toPublicUrl = (value: unknown, base?: URL) => {
+  let url: URL;
+  try {
+    url = new URL(String(value), base);
+  } catch {
+    throw new ImportError('Please enter a valid web address');
+  }
+
+  const isPrivate = isIpAddress(url.hostname) ? isPrivateAddress(url.hostname) : isPrivateHostName(url.hostname);
+  if (!['http:', 'https:'].includes(url.protocol) || isPrivate) {
+    throw new ImportError('Only public http and https pages can be imported');
+  }
+  return url;
+};
+
+// A public-looking name can still resolve to an internal address. fetch looks
+// the name up again, so this narrows DNS rebinding rather than ruling it out.
+const checkResolvedAddresses = async (url: URL) => {
+  if (isIpAddress(url.hostname)) return;
+
+  const lookups = await Promise.allSettled([
+    Deno.resolveDns(url.hostname, 'A'),
+    Deno.resolveDns(url.hostname, 'AAAA'),
+  ]);
+  const addresses = lookups.flatMap(lookup => (lookup.status === 'fulfilled' ? lookup.value : []));
+  if (addresses.length === 0) {
+    throw new ImportError(`Could not reach ${url.hostname}`, 502);
+  }
+  if (addresses.some(isPrivateAddress)) {
+    throw new ImportError('Only public http and https pages can be imported');
+  }
+};
+
+// Redirects are followed by hand so every hop is checked before it is requested
+const download = async (start: URL, accept: string, signal: AbortSignal) => {
+  let url = start;
+
+  for (let redirects = 0; ; redirects++) {
+    await checkResolvedAddresses(url);
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        headers: {
+          Accept: accept,
+          // Some recipe sites turn away requests without a browser-like user agent
+          'User-Agent': 'Mozilla/5.0 (compatible; RecipeImporter/1.0)',
+        },
+        redirect: 'manual',
+        signal,
+      });
+    } catch {
+      throw new ImportError(`Could not reach ${url.hostname}`, 502);
+    }
+
+    const location = response.headers.get('location');
+    if (response.status >= 300 && response.status < 400 && location) {
+      await response.body?.cancel();
+      if (redirects >= MAX_REDIRECTS) {
+        throw new ImportError(`${start.hostname} redirected too many times`, 502);
+      }
+      url = toPublicUrl(location, url);
+      continue;
+    }
+
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new ImportError(`${url.hostname} responded with ${response.status}`, 502);
+    }
+    return { response, url };
+  }
+};
+
+// Reads the body up to `maxSize` bytes, whatever Content-Length says or leaves out
+const readBody = async (response: Response, maxSize: number, tooLarge: string) => {
+  if (Number(response.headers.get('content-length') ?? 0) > maxSize) {
+    await response.body?.cancel();
+    throw new ImportError(tooLarge, 413);
+  }
+  if (!response.body) return new Uint8Array();
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      size += value.byteLength;
+      if (size > maxSize) {
+        await reader.cancel();
+        throw new ImportError(tooLarge, 413);
+      }
+      chunks.push(value);
+    }
+  } catch (error) {
+    if (error instanceof ImportError) throw error;
+    throw new ImportError('The download was interrupted', 502);
+  }
+
+  const body = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return body;
+};
+
+const importRecipe = async (value: unknown) => {
+  const signal = AbortSignal.timeout(FETCH_TIMEOUT);
+  const { response, url } = await download(toPublicUrl(value), 'text/html,application/xhtml+xml', signal);
+
+  const contentType = response.headers.get('content-type') ?? '';
+  if (contentType && !/html|xml/i.test(contentType)) {
+    await response.body?.cancel();
+    throw new ImportError("That address isn't a web page", 422);
+  }
+
+  const html = new TextDecoder().decode(await readBody(response, MAX_PAGE_SIZE, 'The page is too large to import'));
+  const recipe = extractRecipe(html, url.toString());
+  if (!recipe) {
+    throw new ImportError("Couldn't find a recipe on that page. It may not publish recipe details in a format we can read.", 422);
+  }
+  return json({ recipe });
+};
+
+const importImage = async (value: unknown) => {
+  const signal = AbortSignal.timeout(FETCH_TIMEOUT);
+  const { response } = await download(toPublicUrl(value), 'image/*', signal);
+
+  const contentType = response.headers.get('content-type') ?? '';
+  if (!contentType.startsWith('image/')) {
+    await response.body?.cancel();
+    throw new ImportError("That address isn't an image", 422);
+  }
+
+  const image = await readBody(response, MAX_IMAGE_SIZE, 'The image is too large to import');
+  // Sent as raw bytes so the client library hands it back as a Blob
+  return new Response(image, {
+    headers: { ...corsHeaders, 'Content-Type': 'application/octet-stream' },
+  });
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    if (body.image) return await importImage(body.image);
+    if (body.url) return await importRecipe(body.url);
+    throw new ImportError('Missing url');
+  } catch (error) {
+    if (error instanceof ImportError) {
+      return json({ error: error.message }, error.status);
+    }
+    return json({ error: 'Something went wrong importing the recipe' }, 500);
+  }
+});
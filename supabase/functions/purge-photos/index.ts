@@ -0,0 +1,60 @@
+// Removes the files queued in photo_cleanup from the recipe-photos bucket. The
+// nightly trash purge queues the photos of the recipes it deletes, since SQL
+// can't remove storage objects, and a scheduled job calls this afterwards with
+// the service role key. Paths that fail to remove stay queued for the next run.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+const PHOTO_BUCKET = 'recipe-photos';
+// Removed rows are deleted by path in the query string, so keep batches small
+const BATCH_SIZE = 100;
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+Deno.serve(async (req) => {
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+  // Any signed-in user passes the JWT check, but only the scheduled job may drain the queue
+  if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return json({ error: 'Forbidden' }, 403);
+  }
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, serviceRoleKey, {
+    auth: { persistSession: false },
+  });
+  let removed = 0;
+
+  try {
+    for (;;) {
+      const { data, error } = await supabase
+        .from('photo_cleanup')
+        .select('path')
+        .order('queued_at')
+        .limit(BATCH_SIZE);
+
+      if (error) throw error;
+      if (data.length === 0) break;
+
+      // Paths that are already gone aren't an error, so a retried batch is safe
+      const paths = data.map(row => row.path as string);
+      const { error: removeError } = await supabase.storage.from(PHOTO_BUCKET).remove(paths);
+      if (removeError) throw removeError;
+
+      const { error: deleteError } = await supabase
+        .from('photo_cleanup')
+        .delete()
+        .in('path', paths);
+
+      if (deleteError) throw deleteError;
+      removed += paths.length;
+      if (paths.length < BATCH_SIZE) break;
+    }
+
+    return json({ removed });
+  } catch (error) {
+    return json({ error: (error as Error).message, removed }, 500);
+  }
+});
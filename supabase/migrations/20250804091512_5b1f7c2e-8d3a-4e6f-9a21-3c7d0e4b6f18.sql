@@ -0,0 +1,120 @@
+-- Structured ingredients: each entry becomes an object of the form
+-- { "quantity": number | null, "unit": text | null, "item": text, "note": text | null, "optional": boolean }
+
+-- Best-effort parser for the existing free-text ingredient lines
+CREATE OR REPLACE FUNCTION public.parse_ingredient_line(line TEXT)
+RETURNS JSONB AS $$
+DECLARE
+  rest TEXT := btrim(line);
+  matches TEXT[];
+  quantity NUMERIC;
+  unit TEXT;
+  note TEXT;
+  is_optional BOOLEAN := false;
+BEGIN
+  -- "(optional)" anywhere or a trailing ", optional"
+  IF rest ~* '\(optional\)|,\s*optional\s*$' THEN
+    is_optional := true;
+    rest := btrim(regexp_replace(rest, '\s*\(optional\)|,\s*optional\s*$', '', 'gi'));
+  END IF;
+
+  -- Leading quantity: mixed fraction, fraction or decimal
+  matches := regexp_match(rest, '^(\d+)\s+(\d+)/(\d+)\s+(.*)$');
+  IF matches IS NOT NULL THEN
+    quantity := matches[1]::numeric + matches[2]::numeric / NULLIF(matches[3]::numeric, 0);
+    rest := matches[4];
+  ELSE
+    matches := regexp_match(rest, '^(\d+)/(\d+)\s+(.*)$');
+    IF matches IS NOT NULL THEN
+      quantity := matches[1]::numeric / NULLIF(matches[2]::numeric, 0);
+      rest := matches[3];
+    ELSE
+      matches := regexp_match(rest, '^(\d+(?:\.\d+)?)\s*(.*)$');
+      IF matches IS NOT NULL THEN
+        quantity := matches[1]::numeric;
+        rest := matches[2];
+      END IF;
+    END IF;
+  END IF;
+
+  -- Unit directly after the quantity
+  IF quantity IS NOT NULL THEN
+    matches := regexp_match(
+      rest,
+      '^(cups?|c|tablespoons?|tbsps?|tbs|teaspoons?|tsps?|grams?|g|kilograms?|kg|millilitres?|milliliters?|ml|litres?|liters?|l|ounces?|oz|pounds?|lbs?|pinch(?:es)?|cloves?|cans?)\.?\s+(.*)$',
+      'i'
+    );
+    IF matches IS NOT NULL THEN
+      unit := CASE lower(matches[1])
+        WHEN 'c' THEN 'cup'
+        WHEN 'cups' THEN 'cup'
+        WHEN 'tablespoon' THEN 'tbsp'
+        WHEN 'tablespoons' THEN 'tbsp'
+        WHEN 'tbsps' THEN 'tbsp'
+        WHEN 'tbs' THEN 'tbsp'
+        WHEN 'teaspoon' THEN 'tsp'
+        WHEN 'teaspoons' THEN 'tsp'
+        WHEN 'tsps' THEN 'tsp'
+        WHEN 'gram' THEN 'g'
+        WHEN 'grams' THEN 'g'
+        WHEN 'kilogram' THEN 'kg'
+        WHEN 'kilograms' THEN 'kg'
+        WHEN 'millilitre' THEN 'ml'
+        WHEN 'millilitres' THEN 'ml'
+        WHEN 'milliliter' THEN 'ml'
+        WHEN 'milliliters' THEN 'ml'
+        WHEN 'litre' THEN 'l'
+        WHEN 'litres' THEN 'l'
+        WHEN 'liter' THEN 'l'
+        WHEN 'liters' THEN 'l'
+        WHEN 'ounce' THEN 'oz'
+        WHEN 'ounces' THEN 'oz'
+        WHEN 'pound' THEN 'lb'
+        WHEN 'pounds' THEN 'lb'
+        WHEN 'lbs' THEN 'lb'
+        WHEN 'pinches' THEN 'pinch'
+        WHEN 'cloves' THEN 'clove'
+        WHEN 'cans' THEN 'can'
+        ELSE lower(matches[1])
+      END;
+      rest := matches[2];
+    END IF;
+  END IF;
+
+  -- Anything after the first comma is a preparation note
+  matches := regexp_match(rest, '^([^,]+),\s*(.+)$');
+  IF matches IS NOT NULL THEN
+    rest := matches[1];
+    note := btrim(matches[2]);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'quantity', round(quantity, 4),
+    'unit', unit,
+    'item', btrim(rest),
+    'note', note,
+    'optional', is_optional
+  );
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION public.parse_ingredient_lines(lines TEXT[])
+RETURNS JSONB AS $$
+  SELECT COALESCE(
+    jsonb_agg(public.parse_ingredient_line(line) ORDER BY position),
+    '[]'::jsonb
+  )
+  FROM unnest(lines) WITH ORDINALITY AS t(line, position)
+  WHERE btrim(line) <> '';
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Convert the column in place, parsing every existing line
+ALTER TABLE public.recipes
+  ALTER COLUMN ingredients TYPE JSONB USING public.parse_ingredient_lines(ingredients);
+
+ALTER TABLE public.recipes
+  ADD CONSTRAINT recipes_ingredients_is_array CHECK (jsonb_typeof(ingredients) = 'array');
+
+-- The parsers were only needed for the conversion
+DROP FUNCTION public.parse_ingredient_lines(TEXT[]);
+DROP FUNCTION public.parse_ingredient_line(TEXT);
@@ -0,0 +1,5 @@
+-- Per-user preference for how ingredient amounts and temperatures are displayed
+CREATE TYPE public.measurement_system AS ENUM ('original', 'us', 'metric');
+
+ALTER TABLE public.profiles
+  ADD COLUMN measurement_system measurement_system NOT NULL DEFAULT 'original';
@@ -0,0 +1,62 @@
+-- Ordered instruction steps: each entry becomes an object of the form
+-- { "text": text, "section": text | null, "timer_minutes": integer | null, "note": text | null }
+-- where "section" is a heading shown before the step that starts a new section.
+
+-- Splits the existing instructions blob on numbered lines ("1.", "2)", "Step 3:") and blank lines.
+-- Short lines ending in a colon ("For the sauce:") become the section of the next step.
+CREATE OR REPLACE FUNCTION public.split_instruction_steps(body TEXT)
+RETURNS JSONB AS $$
+DECLARE
+  line TEXT;
+  current TEXT;
+  current_section TEXT;
+  pending_section TEXT;
+  steps JSONB := '[]'::jsonb;
+  step_marker CONSTANT TEXT := '^(step\s*)?\d+\s*[.):]\s*';
+BEGIN
+  FOREACH line IN ARRAY regexp_split_to_array(COALESCE(body, ''), E'\\r?\\n') LOOP
+    line := btrim(line);
+
+    IF line = '' OR line ~* step_marker OR (line ~ ':$' AND length(line) <= 40) THEN
+      -- Any of these ends the step being collected
+      IF current IS NOT NULL THEN
+        steps := steps || jsonb_build_array(jsonb_build_object(
+          'text', current, 'section', current_section, 'timer_minutes', NULL, 'note', NULL
+        ));
+        current := NULL;
+      END IF;
+
+      IF line ~* step_marker THEN
+        current := regexp_replace(line, step_marker, '', 'i');
+        current_section := pending_section;
+        pending_section := NULL;
+      ELSIF line <> '' THEN
+        pending_section := rtrim(line, ':');
+      END IF;
+    ELSIF current IS NULL THEN
+      current := line;
+      current_section := pending_section;
+      pending_section := NULL;
+    ELSE
+      current := current || ' ' || line;
+    END IF;
+  END LOOP;
+
+  IF current IS NOT NULL THEN
+    steps := steps || jsonb_build_array(jsonb_build_object(
+      'text', current, 'section', current_section, 'timer_minutes', NULL, 'note', NULL
+    ));
+  END IF;
+
+  RETURN steps;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+ALTER TABLE public.recipes
+  ALTER COLUMN instructions TYPE JSONB USING public.split_instruction_steps(instructions);
+
+ALTER TABLE public.recipes
+  ADD CONSTRAINT recipes_instructions_is_array CHECK (jsonb_typeof(instructions) = 'array');
+
+-- Only needed for the conversion
+DROP FUNCTION public.split_instruction_steps(TEXT);
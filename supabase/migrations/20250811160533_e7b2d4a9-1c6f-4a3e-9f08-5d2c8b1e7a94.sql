@@ -0,0 +1,33 @@
+-- Recipe photos: an ordered list of { "path": text, "thumbnail_path": text } objects
+-- pointing into the recipe-photos bucket. The first photo is the cover.
+ALTER TABLE public.recipes
+  ADD COLUMN photos JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE public.recipes
+  ADD CONSTRAINT recipes_photos_is_array CHECK (jsonb_typeof(photos) = 'array');
+
+-- Private bucket; objects live under "<user_id>/" so ownership mirrors recipes.user_id
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('recipe-photos', 'recipe-photos', false, 5242880, ARRAY['image/jpeg', 'image/png', 'image/webp'])
+ON CONFLICT (id) DO NOTHING;
+
+-- Create policies for recipe photos
+CREATE POLICY "Users can view their own recipe photos"
+ON storage.objects
+FOR SELECT
+USING (bucket_id = 'recipe-photos' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can upload their own recipe photos"
+ON storage.objects
+FOR INSERT
+WITH CHECK (bucket_id = 'recipe-photos' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can update their own recipe photos"
+ON storage.objects
+FOR UPDATE
+USING (bucket_id = 'recipe-photos' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can delete their own recipe photos"
+ON storage.objects
+FOR DELETE
+USING (bucket_id = 'recipe-photos' AND auth.uid()::text = (storage.foldername(name))[1]);
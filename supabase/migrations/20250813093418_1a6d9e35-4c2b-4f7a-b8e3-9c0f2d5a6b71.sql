@@ -0,0 +1,96 @@
+-- Create tags table for user-defined recipe labels ("weeknight", "vegan", ...)
+CREATE TABLE public.tags (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (name = lower(btrim(name)) AND name <> ''),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+-- Create join table between recipes and tags
+CREATE TABLE public.recipe_tags (
+  recipe_id UUID NOT NULL REFERENCES public.recipes(id) ON DELETE CASCADE,
+  tag_id UUID NOT NULL REFERENCES public.tags(id) ON DELETE CASCADE,
+  PRIMARY KEY (recipe_id, tag_id)
+);
+
+CREATE INDEX recipe_tags_tag_id_idx ON public.recipe_tags (tag_id);
+
+-- Enable RLS
+ALTER TABLE public.tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.recipe_tags ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for tags
+CREATE POLICY "Users can view their own tags"
+ON public.tags
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own tags"
+ON public.tags
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own tags"
+ON public.tags
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own tags"
+ON public.tags
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Create policies for recipe_tags: both the recipe and the tag must belong to the user
+CREATE POLICY "Users can view tags on their own recipes"
+ON public.recipe_tags
+FOR SELECT
+USING (EXISTS (SELECT 1 FROM public.recipes WHERE recipes.id = recipe_id AND recipes.user_id = auth.uid()));
+
+CREATE POLICY "Users can tag their own recipes"
+ON public.recipe_tags
+FOR INSERT
+WITH CHECK (
+  EXISTS (SELECT 1 FROM public.recipes WHERE recipes.id = recipe_id AND recipes.user_id = auth.uid())
+  AND EXISTS (SELECT 1 FROM public.tags WHERE tags.id = tag_id AND tags.user_id = auth.uid())
+);
+
+CREATE POLICY "Users can untag their own recipes"
+ON public.recipe_tags
+FOR DELETE
+USING (EXISTS (SELECT 1 FROM public.recipes WHERE recipes.id = recipe_id AND recipes.user_id = auth.uid()));
+
+-- Replace a recipe's tags with the given names in one call, creating tags as needed.
+-- Runs as the caller, so the policies above still apply.
+CREATE OR REPLACE FUNCTION public.set_recipe_tags(p_recipe_id UUID, p_tag_names TEXT[])
+RETURNS SETOF public.tags AS $$
+DECLARE
+  names TEXT[];
+BEGIN
+  SELECT COALESCE(array_agg(DISTINCT lower(btrim(n))), '{}')
+  INTO names
+  FROM unnest(p_tag_names) AS n
+  WHERE btrim(n) <> '';
+
+  INSERT INTO public.tags (user_id, name)
+  SELECT auth.uid(), n FROM unnest(names) AS n
+  ON CONFLICT (user_id, name) DO NOTHING;
+
+  DELETE FROM public.recipe_tags rt
+  USING public.tags t
+  WHERE rt.recipe_id = p_recipe_id
+    AND t.id = rt.tag_id
+    AND NOT (t.name = ANY (names));
+
+  INSERT INTO public.recipe_tags (recipe_id, tag_id)
+  SELECT p_recipe_id, t.id
+  FROM public.tags t
+  WHERE t.user_id = auth.uid() AND t.name = ANY (names)
+  ON CONFLICT DO NOTHING;
+
+  RETURN QUERY
+  SELECT t.* FROM public.tags t
+  WHERE t.user_id = auth.uid() AND t.name = ANY (names)
+  ORDER BY t.name;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
@@ -0,0 +1,116 @@
+-- Move cuisines from the fixed cuisine_type enum into a table of built-in
+-- defaults (user_id IS NULL) plus per-user additions. Recipes keep referring
+-- to a cuisine by its slug, so every existing value carries over unchanged.
+CREATE TABLE public.cuisines (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  slug TEXT NOT NULL CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+  name TEXT NOT NULL CHECK (btrim(name) <> ''),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX cuisines_builtin_slug_key ON public.cuisines (slug) WHERE user_id IS NULL;
+CREATE UNIQUE INDEX cuisines_user_slug_key ON public.cuisines (user_id, slug) WHERE user_id IS NOT NULL;
+
+INSERT INTO public.cuisines (slug, name) VALUES
+  ('american', 'American'),
+  ('asian', 'Asian'),
+  ('chinese', 'Chinese'),
+  ('ethiopian', 'Ethiopian'),
+  ('french', 'French'),
+  ('greek', 'Greek'),
+  ('indian', 'Indian'),
+  ('italian', 'Italian'),
+  ('japanese', 'Japanese'),
+  ('korean', 'Korean'),
+  ('mediterranean', 'Mediterranean'),
+  ('mexican', 'Mexican'),
+  ('middle-eastern', 'Middle Eastern'),
+  ('spanish', 'Spanish'),
+  ('thai', 'Thai'),
+  ('vietnamese', 'Vietnamese'),
+  ('other', 'Other');
+
+-- Enable RLS
+ALTER TABLE public.cuisines ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for cuisines: built-ins are visible to everyone but only editable through migrations
+CREATE POLICY "Users can view built-in and their own cuisines"
+ON public.cuisines
+FOR SELECT
+USING (user_id IS NULL OR auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own cuisines"
+ON public.cuisines
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own cuisines"
+ON public.cuisines
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own cuisines"
+ON public.cuisines
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- A user's cuisine may not shadow a built-in one
+CREATE OR REPLACE FUNCTION public.check_cuisine_slug()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.user_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.cuisines WHERE user_id IS NULL AND slug = NEW.slug
+  ) THEN
+    RAISE EXCEPTION 'Cuisine "%" already exists', NEW.slug USING ERRCODE = 'unique_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER check_cuisine_slug
+  BEFORE INSERT OR UPDATE OF slug ON public.cuisines
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_cuisine_slug();
+
+-- Recipes using a cuisine that is deleted fall back to "other"
+CREATE OR REPLACE FUNCTION public.reassign_deleted_cuisine()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.recipes
+  SET cuisine = 'other'
+  WHERE user_id = OLD.user_id AND cuisine = OLD.slug;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER reassign_deleted_cuisine
+  BEFORE DELETE ON public.cuisines
+  FOR EACH ROW
+  WHEN (OLD.user_id IS NOT NULL)
+  EXECUTE FUNCTION public.reassign_deleted_cuisine();
+
+-- Switch recipes.cuisine from the enum to a slug
+ALTER TABLE public.recipes ALTER COLUMN cuisine DROP DEFAULT;
+ALTER TABLE public.recipes ALTER COLUMN cuisine TYPE TEXT USING cuisine::TEXT;
+ALTER TABLE public.recipes ALTER COLUMN cuisine SET DEFAULT 'other';
+DROP TYPE public.cuisine_type;
+
+-- The slug must name a built-in cuisine or one of the recipe owner's own
+CREATE OR REPLACE FUNCTION public.check_recipe_cuisine()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.cuisines
+    WHERE slug = NEW.cuisine AND (user_id IS NULL OR user_id = NEW.user_id)
+  ) THEN
+    RAISE EXCEPTION 'Unknown cuisine "%"', NEW.cuisine USING ERRCODE = 'foreign_key_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER check_recipe_cuisine
+  BEFORE INSERT OR UPDATE OF cuisine ON public.recipes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_recipe_cuisine();
@@ -0,0 +1,42 @@
+-- Server-side recipe search for the dashboard. Returns plain recipe rows so
+-- callers can still embed tags, order and paginate through PostgREST, e.g.
+--   rpc/search_recipes?select=*,tags(name)&order=created_at.desc&limit=24
+-- Runs as the caller, so RLS limits results to the user's own recipes.
+CREATE OR REPLACE FUNCTION public.search_recipes(
+  p_search TEXT DEFAULT NULL,
+  p_cuisine TEXT DEFAULT NULL,
+  p_difficulty public.difficulty_level DEFAULT NULL,
+  p_tags TEXT[] DEFAULT NULL,
+  p_match_all_tags BOOLEAN DEFAULT TRUE
+)
+RETURNS SETOF public.recipes AS $$
+  WITH params AS (
+    SELECT
+      '%' || replace(replace(replace(btrim(p_search), '\', '\\'), '%', '\%'), '_', '\_') || '%' AS pattern,
+      (SELECT count(DISTINCT tag) FROM unnest(p_tags) AS tag) AS tag_count
+  )
+  SELECT r.*
+  FROM public.recipes r, params
+  WHERE (
+      COALESCE(btrim(p_search), '') = ''
+      OR r.title ILIKE params.pattern
+      OR EXISTS (
+        SELECT 1 FROM jsonb_array_elements(r.ingredients) AS ingredient
+        WHERE ingredient->>'item' ILIKE params.pattern
+      )
+    )
+    AND (p_cuisine IS NULL OR r.cuisine = p_cuisine)
+    AND (p_difficulty IS NULL OR r.difficulty = p_difficulty)
+    AND (
+      params.tag_count = 0
+      OR (
+        SELECT count(*)
+        FROM public.recipe_tags rt
+        JOIN public.tags t ON t.id = rt.tag_id
+        WHERE rt.recipe_id = r.id AND t.name = ANY (p_tags)
+      ) >= CASE WHEN p_match_all_tags THEN params.tag_count ELSE 1 END
+    );
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Supports the default newest-first listing
+CREATE INDEX recipes_user_id_created_at_idx ON public.recipes (user_id, created_at DESC, id);
@@ -0,0 +1,100 @@
+-- Full-text search over recipes: a weighted tsvector (title > ingredients >
+-- instructions) kept up to date by trigger, ranked search and highlighted snippets.
+
+-- Flatten the JSONB columns into plain text for indexing and snippets
+CREATE OR REPLACE FUNCTION public.recipe_ingredients_text(ingredients JSONB)
+RETURNS TEXT AS $$
+  SELECT COALESCE(string_agg(concat_ws(' ', ingredient->>'item', ingredient->>'note'), ', '), '')
+  FROM jsonb_array_elements(CASE WHEN jsonb_typeof(ingredients) = 'array' THEN ingredients ELSE '[]' END) AS ingredient
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.recipe_instructions_text(instructions JSONB)
+RETURNS TEXT AS $$
+  SELECT COALESCE(string_agg(concat_ws(' ', step->>'section', step->>'text', step->>'note'), ' '), '')
+  FROM jsonb_array_elements(CASE WHEN jsonb_typeof(instructions) = 'array' THEN instructions ELSE '[]' END) AS step
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+ALTER TABLE public.recipes ADD COLUMN search_vector TSVECTOR;
+
+CREATE OR REPLACE FUNCTION public.update_recipe_search_vector()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.search_vector :=
+    setweight(to_tsvector('english', COALESCE(NEW.title, '')), 'A') ||
+    setweight(to_tsvector('english', public.recipe_ingredients_text(NEW.ingredients)), 'B') ||
+    setweight(to_tsvector('english', public.recipe_instructions_text(NEW.instructions)), 'C');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER update_recipes_search_vector
+  BEFORE INSERT OR UPDATE OF title, ingredients, instructions ON public.recipes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_recipe_search_vector();
+
+-- Backfill existing recipes without bumping their updated_at
+ALTER TABLE public.recipes DISABLE TRIGGER update_recipes_updated_at;
+UPDATE public.recipes SET title = title;
+ALTER TABLE public.recipes ENABLE TRIGGER update_recipes_updated_at;
+
+CREATE INDEX recipes_search_vector_idx ON public.recipes USING GIN (search_vector);
+
+-- Search now matches word stems ("roasted garlic" finds "roast the garlic") and
+-- orders by relevance when there is a query, newest first otherwise.
+CREATE OR REPLACE FUNCTION public.search_recipes(
+  p_search TEXT DEFAULT NULL,
+  p_cuisine TEXT DEFAULT NULL,
+  p_difficulty public.difficulty_level DEFAULT NULL,
+  p_tags TEXT[] DEFAULT NULL,
+  p_match_all_tags BOOLEAN DEFAULT TRUE
+)
+RETURNS SETOF public.recipes AS $$
+  WITH params AS (
+    SELECT
+      -- A query made only of stop words ("the") parses to an empty tsquery and is ignored
+      NULLIF(websearch_to_tsquery('english', COALESCE(p_search, '')), ''::tsquery) AS query,
+      (SELECT count(DISTINCT tag) FROM unnest(p_tags) AS tag) AS tag_count
+  )
+  SELECT r.*
+  FROM public.recipes r, params
+  WHERE (params.query IS NULL OR r.search_vector @@ params.query)
+    AND (p_cuisine IS NULL OR r.cuisine = p_cuisine)
+    AND (p_difficulty IS NULL OR r.difficulty = p_difficulty)
+    AND (
+      params.tag_count = 0
+      OR (
+        SELECT count(*)
+        FROM public.recipe_tags rt
+        JOIN public.tags t ON t.id = rt.tag_id
+        WHERE rt.recipe_id = r.id AND t.name = ANY (p_tags)
+      ) >= CASE WHEN p_match_all_tags THEN params.tag_count ELSE 1 END
+    )
+  ORDER BY
+    ts_rank_cd(r.search_vector, params.query) DESC NULLS LAST,
+    r.created_at DESC,
+    r.id DESC;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Highlighted title and body snippet for each of the given recipes. Matches are
+-- wrapped in ⟪ ⟫; the snippet is NULL when only the title matched.
+CREATE OR REPLACE FUNCTION public.search_recipe_highlights(p_search TEXT, p_recipe_ids UUID[])
+RETURNS TABLE (recipe_id UUID, title TEXT, snippet TEXT) AS $$
+  WITH params AS (
+    SELECT websearch_to_tsquery('english', COALESCE(p_search, '')) AS query
+  ),
+  highlighted AS (
+    SELECT
+      r.id,
+      ts_headline('english', r.title, params.query, 'HighlightAll=true, StartSel=⟪, StopSel=⟫') AS title,
+      ts_headline(
+        'english',
+        public.recipe_ingredients_text(r.ingredients) || '. ' || public.recipe_instructions_text(r.instructions),
+        params.query,
+        'StartSel=⟪, StopSel=⟫, MaxWords=18, MinWords=6, MaxFragments=2, FragmentDelimiter=" … "'
+      ) AS snippet
+    FROM public.recipes r, params
+    WHERE r.id = ANY (p_recipe_ids)
+  )
+  SELECT id, title, CASE WHEN position('⟪' IN snippet) > 0 THEN snippet END
+  FROM highlighted;
+$$ LANGUAGE sql STABLE SET search_path = public;
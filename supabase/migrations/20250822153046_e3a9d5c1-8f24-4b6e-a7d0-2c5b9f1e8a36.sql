@@ -0,0 +1,100 @@
+-- Typo-tolerant search: trigram matching on titles and ingredient names on top
+-- of the full-text search, plus "did you mean" suggestions for empty results.
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+CREATE INDEX recipes_title_trgm_idx ON public.recipes
+  USING GIN (title extensions.gin_trgm_ops);
+CREATE INDEX recipes_ingredients_trgm_idx ON public.recipes
+  USING GIN (public.recipe_ingredients_text(ingredients) extensions.gin_trgm_ops);
+
+-- Adding the threshold parameter changes the signature, so replace rather than overload
+DROP FUNCTION public.search_recipes(TEXT, TEXT, public.difficulty_level, TEXT[], BOOLEAN);
+
+-- A recipe matches when the full-text query matches or the search term is
+-- within `p_similarity` (0-1, higher is stricter) of a run of words in its
+-- title or ingredient names, so "bolognaise" still finds "Spaghetti Bolognese".
+CREATE OR REPLACE FUNCTION public.search_recipes(
+  p_search TEXT DEFAULT NULL,
+  p_cuisine TEXT DEFAULT NULL,
+  p_difficulty public.difficulty_level DEFAULT NULL,
+  p_tags TEXT[] DEFAULT NULL,
+  p_match_all_tags BOOLEAN DEFAULT TRUE,
+  p_similarity REAL DEFAULT 0.5
+)
+RETURNS SETOF public.recipes AS $$
+DECLARE
+  -- A query made only of stop words ("the") parses to an empty tsquery and only matches fuzzily
+  query TSQUERY := NULLIF(websearch_to_tsquery('english', COALESCE(p_search, '')), ''::tsquery);
+  term TEXT := NULLIF(lower(btrim(p_search)), '');
+  tag_count INTEGER := (SELECT count(DISTINCT tag) FROM unnest(p_tags) AS tag);
+BEGIN
+  -- Lets the <% operator use the trigram indexes with this query's threshold
+  PERFORM set_config('pg_trgm.word_similarity_threshold', p_similarity::TEXT, true);
+
+  RETURN QUERY
+  SELECT r.*
+  FROM public.recipes r
+  WHERE (
+      term IS NULL
+      OR r.search_vector @@ query
+      OR term <% r.title
+      OR term <% public.recipe_ingredients_text(r.ingredients)
+    )
+    AND (p_cuisine IS NULL OR r.cuisine = p_cuisine)
+    AND (p_difficulty IS NULL OR r.difficulty = p_difficulty)
+    AND (
+      tag_count = 0
+      OR (
+        SELECT count(*)
+        FROM public.recipe_tags rt
+        JOIN public.tags t ON t.id = rt.tag_id
+        WHERE rt.recipe_id = r.id AND t.name = ANY (p_tags)
+      ) >= CASE WHEN p_match_all_tags THEN tag_count ELSE 1 END
+    )
+  ORDER BY
+    CASE WHEN term IS NOT NULL THEN
+      COALESCE(ts_rank_cd(r.search_vector, query), 0) + greatest(
+        word_similarity(term, r.title),
+        word_similarity(term, public.recipe_ingredients_text(r.ingredients))
+      )
+    END DESC NULLS LAST,
+    r.created_at DESC,
+    r.id DESC;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public, extensions;
+
+-- Suggests a corrected search by replacing each unknown word with the closest
+-- word from the user's recipe titles and ingredient names. Returns NULL when
+-- there is nothing to correct.
+CREATE OR REPLACE FUNCTION public.suggest_recipe_search(p_search TEXT, p_similarity REAL DEFAULT 0.3)
+RETURNS TEXT AS $$
+  WITH vocabulary AS (
+    SELECT DISTINCT word
+    FROM public.recipes r,
+      regexp_split_to_table(lower(r.title || ' ' || public.recipe_ingredients_text(r.ingredients)), '[^[:alpha:]]+') AS word
+    WHERE length(word) > 2
+  ),
+  words AS (
+    SELECT word, position
+    FROM regexp_split_to_table(lower(btrim(p_search)), '\s+') WITH ORDINALITY AS w (word, position)
+    WHERE word <> ''
+  ),
+  corrected AS (
+    SELECT
+      w.position,
+      w.word AS original,
+      COALESCE(
+        (SELECT v.word FROM vocabulary v WHERE v.word = w.word),
+        (
+          SELECT v.word FROM vocabulary v
+          WHERE similarity(v.word, w.word) >= p_similarity
+          ORDER BY similarity(v.word, w.word) DESC, v.word
+          LIMIT 1
+        ),
+        w.word
+      ) AS word
+    FROM words w
+  )
+  SELECT NULLIF(string_agg(word, ' ' ORDER BY position), string_agg(original, ' ' ORDER BY position))
+  FROM corrected;
+$$ LANGUAGE sql STABLE SET search_path = public, extensions;
@@ -0,0 +1,83 @@
+-- Dashboard sort order and view mode, remembered per user
+CREATE TYPE public.recipe_sort_key AS ENUM ('created_at', 'updated_at', 'title', 'total_time', 'difficulty');
+CREATE TYPE public.recipe_view_mode AS ENUM ('grid', 'list', 'compact');
+
+ALTER TABLE public.profiles
+  ADD COLUMN recipe_sort public.recipe_sort_key NOT NULL DEFAULT 'created_at',
+  ADD COLUMN recipe_sort_ascending BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN recipe_view public.recipe_view_mode NOT NULL DEFAULT 'grid';
+
+-- Prep plus cook time in minutes, NULL when neither is known
+CREATE OR REPLACE FUNCTION public.recipe_total_time(recipe public.recipes)
+RETURNS INTEGER AS $$
+  SELECT CASE
+    WHEN recipe.prep_time IS NULL AND recipe.cook_time IS NULL THEN NULL
+    ELSE COALESCE(recipe.prep_time, 0) + COALESCE(recipe.cook_time, 0)
+  END
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+DROP FUNCTION public.search_recipes(TEXT, TEXT, public.difficulty_level, TEXT[], BOOLEAN, REAL);
+
+-- As before, plus `p_sort`/`p_ascending`. A NULL sort orders search results by
+-- relevance (and everything else newest first); recipes without a value for the
+-- chosen key, e.g. no times entered, always come last.
+CREATE OR REPLACE FUNCTION public.search_recipes(
+  p_search TEXT DEFAULT NULL,
+  p_cuisine TEXT DEFAULT NULL,
+  p_difficulty public.difficulty_level DEFAULT NULL,
+  p_tags TEXT[] DEFAULT NULL,
+  p_match_all_tags BOOLEAN DEFAULT TRUE,
+  p_similarity REAL DEFAULT 0.5,
+  p_sort public.recipe_sort_key DEFAULT NULL,
+  p_ascending BOOLEAN DEFAULT FALSE
+)
+RETURNS SETOF public.recipes AS $$
+DECLARE
+  -- A query made only of stop words ("the") parses to an empty tsquery and only matches fuzzily
+  query TSQUERY := NULLIF(websearch_to_tsquery('english', COALESCE(p_search, '')), ''::tsquery);
+  term TEXT := NULLIF(lower(btrim(p_search)), '');
+  tag_count INTEGER := (SELECT count(DISTINCT tag) FROM unnest(p_tags) AS tag);
+BEGIN
+  -- Lets the <% operator use the trigram indexes with this query's threshold
+  PERFORM set_config('pg_trgm.word_similarity_threshold', p_similarity::TEXT, true);
+
+  RETURN QUERY
+  SELECT r.*
+  FROM public.recipes r
+  WHERE (
+      term IS NULL
+      OR r.search_vector @@ query
+      OR term <% r.title
+      OR term <% public.recipe_ingredients_text(r.ingredients)
+    )
+    AND (p_cuisine IS NULL OR r.cuisine = p_cuisine)
+    AND (p_difficulty IS NULL OR r.difficulty = p_difficulty)
+    AND (
+      tag_count = 0
+      OR (
+        SELECT count(*)
+        FROM public.recipe_tags rt
+        JOIN public.tags t ON t.id = rt.tag_id
+        WHERE rt.recipe_id = r.id AND t.name = ANY (p_tags)
+      ) >= CASE WHEN p_match_all_tags THEN tag_count ELSE 1 END
+    )
+  ORDER BY
+    CASE WHEN p_sort IS NULL AND term IS NOT NULL THEN
+      COALESCE(ts_rank_cd(r.search_vector, query), 0) + greatest(
+        word_similarity(term, r.title),
+        word_similarity(term, public.recipe_ingredients_text(r.ingredients))
+      )
+    END DESC NULLS LAST,
+    CASE WHEN p_sort = 'title' AND p_ascending THEN lower(r.title) END ASC,
+    CASE WHEN p_sort = 'title' AND NOT p_ascending THEN lower(r.title) END DESC,
+    CASE WHEN p_sort = 'total_time' AND p_ascending THEN public.recipe_total_time(r) END ASC NULLS LAST,
+    CASE WHEN p_sort = 'total_time' AND NOT p_ascending THEN public.recipe_total_time(r) END DESC NULLS LAST,
+    CASE WHEN p_sort = 'difficulty' AND p_ascending THEN r.difficulty END ASC,
+    CASE WHEN p_sort = 'difficulty' AND NOT p_ascending THEN r.difficulty END DESC,
+    CASE WHEN p_sort = 'updated_at' AND p_ascending THEN r.updated_at END ASC,
+    CASE WHEN p_sort = 'updated_at' AND NOT p_ascending THEN r.updated_at END DESC,
+    CASE WHEN p_sort = 'created_at' AND p_ascending THEN r.created_at END ASC,
+    r.created_at DESC,
+    r.id DESC;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public, extensions;
@@ -0,0 +1,61 @@
+-- Named searches that capture the dashboard's filter and sort state. They act
+-- as dynamic collections: opening one re-runs the search, so results always
+-- reflect the current recipes.
+CREATE TABLE public.saved_searches (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (btrim(name) <> ''),
+  -- { search, cuisine, difficulty, tags, tagMatchMode, sort, ascending }
+  query JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX saved_searches_user_id_idx ON public.saved_searches (user_id);
+
+-- Enable RLS
+ALTER TABLE public.saved_searches ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for saved_searches
+CREATE POLICY "Users can view their own saved searches"
+ON public.saved_searches
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own saved searches"
+ON public.saved_searches
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own saved searches"
+ON public.saved_searches
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own saved searches"
+ON public.saved_searches
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_saved_searches_updated_at
+  BEFORE UPDATE ON public.saved_searches
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- How many recipes each of the user's saved searches currently matches
+CREATE OR REPLACE FUNCTION public.saved_search_counts()
+RETURNS TABLE (saved_search_id UUID, recipe_count BIGINT) AS $$
+  SELECT
+    s.id,
+    (
+      SELECT count(*)
+      FROM public.search_recipes(
+        p_search => s.query->>'search',
+        p_cuisine => s.query->>'cuisine',
+        p_difficulty => (s.query->>'difficulty')::public.difficulty_level,
+        p_tags => ARRAY(SELECT jsonb_array_elements_text(COALESCE(s.query->'tags', '[]'))),
+        p_match_all_tags => COALESCE(s.query->>'tagMatchMode', 'all') <> 'any'
+      )
+    )
+  FROM public.saved_searches s;
+$$ LANGUAGE sql STABLE SET search_path = public;
@@ -0,0 +1,116 @@
+-- Create collections table: user-curated groups of recipes ("cookbooks")
+CREATE TABLE public.collections (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (btrim(name) <> ''),
+  description TEXT,
+  -- { path, thumbnail_path } in the recipe-photos bucket; NULL uses the first recipe's photo
+  cover_photo JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX collections_user_id_idx ON public.collections (user_id);
+
+-- Create join table between collections and recipes, in the order the user arranged them
+CREATE TABLE public.collection_recipes (
+  collection_id UUID NOT NULL REFERENCES public.collections(id) ON DELETE CASCADE,
+  recipe_id UUID NOT NULL REFERENCES public.recipes(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  added_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (collection_id, recipe_id)
+);
+
+CREATE INDEX collection_recipes_recipe_id_idx ON public.collection_recipes (recipe_id);
+CREATE INDEX collection_recipes_position_idx ON public.collection_recipes (collection_id, position);
+
+-- Enable RLS
+ALTER TABLE public.collections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.collection_recipes ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for collections
+CREATE POLICY "Users can view their own collections"
+ON public.collections
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own collections"
+ON public.collections
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own collections"
+ON public.collections
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own collections"
+ON public.collections
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Create policies for collection_recipes: both the collection and the recipe must belong to the user
+CREATE POLICY "Users can view recipes in their own collections"
+ON public.collection_recipes
+FOR SELECT
+USING (EXISTS (SELECT 1 FROM public.collections WHERE collections.id = collection_id AND collections.user_id = auth.uid()));
+
+CREATE POLICY "Users can add their own recipes to their own collections"
+ON public.collection_recipes
+FOR INSERT
+WITH CHECK (
+  EXISTS (SELECT 1 FROM public.collections WHERE collections.id = collection_id AND collections.user_id = auth.uid())
+  AND EXISTS (SELECT 1 FROM public.recipes WHERE recipes.id = recipe_id AND recipes.user_id = auth.uid())
+);
+
+CREATE POLICY "Users can reorder recipes in their own collections"
+ON public.collection_recipes
+FOR UPDATE
+USING (EXISTS (SELECT 1 FROM public.collections WHERE collections.id = collection_id AND collections.user_id = auth.uid()));
+
+CREATE POLICY "Users can remove recipes from their own collections"
+ON public.collection_recipes
+FOR DELETE
+USING (EXISTS (SELECT 1 FROM public.collections WHERE collections.id = collection_id AND collections.user_id = auth.uid()));
+
+CREATE TRIGGER update_collections_updated_at
+  BEFORE UPDATE ON public.collections
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Append recipes to the end of a collection, skipping ones already in it.
+-- Runs as the caller, so the policies above still apply.
+CREATE OR REPLACE FUNCTION public.add_recipes_to_collection(p_collection_id UUID, p_recipe_ids UUID[])
+RETURNS VOID AS $$
+  INSERT INTO public.collection_recipes (collection_id, recipe_id, position)
+  SELECT
+    p_collection_id,
+    ids.recipe_id,
+    (
+      SELECT COALESCE(max(position), 0)
+      FROM public.collection_recipes
+      WHERE collection_id = p_collection_id
+    ) + ids.ordinality::INTEGER
+  FROM unnest(p_recipe_ids) WITH ORDINALITY AS ids(recipe_id, ordinality)
+  ON CONFLICT (collection_id, recipe_id) DO NOTHING;
+$$ LANGUAGE sql SET search_path = public;
+
+-- Store a new manual order in one call; recipes left out of p_recipe_ids keep
+-- their relative order after the listed ones. Runs as the caller, so the
+-- policies above still apply.
+CREATE OR REPLACE FUNCTION public.reorder_collection_recipes(p_collection_id UUID, p_recipe_ids UUID[])
+RETURNS VOID AS $$
+  UPDATE public.collection_recipes cr
+  SET position = ordered.position
+  FROM (
+    SELECT
+      recipe_id,
+      row_number() OVER (
+        ORDER BY array_position(p_recipe_ids, recipe_id) NULLS LAST, position
+      )::INTEGER AS position
+    FROM public.collection_recipes
+    WHERE collection_id = p_collection_id
+  ) ordered
+  WHERE cr.collection_id = p_collection_id
+    AND cr.recipe_id = ordered.recipe_id;
+$$ LANGUAGE sql SET search_path = public;
@@ -0,0 +1,140 @@
+-- Create recipe_ratings table: each user's favorite flag and 1-5 star rating per
+-- recipe. Keyed by user rather than stored on recipes so it also works for
+-- recipes the user can see but does not own.
+CREATE TABLE public.recipe_ratings (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  recipe_id UUID NOT NULL REFERENCES public.recipes(id) ON DELETE CASCADE,
+  favorite BOOLEAN NOT NULL DEFAULT false,
+  rating SMALLINT CHECK (rating BETWEEN 1 AND 5),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, recipe_id)
+);
+
+CREATE INDEX recipe_ratings_recipe_id_idx ON public.recipe_ratings (recipe_id);
+
+-- Enable RLS
+ALTER TABLE public.recipe_ratings ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for recipe_ratings: users rate recipes they can see
+CREATE POLICY "Users can view their own ratings"
+ON public.recipe_ratings
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can rate recipes they can see"
+ON public.recipe_ratings
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM public.recipes WHERE recipes.id = recipe_id)
+);
+
+CREATE POLICY "Users can update their own ratings"
+ON public.recipe_ratings
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own ratings"
+ON public.recipe_ratings
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_recipe_ratings_updated_at
+  BEFORE UPDATE ON public.recipe_ratings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TYPE public.recipe_sort_key ADD VALUE IF NOT EXISTS 'rating';
+
+DROP FUNCTION public.search_recipes(TEXT, TEXT, public.difficulty_level, TEXT[], BOOLEAN, REAL, public.recipe_sort_key, BOOLEAN);
+
+-- As before, plus `p_favorites_only`/`p_min_rating` filters and a 'rating' sort,
+-- all based on the calling user's own ratings
+CREATE OR REPLACE FUNCTION public.search_recipes(
+  p_search TEXT DEFAULT NULL,
+  p_cuisine TEXT DEFAULT NULL,
+  p_difficulty public.difficulty_level DEFAULT NULL,
+  p_tags TEXT[] DEFAULT NULL,
+  p_match_all_tags BOOLEAN DEFAULT TRUE,
+  p_similarity REAL DEFAULT 0.5,
+  p_sort public.recipe_sort_key DEFAULT NULL,
+  p_ascending BOOLEAN DEFAULT FALSE,
+  p_favorites_only BOOLEAN DEFAULT FALSE,
+  p_min_rating INTEGER DEFAULT NULL
+)
+RETURNS SETOF public.recipes AS $$
+DECLARE
+  -- A query made only of stop words ("the") parses to an empty tsquery and only matches fuzzily
+  query TSQUERY := NULLIF(websearch_to_tsquery('english', COALESCE(p_search, '')), ''::tsquery);
+  term TEXT := NULLIF(lower(btrim(p_search)), '');
+  tag_count INTEGER := (SELECT count(DISTINCT tag) FROM unnest(p_tags) AS tag);
+BEGIN
+  -- Lets the <% operator use the trigram indexes with this query's threshold
+  PERFORM set_config('pg_trgm.word_similarity_threshold', p_similarity::TEXT, true);
+
+  RETURN QUERY
+  SELECT r.*
+  FROM public.recipes r
+  LEFT JOIN public.recipe_ratings rr ON rr.recipe_id = r.id AND rr.user_id = auth.uid()
+  WHERE (
+      term IS NULL
+      OR r.search_vector @@ query
+      OR term <% r.title
+      OR term <% public.recipe_ingredients_text(r.ingredients)
+    )
+    AND (p_cuisine IS NULL OR r.cuisine = p_cuisine)
+    AND (p_difficulty IS NULL OR r.difficulty = p_difficulty)
+    AND (
+      tag_count = 0
+      OR (
+        SELECT count(*)
+        FROM public.recipe_tags rt
+        JOIN public.tags t ON t.id = rt.tag_id
+        WHERE rt.recipe_id = r.id AND t.name = ANY (p_tags)
+      ) >= CASE WHEN p_match_all_tags THEN tag_count ELSE 1 END
+    )
+    AND (NOT p_favorites_only OR rr.favorite)
+    AND (p_min_rating IS NULL OR rr.rating >= p_min_rating)
+  ORDER BY
+    CASE WHEN p_sort IS NULL AND term IS NOT NULL THEN
+      COALESCE(ts_rank_cd(r.search_vector, query), 0) + greatest(
+        word_similarity(term, r.title),
+        word_similarity(term, public.recipe_ingredients_text(r.ingredients))
+      )
+    END DESC NULLS LAST,
+    CASE WHEN p_sort = 'title' AND p_ascending THEN lower(r.title) END ASC,
+    CASE WHEN p_sort = 'title' AND NOT p_ascending THEN lower(r.title) END DESC,
+    CASE WHEN p_sort = 'total_time' AND p_ascending THEN public.recipe_total_time(r) END ASC NULLS LAST,
+    CASE WHEN p_sort = 'total_time' AND NOT p_ascending THEN public.recipe_total_time(r) END DESC NULLS LAST,
+    CASE WHEN p_sort = 'difficulty' AND p_ascending THEN r.difficulty END ASC,
+    CASE WHEN p_sort = 'difficulty' AND NOT p_ascending THEN r.difficulty END DESC,
+    CASE WHEN p_sort = 'rating' AND p_ascending THEN rr.rating END ASC NULLS LAST,
+    CASE WHEN p_sort = 'rating' AND NOT p_ascending THEN rr.rating END DESC NULLS LAST,
+    CASE WHEN p_sort = 'updated_at' AND p_ascending THEN r.updated_at END ASC,
+    CASE WHEN p_sort = 'updated_at' AND NOT p_ascending THEN r.updated_at END DESC,
+    CASE WHEN p_sort = 'created_at' AND p_ascending THEN r.created_at END ASC,
+    r.created_at DESC,
+    r.id DESC;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public, extensions;
+
+-- Saved searches can now include the favorites and rating filters too
+CREATE OR REPLACE FUNCTION public.saved_search_counts()
+RETURNS TABLE (saved_search_id UUID, recipe_count BIGINT) AS $$
+  SELECT
+    s.id,
+    (
+      SELECT count(*)
+      FROM public.search_recipes(
+        p_search => s.query->>'search',
+        p_cuisine => s.query->>'cuisine',
+        p_difficulty => (s.query->>'difficulty')::public.difficulty_level,
+        p_tags => ARRAY(SELECT jsonb_array_elements_text(COALESCE(s.query->'tags', '[]'))),
+        p_match_all_tags => COALESCE(s.query->>'tagMatchMode', 'all') <> 'any',
+        p_favorites_only => COALESCE((s.query->>'favoritesOnly')::BOOLEAN, false),
+        p_min_rating => (s.query->>'minRating')::INTEGER
+      )
+    )
+  FROM public.saved_searches s;
+$$ LANGUAGE sql STABLE SET search_path = public;
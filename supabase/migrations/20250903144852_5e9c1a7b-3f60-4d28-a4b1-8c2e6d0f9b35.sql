@@ -0,0 +1,133 @@
+-- Create cook_logs table: one entry each time a user cooks a recipe
+CREATE TABLE public.cook_logs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  recipe_id UUID NOT NULL REFERENCES public.recipes(id) ON DELETE CASCADE,
+  cooked_on DATE NOT NULL DEFAULT current_date,
+  notes TEXT,
+  -- How this particular attempt turned out, separate from the recipe's overall rating
+  rating SMALLINT CHECK (rating BETWEEN 1 AND 5),
+  -- { path, thumbnail_path } in the recipe-photos bucket
+  photo JSONB,
+  servings INTEGER CHECK (servings > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX cook_logs_recipe_id_idx ON public.cook_logs (recipe_id, cooked_on DESC);
+CREATE INDEX cook_logs_user_id_idx ON public.cook_logs (user_id);
+
+-- Enable RLS
+ALTER TABLE public.cook_logs ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for cook_logs: users log recipes they can see
+CREATE POLICY "Users can view their own cook logs"
+ON public.cook_logs
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can log recipes they can see"
+ON public.cook_logs
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM public.recipes WHERE recipes.id = recipe_id)
+);
+
+CREATE POLICY "Users can update their own cook logs"
+ON public.cook_logs
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own cook logs"
+ON public.cook_logs
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- When and how often the current user cooked each recipe. security_invoker
+-- applies the cook_logs policies, so only the caller's own entries count.
+CREATE VIEW public.recipe_cook_stats
+WITH (security_invoker = true) AS
+SELECT
+  recipe_id,
+  max(cooked_on) AS last_cooked,
+  count(*)::INTEGER AS times_cooked
+FROM public.cook_logs
+GROUP BY recipe_id;
+
+ALTER TYPE public.recipe_sort_key ADD VALUE IF NOT EXISTS 'last_cooked';
+ALTER TYPE public.recipe_sort_key ADD VALUE IF NOT EXISTS 'times_cooked';
+
+-- Same signature as before; adds the 'last_cooked' and 'times_cooked' sorts.
+-- Never-cooked recipes sort last by date and count as zero times.
+CREATE OR REPLACE FUNCTION public.search_recipes(
+  p_search TEXT DEFAULT NULL,
+  p_cuisine TEXT DEFAULT NULL,
+  p_difficulty public.difficulty_level DEFAULT NULL,
+  p_tags TEXT[] DEFAULT NULL,
+  p_match_all_tags BOOLEAN DEFAULT TRUE,
+  p_similarity REAL DEFAULT 0.5,
+  p_sort public.recipe_sort_key DEFAULT NULL,
+  p_ascending BOOLEAN DEFAULT FALSE,
+  p_favorites_only BOOLEAN DEFAULT FALSE,
+  p_min_rating INTEGER DEFAULT NULL
+)
+RETURNS SETOF public.recipes AS $$
+DECLARE
+  -- A query made only of stop words ("the") parses to an empty tsquery and only matches fuzzily
+  query TSQUERY := NULLIF(websearch_to_tsquery('english', COALESCE(p_search, '')), ''::tsquery);
+  term TEXT := NULLIF(lower(btrim(p_search)), '');
+  tag_count INTEGER := (SELECT count(DISTINCT tag) FROM unnest(p_tags) AS tag);
+BEGIN
+  -- Lets the <% operator use the trigram indexes with this query's threshold
+  PERFORM set_config('pg_trgm.word_similarity_threshold', p_similarity::TEXT, true);
+
+  RETURN QUERY
+  SELECT r.*
+  FROM public.recipes r
+  LEFT JOIN public.recipe_ratings rr ON rr.recipe_id = r.id AND rr.user_id = auth.uid()
+  LEFT JOIN public.recipe_cook_stats cs ON cs.recipe_id = r.id
+  WHERE (
+      term IS NULL
+      OR r.search_vector @@ query
+      OR term <% r.title
+      OR term <% public.recipe_ingredients_text(r.ingredients)
+    )
+    AND (p_cuisine IS NULL OR r.cuisine = p_cuisine)
+    AND (p_difficulty IS NULL OR r.difficulty = p_difficulty)
+    AND (
+      tag_count = 0
+      OR (
+        SELECT count(*)
+        FROM public.recipe_tags rt
+        JOIN public.tags t ON t.id = rt.tag_id
+        WHERE rt.recipe_id = r.id AND t.name = ANY (p_tags)
+      ) >= CASE WHEN p_match_all_tags THEN tag_count ELSE 1 END
+    )
+    AND (NOT p_favorites_only OR rr.favorite)
+    AND (p_min_rating IS NULL OR rr.rating >= p_min_rating)
+  ORDER BY
+    CASE WHEN p_sort IS NULL AND term IS NOT NULL THEN
+      COALESCE(ts_rank_cd(r.search_vector, query), 0) + greatest(
+        word_similarity(term, r.title),
+        word_similarity(term, public.recipe_ingredients_text(r.ingredients))
+      )
+    END DESC NULLS LAST,
+    CASE WHEN p_sort = 'title' AND p_ascending THEN lower(r.title) END ASC,
+    CASE WHEN p_sort = 'title' AND NOT p_ascending THEN lower(r.title) END DESC,
+    CASE WHEN p_sort = 'total_time' AND p_ascending THEN public.recipe_total_time(r) END ASC NULLS LAST,
+    CASE WHEN p_sort = 'total_time' AND NOT p_ascending THEN public.recipe_total_time(r) END DESC NULLS LAST,
+    CASE WHEN p_sort = 'difficulty' AND p_ascending THEN r.difficulty END ASC,
+    CASE WHEN p_sort = 'difficulty' AND NOT p_ascending THEN r.difficulty END DESC,
+    CASE WHEN p_sort = 'rating' AND p_ascending THEN rr.rating END ASC NULLS LAST,
+    CASE WHEN p_sort = 'rating' AND NOT p_ascending THEN rr.rating END DESC NULLS LAST,
+    CASE WHEN p_sort = 'last_cooked' AND p_ascending THEN cs.last_cooked END ASC NULLS LAST,
+    CASE WHEN p_sort = 'last_cooked' AND NOT p_ascending THEN cs.last_cooked END DESC NULLS LAST,
+    CASE WHEN p_sort = 'times_cooked' AND p_ascending THEN COALESCE(cs.times_cooked, 0) END ASC,
+    CASE WHEN p_sort = 'times_cooked' AND NOT p_ascending THEN COALESCE(cs.times_cooked, 0) END DESC,
+    CASE WHEN p_sort = 'updated_at' AND p_ascending THEN r.updated_at END ASC,
+    CASE WHEN p_sort = 'updated_at' AND NOT p_ascending THEN r.updated_at END DESC,
+    CASE WHEN p_sort = 'created_at' AND p_ascending THEN r.created_at END ASC,
+    r.created_at DESC,
+    r.id DESC;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public, extensions;
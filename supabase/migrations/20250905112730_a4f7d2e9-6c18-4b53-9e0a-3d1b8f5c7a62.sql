@@ -0,0 +1,101 @@
+-- Create recipe_revisions table: a snapshot of a recipe as it was before each edit
+CREATE TABLE public.recipe_revisions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  recipe_id UUID NOT NULL REFERENCES public.recipes(id) ON DELETE CASCADE,
+  -- Who made the edit that replaced this version
+  edited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  -- The editable recipe columns plus `tags`, as of before the edit
+  snapshot JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX recipe_revisions_recipe_id_idx ON public.recipe_revisions (recipe_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.recipe_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for recipe_revisions: rows are only written by the trigger below
+CREATE POLICY "Users can view the history of their own recipes"
+ON public.recipe_revisions
+FOR SELECT
+USING (EXISTS (SELECT 1 FROM public.recipes WHERE recipes.id = recipe_id AND recipes.user_id = auth.uid()));
+
+-- Snapshot the previous version whenever a recipe's content changes. Tags are
+-- replaced by `set_recipe_tags` after the row update, so the ones read here are
+-- still the old ones. Runs as definer since users can't insert revisions directly.
+CREATE OR REPLACE FUNCTION public.snapshot_recipe_revision()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.recipe_revisions (recipe_id, edited_by, snapshot)
+  VALUES (
+    OLD.id,
+    auth.uid(),
+    jsonb_build_object(
+      'title', OLD.title,
+      'ingredients', OLD.ingredients,
+      'instructions', OLD.instructions,
+      'difficulty', OLD.difficulty,
+      'cuisine', OLD.cuisine,
+      'prep_time', OLD.prep_time,
+      'cook_time', OLD.cook_time,
+      'servings', OLD.servings,
+      'photos', OLD.photos,
+      'tags', COALESCE((
+        SELECT jsonb_agg(t.name ORDER BY t.name)
+        FROM public.recipe_tags rt
+        JOIN public.tags t ON t.id = rt.tag_id
+        WHERE rt.recipe_id = OLD.id
+      ), '[]'::jsonb),
+      'updated_at', OLD.updated_at
+    )
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER snapshot_recipe_revision
+  AFTER UPDATE ON public.recipes
+  FOR EACH ROW
+  WHEN (
+    (OLD.title, OLD.ingredients, OLD.instructions, OLD.difficulty, OLD.cuisine,
+     OLD.prep_time, OLD.cook_time, OLD.servings, OLD.photos)
+    IS DISTINCT FROM
+    (NEW.title, NEW.ingredients, NEW.instructions, NEW.difficulty, NEW.cuisine,
+     NEW.prep_time, NEW.cook_time, NEW.servings, NEW.photos)
+  )
+  EXECUTE FUNCTION public.snapshot_recipe_revision();
+
+-- Put a recipe back the way it was in a revision. The update is itself
+-- snapshotted, so a restore can be undone from the history too. Runs as the
+-- caller, so only the owner can restore.
+CREATE OR REPLACE FUNCTION public.restore_recipe_revision(p_revision_id UUID)
+RETURNS SETOF public.recipes AS $$
+DECLARE
+  revision public.recipe_revisions;
+BEGIN
+  SELECT * INTO revision FROM public.recipe_revisions WHERE id = p_revision_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Revision not found';
+  END IF;
+
+  UPDATE public.recipes
+  SET
+    title = revision.snapshot->>'title',
+    ingredients = revision.snapshot->'ingredients',
+    instructions = revision.snapshot->'instructions',
+    difficulty = (revision.snapshot->>'difficulty')::public.difficulty_level,
+    cuisine = revision.snapshot->>'cuisine',
+    prep_time = (revision.snapshot->>'prep_time')::INTEGER,
+    cook_time = (revision.snapshot->>'cook_time')::INTEGER,
+    servings = (revision.snapshot->>'servings')::INTEGER,
+    photos = COALESCE(revision.snapshot->'photos', '[]'::jsonb)
+  WHERE id = revision.recipe_id;
+
+  PERFORM public.set_recipe_tags(
+    revision.recipe_id,
+    ARRAY(SELECT jsonb_array_elements_text(COALESCE(revision.snapshot->'tags', '[]'::jsonb)))
+  );
+
+  RETURN QUERY SELECT * FROM public.recipes WHERE id = revision.recipe_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
@@ -0,0 +1,169 @@
+-- Soft delete: trashed recipes keep their row until restored or purged
+ALTER TABLE public.recipes ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX recipes_deleted_at_idx ON public.recipes (user_id, deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- How long trashed recipes are kept before they are deleted for good
+ALTER TABLE public.profiles
+  ADD COLUMN trash_retention_days INTEGER NOT NULL DEFAULT 30
+  CHECK (trash_retention_days BETWEEN 1 AND 365);
+
+-- Recipes split by whether they are in the trash. security_invoker applies the
+-- recipes and profiles policies, so each user only sees their own.
+CREATE VIEW public.active_recipes
+WITH (security_invoker = true) AS
+SELECT *
+FROM public.recipes
+WHERE deleted_at IS NULL;
+
+CREATE VIEW public.trashed_recipes
+WITH (security_invoker = true) AS
+SELECT
+  r.id,
+  r.user_id,
+  r.title,
+  r.photos,
+  r.deleted_at,
+  r.deleted_at + make_interval(days => COALESCE(p.trash_retention_days, 30)) AS purge_at
+FROM public.recipes r
+LEFT JOIN public.profiles p ON p.id = r.user_id
+WHERE r.deleted_at IS NOT NULL;
+
+-- Same signature as before; leaves out trashed recipes, which also keeps them
+-- out of the saved search counts
+CREATE OR REPLACE FUNCTION public.search_recipes(
+  p_search TEXT DEFAULT NULL,
+  p_cuisine TEXT DEFAULT NULL,
+  p_difficulty public.difficulty_level DEFAULT NULL,
+  p_tags TEXT[] DEFAULT NULL,
+  p_match_all_tags BOOLEAN DEFAULT TRUE,
+  p_similarity REAL DEFAULT 0.5,
+  p_sort public.recipe_sort_key DEFAULT NULL,
+  p_ascending BOOLEAN DEFAULT FALSE,
+  p_favorites_only BOOLEAN DEFAULT FALSE,
+  p_min_rating INTEGER DEFAULT NULL
+)
+RETURNS SETOF public.recipes AS $$
+DECLARE
+  -- A query made only of stop words ("the") parses to an empty tsquery and only matches fuzzily
+  query TSQUERY := NULLIF(websearch_to_tsquery('english', COALESCE(p_search, '')), ''::tsquery);
+  term TEXT := NULLIF(lower(btrim(p_search)), '');
+  tag_count INTEGER := (SELECT count(DISTINCT tag) FROM unnest(p_tags) AS tag);
+BEGIN
+  -- Lets the <% operator use the trigram indexes with this query's threshold
+  PERFORM set_config('pg_trgm.word_similarity_threshold', p_similarity::TEXT, true);
+
+  RETURN QUERY
+  SELECT r.*
+  FROM public.recipes r
+  LEFT JOIN public.recipe_ratings rr ON rr.recipe_id = r.id AND rr.user_id = auth.uid()
+  LEFT JOIN public.recipe_cook_stats cs ON cs.recipe_id = r.id
+  WHERE r.deleted_at IS NULL
+    AND (
+      term IS NULL
+      OR r.search_vector @@ query
+      OR term <% r.title
+      OR term <% public.recipe_ingredients_text(r.ingredients)
+    )
+    AND (p_cuisine IS NULL OR r.cuisine = p_cuisine)
+    AND (p_difficulty IS NULL OR r.difficulty = p_difficulty)
+    AND (
+      tag_count = 0
+      OR (
+        SELECT count(*)
+        FROM public.recipe_tags rt
+        JOIN public.tags t ON t.id = rt.tag_id
+        WHERE rt.recipe_id = r.id AND t.name = ANY (p_tags)
+      ) >= CASE WHEN p_match_all_tags THEN tag_count ELSE 1 END
+    )
+    AND (NOT p_favorites_only OR rr.favorite)
+    AND (p_min_rating IS NULL OR rr.rating >= p_min_rating)
+  ORDER BY
+    CASE WHEN p_sort IS NULL AND term IS NOT NULL THEN
+      COALESCE(ts_rank_cd(r.search_vector, query), 0) + greatest(
+        word_similarity(term, r.title),
+        word_similarity(term, public.recipe_ingredients_text(r.ingredients))
+      )
+    END DESC NULLS LAST,
+    CASE WHEN p_sort = 'title' AND p_ascending THEN lower(r.title) END ASC,
+    CASE WHEN p_sort = 'title' AND NOT p_ascending THEN lower(r.title) END DESC,
+    CASE WHEN p_sort = 'total_time' AND p_ascending THEN public.recipe_total_time(r) END ASC NULLS LAST,
+    CASE WHEN p_sort = 'total_time' AND NOT p_ascending THEN public.recipe_total_time(r) END DESC NULLS LAST,
+    CASE WHEN p_sort = 'difficulty' AND p_ascending THEN r.difficulty END ASC,
+    CASE WHEN p_sort = 'difficulty' AND NOT p_ascending THEN r.difficulty END DESC,
+    CASE WHEN p_sort = 'rating' AND p_ascending THEN rr.rating END ASC NULLS LAST,
+    CASE WHEN p_sort = 'rating' AND NOT p_ascending THEN rr.rating END DESC NULLS LAST,
+    CASE WHEN p_sort = 'last_cooked' AND p_ascending THEN cs.last_cooked END ASC NULLS LAST,
+    CASE WHEN p_sort = 'last_cooked' AND NOT p_ascending THEN cs.last_cooked END DESC NULLS LAST,
+    CASE WHEN p_sort = 'times_cooked' AND p_ascending THEN COALESCE(cs.times_cooked, 0) END ASC,
+    CASE WHEN p_sort = 'times_cooked' AND NOT p_ascending THEN COALESCE(cs.times_cooked, 0) END DESC,
+    CASE WHEN p_sort = 'updated_at' AND p_ascending THEN r.updated_at END ASC,
+    CASE WHEN p_sort = 'updated_at' AND NOT p_ascending THEN r.updated_at END DESC,
+    CASE WHEN p_sort = 'created_at' AND p_ascending THEN r.created_at END ASC,
+    r.created_at DESC,
+    r.id DESC;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public, extensions;
+
+-- Suggest corrections only from recipes the search can actually find
+CREATE OR REPLACE FUNCTION public.suggest_recipe_search(p_search TEXT, p_similarity REAL DEFAULT 0.3)
+RETURNS TEXT AS $$
+  WITH vocabulary AS (
+    SELECT DISTINCT word
+    FROM public.active_recipes r,
+      regexp_split_to_table(lower(r.title || ' ' || public.recipe_ingredients_text(r.ingredients)), '[^[:alpha:]]+') AS word
+    WHERE length(word) > 2
+  ),
+  words AS (
+    SELECT word, position
+    FROM regexp_split_to_table(lower(btrim(p_search)), '\s+') WITH ORDINALITY AS w (word, position)
+    WHERE word <> ''
+  ),
+  corrected AS (
+    SELECT
+      w.position,
+      w.word AS original,
+      COALESCE(
+        (SELECT v.word FROM vocabulary v WHERE v.word = w.word),
+        (
+          SELECT v.word FROM vocabulary v
+          WHERE similarity(v.word, w.word) >= p_similarity
+          ORDER BY similarity(v.word, w.word) DESC, v.word
+          LIMIT 1
+        ),
+        w.word
+      ) AS word
+    FROM words w
+  )
+  SELECT NULLIF(string_agg(word, ' ' ORDER BY position), string_agg(original, ' ' ORDER BY position))
+  FROM corrected;
+$$ LANGUAGE sql STABLE SET search_path = public, extensions;
+
+-- Delete recipes that have been in the trash longer than their owner's
+-- retention period. Runs as definer from the scheduled job below, across all
+-- users, so it is not callable through the API. Photos are left in storage,
+-- which SQL can't remove files from; deleting from the Trash page cleans them up.
+CREATE OR REPLACE FUNCTION public.purge_trashed_recipes()
+RETURNS INTEGER AS $$
+DECLARE
+  purged INTEGER;
+BEGIN
+  DELETE FROM public.recipes r
+  USING public.trashed_recipes t
+  WHERE t.id = r.id AND t.purge_at <= now();
+
+  GET DIAGNOSTICS purged = ROW_COUNT;
+  RETURN purged;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.purge_trashed_recipes() FROM PUBLIC, anon, authenticated;
+
+-- Purge once a day
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'purge-trashed-recipes',
+  '30 3 * * *',
+  $$SELECT public.purge_trashed_recipes()$$
+);
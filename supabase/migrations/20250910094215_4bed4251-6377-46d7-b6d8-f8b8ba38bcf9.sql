@@ -0,0 +1,81 @@
+-- Create import_batches table: one row per bulk import, so the recipes it
+-- added can be found again and removed together
+CREATE TABLE public.import_batches (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  source TEXT NOT NULL CHECK (source IN ('csv', 'json')),
+  file_name TEXT,
+  recipe_count INTEGER NOT NULL DEFAULT 0 CHECK (recipe_count >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  -- Still NULL when the import stopped part way; those recipes can be rolled back too
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX import_batches_user_id_idx ON public.import_batches (user_id, created_at DESC);
+
+ALTER TABLE public.recipes
+  ADD COLUMN import_batch_id UUID REFERENCES public.import_batches(id) ON DELETE SET NULL;
+
+CREATE INDEX recipes_import_batch_id_idx ON public.recipes (import_batch_id) WHERE import_batch_id IS NOT NULL;
+
+-- `SELECT *` views keep the columns they were created with, so add the new one
+CREATE OR REPLACE VIEW public.active_recipes
+WITH (security_invoker = true) AS
+SELECT *
+FROM public.recipes
+WHERE deleted_at IS NULL;
+
+ALTER TABLE public.import_batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own import batches"
+ON public.import_batches
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own import batches"
+ON public.import_batches
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own import batches"
+ON public.import_batches
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own import batches"
+ON public.import_batches
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Undo an import in one transaction: deletes every recipe it added, edited or
+-- not, and then the batch itself. Returns the photos those recipes and their
+-- revisions used, for the caller to remove from storage. Runs as the caller,
+-- so only the owner's batches are touched.
+CREATE OR REPLACE FUNCTION public.rollback_import_batch(p_batch_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  photos JSONB;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.import_batches WHERE id = p_batch_id) THEN
+    RAISE EXCEPTION 'Import not found';
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(DISTINCT photo), '[]'::jsonb)
+  INTO photos
+  FROM (
+    SELECT jsonb_array_elements(r.photos) AS photo
+    FROM public.recipes r
+    WHERE r.import_batch_id = p_batch_id AND jsonb_typeof(r.photos) = 'array'
+    UNION ALL
+    SELECT jsonb_array_elements(rv.snapshot->'photos')
+    FROM public.recipe_revisions rv
+    JOIN public.recipes r ON r.id = rv.recipe_id
+    WHERE r.import_batch_id = p_batch_id AND jsonb_typeof(rv.snapshot->'photos') = 'array'
+  ) used;
+
+  DELETE FROM public.recipes WHERE import_batch_id = p_batch_id;
+  DELETE FROM public.import_batches WHERE id = p_batch_id;
+
+  RETURN photos;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
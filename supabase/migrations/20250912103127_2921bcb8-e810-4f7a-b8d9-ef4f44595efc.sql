@@ -0,0 +1,6 @@
+-- Import batches can also come from other recipe apps' files
+ALTER TABLE public.import_batches DROP CONSTRAINT IF EXISTS import_batches_source_check;
+
+ALTER TABLE public.import_batches
+  ADD CONSTRAINT import_batches_source_check
+  CHECK (source IN ('csv', 'json', 'paprika', 'mealmaster', 'cooklang'));
@@ -0,0 +1,103 @@
+-- Tags live in recipe_tags, so an edit that only changes tags leaves the
+-- recipes row alone and the revision trigger never sees it. Take those
+-- snapshots in set_recipe_tags instead, which every save goes through.
+
+-- The snapshot of a recipe as stored in recipe_revisions, with the tags it has right now
+CREATE OR REPLACE FUNCTION public.recipe_revision_snapshot(p_recipe public.recipes)
+RETURNS JSONB AS $$
+  SELECT jsonb_build_object(
+    'title', p_recipe.title,
+    'ingredients', p_recipe.ingredients,
+    'instructions', p_recipe.instructions,
+    'difficulty', p_recipe.difficulty,
+    'cuisine', p_recipe.cuisine,
+    'prep_time', p_recipe.prep_time,
+    'cook_time', p_recipe.cook_time,
+    'servings', p_recipe.servings,
+    'photos', p_recipe.photos,
+    'tags', COALESCE((
+      SELECT jsonb_agg(t.name ORDER BY t.name)
+      FROM public.recipe_tags rt
+      JOIN public.tags t ON t.id = rt.tag_id
+      WHERE rt.recipe_id = p_recipe.id
+    ), '[]'::jsonb),
+    'updated_at', p_recipe.updated_at
+  );
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.snapshot_recipe_revision()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.recipe_revisions (recipe_id, edited_by, snapshot)
+  VALUES (OLD.id, auth.uid(), public.recipe_revision_snapshot(OLD));
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Snapshots one of the caller's recipes as it is now. Runs as definer since
+-- users can't insert revisions directly, so it checks ownership itself.
+CREATE OR REPLACE FUNCTION public.snapshot_recipe_tags_edit(p_recipe_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  INSERT INTO public.recipe_revisions (recipe_id, edited_by, snapshot)
+  SELECT r.id, auth.uid(), public.recipe_revision_snapshot(r)
+  FROM public.recipes r
+  WHERE r.id = p_recipe_id AND r.user_id = auth.uid();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- As before, plus a snapshot of the old tags when they change on a recipe
+-- that has been edited since it was created. Saves update the row first,
+-- which bumps updated_at, so a revision stamped with that same time means the
+-- row trigger already took this save's snapshot (old tags included).
+CREATE OR REPLACE FUNCTION public.set_recipe_tags(p_recipe_id UUID, p_tag_names TEXT[])
+RETURNS SETOF public.tags AS $$
+DECLARE
+  names TEXT[];
+  current_names TEXT[];
+BEGIN
+  SELECT COALESCE(array_agg(DISTINCT lower(btrim(n)) ORDER BY lower(btrim(n))), '{}')
+  INTO names
+  FROM unnest(p_tag_names) AS n
+  WHERE btrim(n) <> '';
+
+  SELECT COALESCE(array_agg(t.name ORDER BY t.name), '{}')
+  INTO current_names
+  FROM public.recipe_tags rt
+  JOIN public.tags t ON t.id = rt.tag_id
+  WHERE rt.recipe_id = p_recipe_id;
+
+  IF current_names IS DISTINCT FROM names AND EXISTS (
+    SELECT 1 FROM public.recipes r
+    WHERE r.id = p_recipe_id
+      AND r.updated_at > r.created_at
+      AND NOT EXISTS (
+        SELECT 1 FROM public.recipe_revisions rr
+        WHERE rr.recipe_id = r.id AND rr.created_at = r.updated_at
+      )
+  ) THEN
+    PERFORM public.snapshot_recipe_tags_edit(p_recipe_id);
+  END IF;
+
+  INSERT INTO public.tags (user_id, name)
+  SELECT auth.uid(), n FROM unnest(names) AS n
+  ON CONFLICT (user_id, name) DO NOTHING;
+
+  DELETE FROM public.recipe_tags rt
+  USING public.tags t
+  WHERE rt.recipe_id = p_recipe_id
+    AND t.id = rt.tag_id
+    AND NOT (t.name = ANY (names));
+
+  INSERT INTO public.recipe_tags (recipe_id, tag_id)
+  SELECT p_recipe_id, t.id
+  FROM public.tags t
+  WHERE t.user_id = auth.uid() AND t.name = ANY (names)
+  ON CONFLICT DO NOTHING;
+
+  RETURN QUERY
+  SELECT t.* FROM public.tags t
+  WHERE t.user_id = auth.uid() AND t.name = ANY (names)
+  ORDER BY t.name;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
@@ -0,0 +1,78 @@
+-- Files waiting to be removed from the recipe-photos bucket. SQL can't delete
+-- storage objects, so the trash purge records the paths of the photos it
+-- orphans here and the purge-photos edge function removes them. RLS with no
+-- policies: only the service role reads or writes it.
+CREATE TABLE public.photo_cleanup (
+  path TEXT NOT NULL PRIMARY KEY,
+  queued_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX photo_cleanup_queued_at_idx ON public.photo_cleanup (queued_at);
+
+ALTER TABLE public.photo_cleanup ENABLE ROW LEVEL SECURITY;
+
+-- Same purge as before, but first queues every photo the deleted rows point
+-- to: the recipe's own, those kept by its revisions for restoring older
+-- versions, and its cook log photos
+CREATE OR REPLACE FUNCTION public.purge_trashed_recipes()
+RETURNS INTEGER AS $$
+DECLARE
+  purged INTEGER;
+BEGIN
+  WITH expired AS (
+    SELECT id, photos FROM public.trashed_recipes WHERE purge_at <= now()
+  ),
+  photo_lists AS (
+    SELECT photos FROM expired
+    UNION ALL
+    SELECT rr.snapshot -> 'photos'
+    FROM public.recipe_revisions rr
+    JOIN expired e ON e.id = rr.recipe_id
+    UNION ALL
+    SELECT jsonb_build_array(cl.photo)
+    FROM public.cook_logs cl
+    JOIN expired e ON e.id = cl.recipe_id
+    WHERE cl.photo IS NOT NULL
+  )
+  INSERT INTO public.photo_cleanup (path)
+  SELECT DISTINCT file.path
+  FROM photo_lists l
+  -- Older snapshots may have no photos list
+  CROSS JOIN LATERAL jsonb_array_elements(
+    CASE WHEN jsonb_typeof(l.photos) = 'array' THEN l.photos ELSE '[]'::jsonb END
+  ) AS photo
+  CROSS JOIN LATERAL (VALUES (photo ->> 'path'), (photo ->> 'thumbnail_path')) AS file(path)
+  WHERE jsonb_typeof(photo) = 'object'
+    AND file.path IS NOT NULL
+  ON CONFLICT (path) DO NOTHING;
+
+  DELETE FROM public.recipes r
+  USING public.trashed_recipes t
+  WHERE t.id = r.id AND t.purge_at <= now();
+
+  GET DIAGNOSTICS purged = ROW_COUNT;
+  RETURN purged;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.purge_trashed_recipes() FROM PUBLIC, anon, authenticated;
+
+-- Drain the queue a quarter of an hour after the nightly purge. Expects the
+-- project URL and service role key in Vault as project_url and
+-- service_role_key; paths stay queued until a run removes them.
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'purge-photos',
+  '45 3 * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/purge-photos',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  )
+  $$
+);